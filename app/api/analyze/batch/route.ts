@@ -0,0 +1,214 @@
+// app/api/analyze/batch/route.ts
+// Several uploaded photos in one request: each runs the same pipeline as
+// /api/analyze, a few at a time, and reports its own result or error (see
+// lib/analysis/batch.ts), so one bad photo doesn't fail the batch.
+import {
+  type BatchAnalysisItem,
+  type BatchAnalysisResponse,
+  isOwnUploadKey,
+  mapWithConcurrency,
+} from "@/lib/analysis/batch";
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readBatchAnalyzeRequest,
+  runAnalysisPipeline,
+} from "@/lib/analysis/pipeline";
+import { loadDietaryProfile } from "@/lib/analysis/profile";
+import type { ValidationIssue } from "@/lib/analysis/schema";
+import type { AnalysisTask } from "@/lib/analysis/types";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import {
+  API_ERROR_CODES,
+  type ApiErrorCode,
+  CORRELATION_ID_HEADER,
+} from "@/lib/api-errors/envelope";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createS3Client, signedImageUrl } from "@/lib/s3";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it and shared by the batch.
+export const maxDuration = 60;
+
+// Photos analyzed at the same time; the others wait for a free slot
+const batchConcurrency = Number(process.env.ANALYSIS_BATCH_CONCURRENCY) || 2;
+
+function failedItem(
+  key: string,
+  code: ApiErrorCode,
+  message: string,
+  validationIssues?: ValidationIssue[]
+): BatchAnalysisItem {
+  return {
+    key,
+    status: "failed",
+    error: {
+      code,
+      message,
+      retryable: API_ERROR_CODES[code].retryable,
+      ...(validationIssues && { validation_issues: validationIssues }),
+    },
+  };
+}
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/batch", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Analysis Provider and S3) ---
+    const analysisProviders = getAnalysisProviders();
+    const s3 = createS3Client();
+    if (analysisProviders.length === 0 || !s3) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        analysisProviders.length === 0
+          ? "Server configuration error: AI analysis service is unavailable."
+          : "Server configuration error: AWS details missing",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 2: Get the Upload Keys from the Request Body ---
+    let keys: string[];
+    let force: boolean;
+    let mode: AnalysisTask;
+    try {
+      ({ keys, force, mode } = await readBatchAnalyzeRequest(request));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log }
+      );
+    }
+    log.debug("Request body parsed", { images: keys.length, mode, force });
+
+    // --- Step 2a: Only the caller's own uploads are signed and analyzed ---
+    if (!keys.every((key) => isOwnUploadKey(key, session.user.id))) {
+      return apiErrorResponse(
+        "FORBIDDEN",
+        "Only your own uploads can be analyzed.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 2b: Per-user Burst and Daily Limits ---
+    // Every photo counts as one analysis; the batch must fit as a whole
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log, keys.length)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze", keys.length),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        }
+      );
+    }
+
+    // --- Step 2c: Load the caller's allergens and dietary preferences ---
+    const profile = await log.time("load_profile", () =>
+      loadDietaryProfile(supabase, session.user.id, log)
+    );
+
+    // --- Steps 3-7 for each photo, a few at a time ---
+    const deadline = analysisDeadline(startTime);
+    const items = await mapWithConcurrency(
+      keys,
+      batchConcurrency,
+      async (key, index): Promise<BatchAnalysisItem> => {
+        const imageLog = log.child({ image_key: key, image_index: index });
+        try {
+          const result = await runAnalysisPipeline({
+            providers: analysisProviders,
+            supabase,
+            userId: session.user.id,
+            imageUrl: await signedImageUrl(s3, key),
+            force,
+            mode,
+            deadline,
+            profile,
+            log: imageLog,
+          });
+          return { key, status: "succeeded", result };
+        } catch (error: any) {
+          imageLog.warn("Batch image failed", { error });
+          return error instanceof AnalysisPipelineError
+            ? failedItem(key, error.code, error.message, error.validationIssues)
+            : failedItem(
+                key,
+                "INTERNAL_ERROR",
+                error?.message || "An unexpected server error occurred."
+              );
+        }
+      }
+    );
+
+    // --- Step 8: Return Every Photo's Outcome ---
+    const succeeded = items.filter((item) => item.status === "succeeded")
+      .length;
+    const body: BatchAnalysisResponse = {
+      items,
+      succeeded,
+      failed: items.length - succeeded,
+    };
+    log.info("Request complete", {
+      status: 200,
+      images: items.length,
+      succeeded,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json(body, {
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        [CORRELATION_ID_HEADER]: correlationId,
+      },
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze batch API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
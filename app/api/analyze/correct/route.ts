@@ -0,0 +1,158 @@
+// app/api/analyze/correct/route.ts
+// Applies a user's corrections (dish name, ingredients and quantities, portion
+// size) to a stored analysis and recomputes its totals. The result is saved as
+// a new revision; the original is kept in food_analysis_revisions.
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readCorrectionRequest,
+  runCorrectionPipeline,
+} from "@/lib/analysis/pipeline";
+import { loadDietaryProfile } from "@/lib/analysis/profile";
+import type {
+  AnalysisCorrection,
+  AnalysisResult,
+} from "@/lib/analysis/schema";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/correct", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Analysis Provider and Service Role) ---
+    const analysisProviders = getAnalysisProviders();
+    const serviceClient = createServiceRoleClient();
+    if (analysisProviders.length === 0 || !serviceClient) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        analysisProviders.length === 0
+          ? "Server configuration error: AI analysis service is unavailable."
+          : "Server configuration error: corrections need SUPABASE_SERVICE_ROLE_KEY.",
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 1b: Per-user Burst and Daily Limits ---
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+          extra: { contains_food: false },
+        }
+      );
+    }
+
+    // --- Step 2: Get the Analysis ID and Corrections from the Request Body ---
+    let analysisId: string;
+    let correction: AnalysisCorrection;
+    try {
+      ({ analysisId, correction } = await readCorrectionRequest(request));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+
+    // --- Step 2b: Load the caller's allergens and dietary preferences ---
+    const profile = await log.time("load_profile", () =>
+      loadDietaryProfile(supabase, session.user.id, log)
+    );
+
+    // --- Steps 5-7: Recompute, Save as a New Revision ---
+    let finalResult: AnalysisResult;
+    try {
+      finalResult = await runCorrectionPipeline({
+        providers: analysisProviders,
+        supabase,
+        serviceClient,
+        userId: session.user.id,
+        analysisId,
+        correction,
+        deadline: analysisDeadline(startTime),
+        profile,
+        log,
+      });
+    } catch (pipelineError: any) {
+      if (!(pipelineError instanceof AnalysisPipelineError)) {
+        throw pipelineError;
+      }
+      return apiErrorResponse(pipelineError.code, pipelineError.message, {
+        correlationId,
+        log,
+        status: pipelineError.status,
+        validationIssues: pipelineError.validationIssues,
+        extra: { contains_food: false, dish_name: "Analysis Failed" },
+      });
+    }
+
+    log.info("Request complete", {
+      status: 200,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json(finalResult, {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze correct API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      {
+        correlationId,
+        log,
+        extra: { contains_food: false, dish_name: "Analysis Error" },
+      }
+    );
+  }
+}
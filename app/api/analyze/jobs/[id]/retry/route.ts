@@ -0,0 +1,181 @@
+// app/api/analyze/jobs/[id]/retry/route.ts
+// Runs a failed analysis job again with the same photo and options. The photo
+// is signed again when the job runs, so a retry works after the pre-signed URL
+// it was submitted with has expired. Answers like POST /api/analyze/jobs.
+import { type AnalysisJobSubmitted, JOB_ID_PATTERN } from "@/lib/analysis/jobs";
+import { getAnalysisProviders } from "@/lib/analysis/pipeline";
+import {
+  type JobWorkerMode,
+  jobWorkerModeFromEnv,
+  loadAnalysisJob,
+  requeueAnalysisJob,
+  runAnalysisJob,
+} from "@/lib/analysis/worker";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { CORRELATION_ID_HEADER } from "@/lib/api-errors/envelope";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { after, NextResponse } from "next/server";
+
+// Inline jobs run after the response, within this limit on serverless hosts
+export const maxDuration = 60;
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/jobs/[id]/retry", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Provider, Service Role, Worker) ---
+    const analysisProviders = getAnalysisProviders();
+    const serviceClient = createServiceRoleClient();
+    if (analysisProviders.length === 0 || !serviceClient) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        analysisProviders.length === 0
+          ? "Server configuration error: AI analysis service is unavailable."
+          : "Server configuration error: analysis jobs need SUPABASE_SERVICE_ROLE_KEY.",
+        { correlationId, log }
+      );
+    }
+    // Checked before anything is queued: a job no worker runs would only
+    // fail once stale
+    let workerMode: JobWorkerMode;
+    try {
+      workerMode = jobWorkerModeFromEnv();
+    } catch (configError: any) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        `Server configuration error: ${configError.message}`,
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 2: Load the Job (RLS limits it to the caller's own) ---
+    const { id } = await params;
+    const failedJob = JOB_ID_PATTERN.test(id)
+      ? await log.time("load_job", () =>
+          loadAnalysisJob(supabase, serviceClient, id)
+        )
+      : null;
+    if (!failedJob) {
+      return apiErrorResponse(
+        "ANALYSIS_NOT_FOUND",
+        "Analysis job not found.",
+        { correlationId, log }
+      );
+    }
+    if (failedJob.status !== "failed") {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        "Only a failed analysis can be retried.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 2b: Per-user Burst and Daily Limits ---
+    // A retry is counted like a new submission
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        }
+      );
+    }
+
+    // --- Step 3: Queue the Job Again ---
+    const job = await log.time("queue_job", () =>
+      requeueAnalysisJob(serviceClient, failedJob, correlationId)
+    );
+    if (!job) {
+      // Retried by another request in the meantime
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        "Only a failed analysis can be retried.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 4: Run it here once the response is sent (inline worker) ---
+    if (workerMode === "inline") {
+      after(() =>
+        runAnalysisJob({
+          providers: analysisProviders,
+          supabase,
+          serviceClient,
+          job,
+          log,
+        })
+      );
+    }
+
+    log.info("Request complete", {
+      status: 202,
+      job_id: job.id,
+      worker: workerMode,
+      duration_ms: Date.now() - startTime,
+    });
+    const body: AnalysisJobSubmitted = {
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/analyze/jobs/${job.id}`,
+    };
+    return NextResponse.json(body, {
+      status: 202,
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        [CORRELATION_ID_HEADER]: correlationId,
+        Location: body.status_url,
+      },
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze job retry API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/analyze/jobs/[id]/route.ts
+// Status of an analysis job submitted to POST /api/analyze/jobs: its stage
+// while running, then the result or the error (see lib/analysis/jobs.ts).
+import { JOB_ID_PATTERN } from "@/lib/analysis/jobs";
+import { loadAnalysisJob } from "@/lib/analysis/worker";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const correlationId = correlationIdFor(request);
+  // Polled every couple of seconds, so only failures are logged above debug
+  const log = requestLogger("GET /api/analyze/jobs/[id]", correlationId);
+  try {
+    // --- Step 0: Check Prerequisites (Service Role, to fail stale jobs) ---
+    const serviceClient = createServiceRoleClient();
+    if (!serviceClient) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        "Server configuration error: analysis jobs need SUPABASE_SERVICE_ROLE_KEY.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 2: Load the Job (RLS limits it to the caller's own) ---
+    const { id } = await params;
+    const job = JOB_ID_PATTERN.test(id)
+      ? await loadAnalysisJob(supabase, serviceClient, id)
+      : null;
+    if (!job) {
+      return apiErrorResponse(
+        "ANALYSIS_NOT_FOUND",
+        "Analysis job not found.",
+        { correlationId, log }
+      );
+    }
+    log.debug("Job status", { job_id: job.id, status: job.status });
+
+    return NextResponse.json(job, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error: any) {
+    log.error("Error in analyze job status API route", { error });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
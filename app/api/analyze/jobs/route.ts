@@ -0,0 +1,176 @@
+// app/api/analyze/jobs/route.ts
+// Asynchronous variant of /api/analyze: queues the photo analysis and answers
+// 202 with the job id straight away. Progress and the result are read from
+// GET /api/analyze/jobs/<id> (see lib/analysis/worker.ts for who runs it).
+import type { AnalysisJobSubmitted } from "@/lib/analysis/jobs";
+import {
+  getAnalysisProviders,
+  readAnalyzeRequest,
+} from "@/lib/analysis/pipeline";
+import type { AnalysisTask } from "@/lib/analysis/types";
+import {
+  createAnalysisJob,
+  type JobWorkerMode,
+  jobWorkerModeFromEnv,
+  runAnalysisJob,
+} from "@/lib/analysis/worker";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { CORRELATION_ID_HEADER } from "@/lib/api-errors/envelope";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { after, NextResponse } from "next/server";
+
+// Inline jobs run after the response, within this limit on serverless hosts
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/jobs", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Provider, Service Role, Worker) ---
+    // Job rows are written as the service role (see lib/analysis/worker.ts)
+    const analysisProviders = getAnalysisProviders();
+    const serviceClient = createServiceRoleClient();
+    if (analysisProviders.length === 0 || !serviceClient) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        analysisProviders.length === 0
+          ? "Server configuration error: AI analysis service is unavailable."
+          : "Server configuration error: analysis jobs need SUPABASE_SERVICE_ROLE_KEY.",
+        { correlationId, log }
+      );
+    }
+    // Checked before anything is queued: a job no worker runs would only
+    // fail once stale
+    let workerMode: JobWorkerMode;
+    try {
+      workerMode = jobWorkerModeFromEnv();
+    } catch (configError: any) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        `Server configuration error: ${configError.message}`,
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 1b: Per-user Burst and Daily Limits ---
+    // Counted when the job is submitted, like a synchronous analysis
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        }
+      );
+    }
+
+    // --- Step 2: Get Image URL from Request Body ---
+    let imageUrl: string;
+    let force: boolean;
+    let mode: AnalysisTask;
+    let servings: number;
+    try {
+      ({ imageUrl, force, mode, servings } = await readAnalyzeRequest(
+        request
+      ));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 3: Queue the Job ---
+    const job = await log.time("queue_job", () =>
+      createAnalysisJob(serviceClient, {
+        userId: session.user.id,
+        imageUrl,
+        force,
+        mode,
+        servings,
+        correlationId,
+      })
+    );
+
+    // --- Step 4: Run it here once the response is sent (inline worker) ---
+    if (workerMode === "inline") {
+      after(() =>
+        runAnalysisJob({
+          providers: analysisProviders,
+          supabase,
+          serviceClient,
+          job,
+          log,
+        })
+      );
+    }
+
+    log.info("Request complete", {
+      status: 202,
+      job_id: job.id,
+      worker: workerMode,
+      duration_ms: Date.now() - startTime,
+    });
+    const body: AnalysisJobSubmitted = {
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/analyze/jobs/${job.id}`,
+    };
+    return NextResponse.json(body, {
+      status: 202,
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        [CORRELATION_ID_HEADER]: correlationId,
+        Location: body.status_url,
+      },
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze jobs API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
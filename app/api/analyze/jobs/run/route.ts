@@ -0,0 +1,89 @@
+// app/api/analyze/jobs/run/route.ts
+// The external worker (ANALYSIS_JOB_WORKER=external): each call claims the
+// oldest queued analysis job and runs it. Meant for a cron or a queue
+// consumer, authenticated with `Authorization: Bearer $ANALYSIS_WORKER_SECRET`.
+import { getAnalysisProviders } from "@/lib/analysis/pipeline";
+import { claimAnalysisJob, runAnalysisJob } from "@/lib/analysis/worker";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+function isAuthorized(request: Request, secret: string): boolean {
+  const given = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/jobs/run", correlationId);
+
+  try {
+    // --- Step 0: Check Prerequisites ---
+    // Jobs belong to any user, so the worker acts as the service role
+    const secret = process.env.ANALYSIS_WORKER_SECRET;
+    const serviceClient = createServiceRoleClient();
+    const analysisProviders = getAnalysisProviders();
+    if (!secret || !serviceClient || analysisProviders.length === 0) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        "Server configuration error: the analysis worker needs ANALYSIS_WORKER_SECRET, SUPABASE_SERVICE_ROLE_KEY and an analysis provider.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    if (!isAuthorized(request, secret)) {
+      return apiErrorResponse("AUTH_REQUIRED", "Unauthorized", {
+        correlationId,
+        log,
+      });
+    }
+
+    // --- Step 2: Claim the Oldest Queued Job ---
+    const job = await log.time("claim_job", () =>
+      claimAnalysisJob(serviceClient)
+    );
+    if (!job) {
+      return NextResponse.json({ job_id: null, status: null });
+    }
+
+    // --- Step 3: Run It, Logged Under the Submitter's Correlation Id ---
+    const finished = await runAnalysisJob({
+      providers: analysisProviders,
+      supabase: serviceClient,
+      serviceClient,
+      job,
+      log: job.correlation_id
+        ? requestLogger("analysis worker", job.correlation_id)
+        : log,
+    });
+    log.info("Request complete", {
+      status: 200,
+      job_id: finished.id,
+      job_status: finished.status,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json({
+      job_id: finished.id,
+      status: finished.status,
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analysis worker API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+// app/api/analyze/leftovers/route.ts
+// Attaches a second "leftovers" photo to an existing analysis. The model
+// estimates how much of each item is left; the row is updated with each item's
+// consumed_fraction and the totals actually eaten (`consumed`).
+import { isOwnUploadKey } from "@/lib/analysis/batch";
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readLeftoversRequest,
+  runLeftoversPipeline,
+} from "@/lib/analysis/pipeline";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createS3Client } from "@/lib/s3";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/leftovers", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Analysis Provider and S3) ---
+    const analysisProviders = getAnalysisProviders();
+    const s3 = createS3Client();
+    if (analysisProviders.length === 0 || !s3) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        analysisProviders.length === 0
+          ? "Server configuration error: AI analysis service is unavailable."
+          : "Server configuration error: AWS details missing",
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 1b: Per-user Burst and Daily Limits ---
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+          extra: { contains_food: false },
+        }
+      );
+    }
+
+    // --- Step 2: Get the Analysis ID and Leftovers Upload Key from the Request Body ---
+    let analysisId: string;
+    let imageKey: string;
+    try {
+      ({ analysisId, imageKey } = await readLeftoversRequest(request));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+
+    // --- Step 2a: Only the Caller's Own Uploads are Signed and Analyzed ---
+    if (!isOwnUploadKey(imageKey, session.user.id)) {
+      return apiErrorResponse(
+        "FORBIDDEN",
+        "The leftovers photo is not one of your uploads.",
+        { correlationId, log, extra: { contains_food: false } }
+      );
+    }
+
+    // --- Steps 3-7: Fetch Photo, Estimate Leftovers, Update the Analysis ---
+    let finalResult: AnalysisResult;
+    try {
+      finalResult = await runLeftoversPipeline({
+        providers: analysisProviders,
+        supabase,
+        userId: session.user.id,
+        analysisId,
+        imageKey,
+        s3,
+        deadline: analysisDeadline(startTime),
+        log,
+      });
+    } catch (pipelineError: any) {
+      if (!(pipelineError instanceof AnalysisPipelineError)) {
+        throw pipelineError;
+      }
+      return apiErrorResponse(pipelineError.code, pipelineError.message, {
+        correlationId,
+        log,
+        status: pipelineError.status,
+        validationIssues: pipelineError.validationIssues,
+        extra: { contains_food: false, dish_name: "Analysis Failed" },
+      });
+    }
+
+    log.info("Request complete", {
+      status: 200,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json(finalResult, {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze leftovers API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      {
+        correlationId,
+        log,
+        extra: { contains_food: false, dish_name: "Analysis Error" },
+      }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+// app/api/analyze/recipe/route.ts
+// Writes a cook-at-home recipe for an analysed dish and stores it with the
+// analysis (analysis_recipes). History reads the stored recipe directly and
+// calls this to write it, or to write it again.
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readRecipeRequest,
+  runRecipePipeline,
+} from "@/lib/analysis/pipeline";
+import type { AnalysisRecipe } from "@/lib/analysis/recipe";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/recipe", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Analysis Provider Initialized) ---
+    const analysisProviders = getAnalysisProviders();
+    if (analysisProviders.length === 0) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        "Server configuration error: AI analysis service is unavailable.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 1b: Per-user Burst and Daily Limits ---
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        }
+      );
+    }
+
+    // --- Step 2: Get the Analysis ID from the Request Body ---
+    let analysisId: string;
+    try {
+      ({ analysisId } = await readRecipeRequest(request));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log }
+      );
+    }
+
+    // --- Steps 3-7: Describe the Dish, Write the Recipe, Save It ---
+    let recipe: AnalysisRecipe;
+    try {
+      recipe = await runRecipePipeline({
+        providers: analysisProviders,
+        supabase,
+        userId: session.user.id,
+        analysisId,
+        deadline: analysisDeadline(startTime),
+        log,
+      });
+    } catch (pipelineError: any) {
+      if (!(pipelineError instanceof AnalysisPipelineError)) {
+        throw pipelineError;
+      }
+      return apiErrorResponse(pipelineError.code, pipelineError.message, {
+        correlationId,
+        log,
+        status: pipelineError.status,
+        validationIssues: pipelineError.validationIssues,
+      });
+    }
+
+    log.info("Request complete", {
+      status: 200,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json(recipe, {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze recipe API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
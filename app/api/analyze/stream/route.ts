@@ -0,0 +1,189 @@
+// app/api/analyze/stream/route.ts
+// Streaming variant of /api/analyze: same pipeline, but progress is reported
+// as Server-Sent Events (see lib/analysis/events.ts for the event types).
+import {
+  type AnalysisStreamEvent,
+  encodeSseEvent,
+} from "@/lib/analysis/events";
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readAnalyzeRequest,
+  runAnalysisPipeline,
+} from "@/lib/analysis/pipeline";
+import { loadDietaryProfile } from "@/lib/analysis/profile";
+import type { AnalysisTask } from "@/lib/analysis/types";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import {
+  API_ERROR_CODES,
+  CORRELATION_ID_HEADER,
+} from "@/lib/api-errors/envelope";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/stream", correlationId);
+  log.info("Request start");
+
+  // --- Step 0: Check Prerequisites (Analysis Provider Initialized) ---
+  const analysisProviders = getAnalysisProviders();
+  if (analysisProviders.length === 0) {
+    return apiErrorResponse(
+      "SERVICE_UNAVAILABLE",
+      "Server configuration error: AI analysis service is unavailable.",
+      { correlationId, log, extra: { contains_food: false } }
+    );
+  }
+
+  // --- Step 1: Authentication ---
+  const authSpan = log.span("auth");
+  const cookieStore = cookies();
+  const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+  const {
+    data: { session },
+    error: sessionError,
+  } = await supabase.auth.getSession();
+
+  if (sessionError || !session) {
+    if (sessionError) authSpan.fail(sessionError);
+    else authSpan.end({ authenticated: false });
+    return apiErrorResponse(
+      "AUTH_REQUIRED",
+      sessionError ? "Authentication failed" : "Unauthorized",
+      { correlationId, log, extra: { contains_food: false } }
+    );
+  }
+
+  authSpan.end({ authenticated: true });
+
+  // --- Step 1b: Per-user Burst and Daily Limits ---
+  const rateLimit = await log.time("rate_limit", () =>
+    checkRateLimit(session.user.id, "analyze", log)
+  );
+  if (!rateLimit.allowed) {
+    return apiErrorResponse(
+      "QUOTA_EXCEEDED",
+      rateLimitMessage(rateLimit, "analyze"),
+      {
+        correlationId,
+        log,
+        headers: rateLimitHeaders(rateLimit),
+        retryAfterSeconds: rateLimit.retryAfterSeconds,
+        extra: { contains_food: false },
+      }
+    );
+  }
+
+  // --- Step 2: Get Image URL from Request Body ---
+  let imageUrl: string;
+  let force: boolean;
+  let mode: AnalysisTask;
+  let servings: number;
+  try {
+    ({ imageUrl, force, mode, servings } = await readAnalyzeRequest(request));
+  } catch (parseError: any) {
+    return apiErrorResponse(
+      "INVALID_REQUEST",
+      `Invalid request body: ${parseError.message}`,
+      { correlationId, log, extra: { contains_food: false } }
+    );
+  }
+
+  // --- Step 2b: Load the caller's allergens and dietary preferences ---
+  const profile = await log.time("load_profile", () =>
+    loadDietaryProfile(supabase, session.user.id, log)
+  );
+
+  // --- Steps 3-7, reported as events ---
+  const encoder = new TextEncoder();
+  // Set once the client has gone away. The pipeline still runs to the end so
+  // the analysis is saved; only its events are dropped.
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const finalResult = await runAnalysisPipeline(
+          {
+            providers: analysisProviders,
+            supabase,
+            userId: session.user.id,
+            imageUrl,
+            force,
+            mode,
+            servings,
+            deadline: analysisDeadline(startTime),
+            profile,
+            log,
+          },
+          send
+        );
+        send({ type: "complete", data: finalResult });
+        log.info("Request complete", {
+          status: 200,
+          duration_ms: Date.now() - startTime,
+        });
+      } catch (error: any) {
+        log.error("Analyze stream failed", {
+          error,
+          duration_ms: Date.now() - startTime,
+        });
+        const code =
+          error instanceof AnalysisPipelineError
+            ? error.code
+            : "INTERNAL_ERROR";
+        send({
+          type: "error",
+          data: {
+            code,
+            message: error?.message || "An unexpected server error occurred.",
+            retryable: API_ERROR_CODES[code].retryable,
+            correlation_id: correlationId,
+            validation_issues:
+              error instanceof AnalysisPipelineError
+                ? error.validationIssues
+                : undefined,
+          },
+        });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      log.info("Client disconnected; finishing the analysis without events");
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...rateLimitHeaders(rateLimit),
+      [CORRELATION_ID_HEADER]: correlationId,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
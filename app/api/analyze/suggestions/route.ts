@@ -0,0 +1,142 @@
+// app/api/analyze/suggestions/route.ts
+// Suggests two or three healthier swaps for a stored analysis, ranked by the
+// goals in the caller's dietary preferences, and saves them on the analysis
+// (`suggestions`). Shown in NutritionDisplay's "Suggestions" tab.
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  getAnalysisProviders,
+  readSuggestionsRequest,
+  runSuggestionsPipeline,
+} from "@/lib/analysis/pipeline";
+import { loadDietaryProfile } from "@/lib/analysis/profile";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+// Upper bound for the whole request on serverless hosts; the analysis time
+// budget (ANALYSIS_TIME_BUDGET_MS) is kept below it.
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/analyze/suggestions", correlationId);
+  log.info("Request start");
+
+  try {
+    // --- Step 0: Check Prerequisites (Analysis Provider Initialized) ---
+    const analysisProviders = getAnalysisProviders();
+    if (analysisProviders.length === 0) {
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        "Server configuration error: AI analysis service is unavailable.",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 1: Authentication ---
+    const authSpan = log.span("auth");
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      if (sessionError) authSpan.fail(sessionError);
+      else authSpan.end({ authenticated: false });
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+    authSpan.end({ authenticated: true });
+
+    // --- Step 1b: Per-user Burst and Daily Limits ---
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "analyze", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "analyze"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        }
+      );
+    }
+
+    // --- Step 2: Get the Analysis ID from the Request Body ---
+    let analysisId: string;
+    try {
+      ({ analysisId } = await readSuggestionsRequest(request));
+    } catch (parseError: any) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Invalid request body: ${parseError.message}`,
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 2b: Load the caller's allergens and dietary preferences ---
+    const profile = await log.time("load_profile", () =>
+      loadDietaryProfile(supabase, session.user.id, log)
+    );
+
+    // --- Steps 5-7: Propose Swaps, Rank Them by the Goals, Save Them ---
+    let finalResult: AnalysisResult;
+    try {
+      finalResult = await runSuggestionsPipeline({
+        providers: analysisProviders,
+        supabase,
+        userId: session.user.id,
+        analysisId,
+        deadline: analysisDeadline(startTime),
+        profile,
+        log,
+      });
+    } catch (pipelineError: any) {
+      if (!(pipelineError instanceof AnalysisPipelineError)) {
+        throw pipelineError;
+      }
+      return apiErrorResponse(pipelineError.code, pipelineError.message, {
+        correlationId,
+        log,
+        status: pipelineError.status,
+        validationIssues: pipelineError.validationIssues,
+      });
+    }
+
+    log.info("Request complete", {
+      status: 200,
+      duration_ms: Date.now() - startTime,
+    });
+    return NextResponse.json(finalResult, {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  } catch (error: any) {
+    log.error("FATAL UNHANDLED error in analyze suggestions API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
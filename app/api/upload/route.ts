@@ -1,4 +1,12 @@
 // app/api/upload/route.ts
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { CORRELATION_ID_HEADER } from "@/lib/api-errors/envelope";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  rateLimitHeaders,
+  rateLimitMessage,
+} from "@/lib/rate-limit";
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
 import AWS from "aws-sdk";
 import { cookies } from "next/headers";
@@ -12,11 +20,14 @@ const maxFileSizeMB = 5; // Max file size in Megabytes
 const allowedMimeTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"]; // Allowed image types
 
 export async function POST(request: Request) {
-  console.log("--- Upload API Route Start ---");
+  const startTime = Date.now();
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("POST /api/upload", correlationId);
+  log.info("Request start");
 
   try {
     // 1. Authentication
-    console.log("Step 1: Verifying authentication...");
+    const authSpan = log.span("auth");
     const cookieStore = cookies();
     const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
     const {
@@ -25,112 +36,108 @@ export async function POST(request: Request) {
     } = await supabase.auth.getSession();
 
     if (sessionError) {
-      console.error("Authentication error:", sessionError);
-      return NextResponse.json(
-        {
-          error: "Authentication failed",
-          details: sessionError.message,
-          success: false,
-        },
-        { status: 401 }
-      );
+      authSpan.fail(sessionError);
+      return apiErrorResponse("AUTH_REQUIRED", "Authentication failed", {
+        correlationId,
+        log,
+        extra: { details: sessionError.message, success: false },
+      });
     }
     if (!session) {
-      console.warn("Unauthorized access attempt - no session found.");
-      return NextResponse.json(
-        { error: "Unauthorized", success: false },
-        { status: 401 }
+      authSpan.end({ authenticated: false });
+      return apiErrorResponse("AUTH_REQUIRED", "Unauthorized", {
+        correlationId,
+        log,
+        extra: { success: false },
+      });
+    }
+    authSpan.end({ authenticated: true });
+
+    // 1b. Per-user burst and daily limits, before reading the file
+    const rateLimit = await log.time("rate_limit", () =>
+      checkRateLimit(session.user.id, "upload", log)
+    );
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(
+        "QUOTA_EXCEEDED",
+        rateLimitMessage(rateLimit, "upload"),
+        {
+          correlationId,
+          log,
+          headers: rateLimitHeaders(rateLimit),
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+          extra: { success: false },
+        }
       );
     }
-    console.log("Authentication successful. User ID:", session.user.id);
 
     // 2. Get File from Form Data
-    console.log("Step 2: Parsing form data...");
     let file: File | null;
     let formData: FormData;
     try {
-      formData = await request.formData();
+      formData = await log.time("parse_form", () => request.formData());
       file = formData.get("file") as File | null;
     } catch (e: any) {
-      console.error("Error parsing form data:", e);
-      return NextResponse.json(
-        { error: `Failed to parse form data: ${e.message}`, success: false },
-        { status: 400 }
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        `Failed to parse form data: ${e.message}`,
+        { correlationId, log, extra: { success: false } }
       );
     }
 
     if (!file) {
-      console.log("No file provided in the 'file' field of the form data.");
-      return NextResponse.json(
-        { error: "No file provided", success: false },
-        { status: 400 }
-      );
+      return apiErrorResponse("INVALID_REQUEST", "No file provided", {
+        correlationId,
+        log,
+        extra: { success: false },
+      });
     }
-    console.log(
-      `File received: Name: ${file.name}, Size: ${file.size} bytes, Type: ${file.type}`
-    );
+    // The file name is user-provided and may be personal; it isn't logged
+    log.debug("File received", { size_bytes: file.size, type: file.type });
 
     // 3. File Validation
-    console.log("Step 3: Validating file...");
     // Check file size
     const maxSizeBytes = maxFileSizeMB * 1024 * 1024;
     if (file.size > maxSizeBytes) {
-      console.log(`File too large: ${file.size} bytes > ${maxSizeBytes} bytes`);
-      return NextResponse.json(
-        { error: `File too large (max ${maxFileSizeMB}MB)`, success: false },
-        { status: 413 } // 413 Payload Too Large
+      return apiErrorResponse(
+        "FILE_TOO_LARGE",
+        `File too large (max ${maxFileSizeMB}MB)`,
+        { correlationId, log, extra: { success: false } }
       );
     }
 
     // Check file type
     if (!allowedMimeTypes.includes(file.type)) {
-      console.log(
-        `Invalid file type: ${file.type}. Allowed: ${allowedMimeTypes.join(
-          ", "
-        )}`
-      );
-      return NextResponse.json(
-        {
-          error: `Invalid file type. Only ${allowedMimeTypes.join(
-            ", "
-          )} allowed.`,
-          success: false,
-        },
-        { status: 415 } // 415 Unsupported Media Type
+      return apiErrorResponse(
+        "UNSUPPORTED_MEDIA",
+        `Invalid file type. Only ${allowedMimeTypes.join(", ")} allowed.`,
+        { correlationId, log, extra: { success: false } }
       );
     }
-    console.log("File validation successful.");
 
     // 4. Prepare for S3 Upload
-    console.log("Step 4: Preparing file for S3...");
-    // Generate a unique filename
+    // Generate a unique filename, under the uploader's id (see isOwnUploadKey)
     const fileExt = file.name.split(".").pop();
-    const fileName = `${uuidv4()}.${fileExt}`; // Unique key for S3 object
-    console.log("Generated S3 Key (filename):", fileName);
+    // Unique key for S3 object
+    const fileName = `${session.user.id}/${uuidv4()}.${fileExt}`;
 
     // Convert file to buffer
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
     // 5. Check AWS Credentials and Initialize S3 Client
-    console.log("Step 5: Initializing S3 Client...");
     const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
     const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
     const region = process.env.AWS_REGION;
 
     if (!accessKeyId || !secretAccessKey || !region) {
-      console.error(
-        "AWS credentials or region environment variables are missing!"
-      );
-      return NextResponse.json(
-        {
-          error: "Server configuration error: AWS details missing",
-          success: false,
-        },
-        { status: 500 }
+      log.error("AWS credentials or region environment variables are missing");
+      return apiErrorResponse(
+        "SERVICE_UNAVAILABLE",
+        "Server configuration error: AWS details missing",
+        { correlationId, log, extra: { success: false } }
       );
     }
-    console.log(`Using AWS Region: ${region}, Bucket: ${bucketName}`);
 
     const s3 = new AWS.S3({
       accessKeyId: accessKeyId,
@@ -140,7 +147,6 @@ export async function POST(request: Request) {
     });
 
     // 6. Upload to S3 (as Private Object)
-    console.log("Step 6: Starting S3 upload (object will be private)...");
     try {
       const uploadParams = {
         Bucket: bucketName,
@@ -149,65 +155,70 @@ export async function POST(request: Request) {
         ContentType: file.type, // Set content type for proper handling
         // ACL is NOT set, so the object uses bucket default (private)
       };
-      await s3.upload(uploadParams).promise();
-      console.log(`S3 upload successful for key: ${fileName}`);
+      await log.time(
+        "s3_upload",
+        () => s3.upload(uploadParams).promise(),
+        { bucket: bucketName, s3_key: fileName, size_bytes: file.size }
+      );
     } catch (s3UploadError: any) {
-      console.error("S3 upload failed:", s3UploadError);
-      return NextResponse.json(
-        { error: `S3 upload failed: ${s3UploadError.message}`, success: false },
-        { status: 500 }
+      return apiErrorResponse(
+        "UPLOAD_FAILED",
+        `S3 upload failed: ${s3UploadError.message}`,
+        { correlationId, log, extra: { success: false } }
       );
     }
 
     // 7. Generate Pre-signed URL for Reading the Object
-    console.log(
-      `Step 7: Generating pre-signed URL (expires in ${signedUrlExpireSeconds}s)...`
-    );
     try {
       const signedUrlParams = {
         Bucket: bucketName,
         Key: fileName,
         Expires: signedUrlExpireSeconds,
       };
-      const signedUrl = await s3.getSignedUrlPromise(
-        "getObject",
-        signedUrlParams
+      // The URL itself is a credential and is never logged
+      const signedUrl = await log.time("sign_url", () =>
+        s3.getSignedUrlPromise("getObject", signedUrlParams)
       );
-      console.log("Pre-signed URL generated successfully.");
-      // console.debug("Generated URL:", signedUrl); // Optional: Log URL for debugging
 
       // 8. Return Success Response with Pre-signed URL
-      console.log("Step 8: Returning success response with pre-signed URL.");
-      console.log("--- Upload API Route End (Success) ---");
-      return NextResponse.json({
-        url: signedUrl, // Return the temporary URL for access
-        success: true,
-        s3_key: fileName, // Optionally return the key if needed later
+      log.info("Request complete", {
+        status: 200,
+        duration_ms: Date.now() - startTime,
       });
-    } catch (signingError: any) {
-      console.error("Failed to generate pre-signed URL:", signingError);
-      // If signing fails after upload, it's an internal error.
-      // The file is uploaded but inaccessible via this method.
       return NextResponse.json(
         {
-          error: `Failed to create access URL after upload: ${signingError.message}`,
-          success: false,
+          url: signedUrl, // Return the temporary URL for access
+          success: true,
+          s3_key: fileName, // Optionally return the key if needed later
+          // Sent back as X-Correlation-Id with the analysis of this image
+          correlation_id: correlationId,
         },
-        { status: 500 }
+        {
+          headers: {
+            ...rateLimitHeaders(rateLimit),
+            [CORRELATION_ID_HEADER]: correlationId,
+          },
+        }
+      );
+    } catch (signingError: any) {
+      // If signing fails after upload, it's an internal error.
+      // The file is uploaded but inaccessible via this method.
+      return apiErrorResponse(
+        "UPLOAD_FAILED",
+        `Failed to create access URL after upload: ${signingError.message}`,
+        { correlationId, log, extra: { success: false } }
       );
     }
   } catch (error: any) {
     // Catch unexpected errors in the main flow
-    console.error("FATAL UNHANDLED error in upload API route:", error);
-    if (error.stack) console.error("Stack Trace:", error.stack);
-    console.log("--- Upload API Route End (Failure) ---");
-    return NextResponse.json(
-      {
-        error:
-          error.message || "An unexpected server error occurred during upload.",
-        success: false,
-      },
-      { status: 500 }
+    log.error("FATAL UNHANDLED error in upload API route", {
+      error,
+      duration_ms: Date.now() - startTime,
+    });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred during upload.",
+      { correlationId, log, extra: { success: false } }
     );
   }
 }
@@ -0,0 +1,96 @@
+// app/api/usage/route.ts
+// Token usage and cost by day, user and model (see lib/analysis/usage.ts).
+// GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD returns the caller's own usage;
+// scope=all returns every user's, for the ids listed in USAGE_ADMIN_USER_IDS.
+import { loadUsageDaily, sumUsage } from "@/lib/analysis/usage";
+import { apiErrorResponse, correlationIdFor } from "@/lib/api-errors";
+import { requestLogger } from "@/lib/logger";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const defaultRangeDays = 30;
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export async function GET(request: Request) {
+  const correlationId = correlationIdFor(request);
+  const log = requestLogger("GET /api/usage", correlationId);
+  try {
+    // --- Step 1: Authentication ---
+    const cookieStore = cookies();
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore });
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session) {
+      return apiErrorResponse(
+        "AUTH_REQUIRED",
+        sessionError ? "Authentication failed" : "Unauthorized",
+        { correlationId, log }
+      );
+    }
+
+    // --- Step 2: Date Range and Scope ---
+    const params = new URL(request.url).searchParams;
+    const to = params.get("to") || utcDay(new Date());
+    const from =
+      params.get("from") ||
+      utcDay(new Date(Date.now() - (defaultRangeDays - 1) * 86400000));
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+      return apiErrorResponse(
+        "INVALID_REQUEST",
+        "from and to must be YYYY-MM-DD dates, from <= to.",
+        { correlationId, log }
+      );
+    }
+    const scope = params.get("scope") === "all" ? "all" : "me";
+
+    // --- Step 3: Load the Aggregates ---
+    // Everyone's usage is only visible to the service role (RLS)
+    let client = supabase;
+    if (scope === "all") {
+      const admins = (process.env.USAGE_ADMIN_USER_IDS || "")
+        .split(",")
+        .map((id) => id.trim());
+      if (!admins.includes(session.user.id)) {
+        return apiErrorResponse("FORBIDDEN", "Forbidden", {
+          correlationId,
+          log,
+        });
+      }
+      const serviceClient = createServiceRoleClient();
+      if (!serviceClient) {
+        return apiErrorResponse(
+          "SERVICE_UNAVAILABLE",
+          "Server configuration error: SUPABASE_SERVICE_ROLE_KEY is required for scope=all.",
+          { correlationId, log }
+        );
+      }
+      client = serviceClient;
+    }
+
+    const days = await log.time(
+      "load_usage",
+      () =>
+        loadUsageDaily(client, {
+          from,
+          to,
+          userId: scope === "me" ? session.user.id : undefined,
+        }),
+      { scope }
+    );
+    return NextResponse.json({ from, to, scope, days, totals: sumUsage(days) });
+  } catch (error: any) {
+    log.error("Error in usage API route", { error });
+    return apiErrorResponse(
+      "INTERNAL_ERROR",
+      error.message || "An unexpected server error occurred.",
+      { correlationId, log }
+    );
+  }
+}
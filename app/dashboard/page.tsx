@@ -1,49 +1,95 @@
 "use client";
 
-import { ImageUploader } from "@/components/image-uploader";
+import { BatchResultsGrid } from "@/components/batch-results-grid";
+import { ClarifyingQuestions } from "@/components/clarifying-questions";
+import {
+  ImageUploader,
+  type UploadedImage,
+} from "@/components/image-uploader";
+import { LabelServingsPicker } from "@/components/label-servings-picker";
+import { LeftoversLogger } from "@/components/leftovers-logger";
 import { NutritionDisplay } from "@/components/nutrition-display";
 import { useSupabase } from "@/components/supabase-provider";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { ToastAction } from "@/components/ui/toast";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import {
+  type BatchAnalysisResponse,
+  MAX_BATCH_IMAGES,
+} from "@/lib/analysis/batch";
+import { pendingQuestions } from "@/lib/analysis/clarify";
+import { ANALYSIS_STAGES, type AnalysisStage } from "@/lib/analysis/events";
+import {
+  type AnalysisJob,
+  type AnalysisJobSubmitted,
+  isJobFinished,
+  JOB_POLL_INTERVAL_MS,
+} from "@/lib/analysis/jobs";
+import { MAX_MEAL_DESCRIPTION_LENGTH } from "@/lib/analysis/prompt";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import type { AnalysisTask } from "@/lib/analysis/types";
+import {
+  API_ERROR_CODES,
+  ApiError,
+  apiErrorAction,
+  apiErrorFromBody,
+  CORRELATION_ID_HEADER,
+  readApiError,
+  withCorrelationRef,
+} from "@/lib/api-errors/envelope";
+import { type QuotaStatus, readQuotaHeaders } from "@/lib/rate-limit/headers";
+import { CheckCircle2, Circle, Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
-
-// Define type for analysis result based on API response structure
-interface AnalysisResultType {
-  contains_food: boolean;
-  dish_name?: string;
-  cuisine?: string;
-  serving_size?: string;
-  cooking_method?: string;
-  ingredients?: { name: string; quantity: string; calories?: number }[];
-  portion_size?: string;
-  total_calories?: number;
-  macros?: {
-    protein?: number;
-    carbs?: number;
-    fiber?: number;
-    fat?: number;
-    saturated_fat?: number;
-    unsaturated_fat?: number;
-  };
-  portion_comparison?: string;
-  allergens?: string[];
-  confidence_score?: number;
-  error?: string; // Optional error from API
-}
+import { useEffect, useRef, useState } from "react";
+
+// Photo analysis job still being followed, kept across visits
+const PENDING_JOB_KEY = "pending-analysis-job";
+
+// Labels for the progress list shown while the analysis job runs
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  image_fetched: "Image fetched",
+  model_responded: "AI model responded",
+  validated: "Results validated",
+  saved: "Saved to history",
+};
 
 export default function Dashboard() {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  // Several photos uploaded at once, analyzed together via /api/analyze/batch
+  const [batchImages, setBatchImages] = useState<UploadedImage[]>([]);
+  const [batchResults, setBatchResults] =
+    useState<BatchAnalysisResponse | null>(null);
+  // Correlation id of the upload that produced imageUrl (see lib/logger)
+  const [uploadCorrelationId, setUploadCorrelationId] = useState<
+    string | null
+  >(null);
+  // Which input tab is open: a photo upload or a typed meal description
+  const [inputTab, setInputTab] = useState<"upload" | "describe">("upload");
+  const [mealDescription, setMealDescription] = useState("");
+  // "label" reads a packaged food's nutrition label instead of estimating a meal
+  const [analysisMode, setAnalysisMode] = useState<AnalysisTask>("meal");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] =
-    useState<AnalysisResultType | null>(null); // Use defined type
+    useState<AnalysisResult | null>(null); // Shared with the API route (lib/analysis/schema.ts)
+  // Progress of the photo analysis job (see lib/analysis/jobs.ts)
+  const [completedStages, setCompletedStages] = useState<AnalysisStage[]>([]);
+  const [partialResult, setPartialResult] =
+    useState<Partial<AnalysisResult> | null>(null);
+  // Low-confidence results ask clarifying questions before showing the numbers
+  const [questionsSkipped, setQuestionsSkipped] = useState(false);
+  // Daily analysis quota, as reported by the last analyze response
+  const [analysisQuota, setAnalysisQuota] = useState<QuotaStatus | null>(null);
   const { session, isLoading, supabase } = useSupabase();
   const router = useRouter();
   const { toast } = useToast();
   const [authChecked, setAuthChecked] = useState(false);
+  // Polling stops once the dashboard unmounts; only one job is followed at a time
+  const mountedRef = useRef(true);
+  const followedJobRef = useRef<string | null>(null);
 
   // --- Effects ---
   // Redirect effect
@@ -59,16 +105,28 @@ export default function Dashboard() {
     }
   }, [isLoading, session, router]);
 
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Pick up a photo analysis that was still running when the dashboard was left
+  useEffect(() => {
+    if (!session) return;
+    const jobId = localStorage.getItem(PENDING_JOB_KEY);
+    if (jobId) followAnalysisJob(jobId);
+  }, [session]);
+
   // --- Handlers ---
 
   // Handle image upload callback from ImageUploader
-  const handleImageUpload = (url: string | null, error?: Error) => {
-    if (error) {
-      console.error("Image uploader signaled an error:", error);
-      setImageUrl(null);
-      setAnalysisResult(null); // Clear results on upload error
-      return;
-    }
+  const handleImageUpload = (url: string | null, correlationId?: string) => {
+    // The analysis of this image is logged under the upload's correlation id
+    setUploadCorrelationId(correlationId ?? null);
+    setBatchImages([]);
+    setBatchResults(null);
 
     if (url) {
       console.log("Dashboard received URL from uploader:", url);
@@ -104,8 +162,82 @@ export default function Dashboard() {
     }
   };
 
-  // Analyze the uploaded image by calling the analysis API
-  const analyzeImage = async () => {
+  // Several photos from ImageUploader replace the single image
+  const handleBatchUpload = (images: UploadedImage[]) => {
+    setBatchImages(images);
+    setBatchResults(null);
+    setImageUrl(null);
+    setAnalysisResult(null);
+  };
+
+  // Maps an analysis failure to the action that can fix it (see
+  // apiErrorAction); `retry` repeats the failed request
+  const showAnalysisError = (error: any, retry: () => void) => {
+    const action = error instanceof ApiError ? apiErrorAction(error) : "retry";
+    const description =
+      error instanceof ApiError
+        ? withCorrelationRef(error)
+        : error?.message || "An unexpected error occurred.";
+    switch (action) {
+      case "sign_in":
+        toast({
+          title: "Session Expired",
+          description: "Please log in again to analyze your meals.",
+          variant: "destructive",
+          action: (
+            <ToastAction
+              altText="Log in"
+              onClick={() => router.push("/login?redirectedFrom=/dashboard")}
+            >
+              Log in
+            </ToastAction>
+          ),
+        });
+        break;
+      case "reupload":
+        // The pre-signed URL has most likely expired
+        setImageUrl(null);
+        toast({
+          title: "Image Unavailable",
+          description:
+            "The uploaded image could not be read. Please upload it again.",
+          variant: "destructive",
+        });
+        break;
+      case "wait":
+        toast({
+          title: "Analysis Limit Reached",
+          description: error.message,
+          variant: "destructive",
+        });
+        break;
+      case "retry":
+        toast({
+          title: "Error During Analysis",
+          description,
+          variant: "destructive",
+          action: (
+            <ToastAction altText="Try again" onClick={retry}>
+              Try again
+            </ToastAction>
+          ),
+        });
+        break;
+      default:
+        toast({
+          title:
+            error.code === "AI_SAFETY_BLOCK"
+              ? "Image Not Analyzed"
+              : "Error During Analysis",
+          description,
+          variant: "destructive",
+        });
+    }
+  };
+
+  // Analyze the uploaded image by calling the analysis API.
+  // `force` bypasses the server's cache of earlier analyses of the same image.
+  const analyzeImage = async (force = false) => {
     if (!imageUrl) {
       toast({
         title: "No image selected",
@@ -135,68 +267,270 @@ export default function Dashboard() {
     }
     // --- END CORRECTED CHECK ---
 
+    await submitAnalysisJob(imageUrl, force, analysisMode);
+  };
+
+  // Queues a photo analysis (POST /api/analyze/jobs) and follows it
+  const submitAnalysisJob = (
+    url: string,
+    force: boolean,
+    mode: AnalysisTask
+  ) =>
+    // Send the pre-signed URL
+    queueAnalysisJob("/api/analyze/jobs", { imageUrl: url, force, mode });
+
+  // Runs a failed job again. The server signs its photo again, since the URL
+  // the job was submitted with may have expired.
+  const retryAnalysisJob = (jobId: string) =>
+    queueAnalysisJob(`/api/analyze/jobs/${jobId}/retry`, {});
+
+  // Posts to one of the job endpoints and follows the job. The job id is kept
+  // in localStorage until the job finishes, so the analysis can be picked up
+  // again after leaving the dashboard.
+  const queueAnalysisJob = async (endpoint: string, body: object) => {
     setIsAnalyzing(true);
     setAnalysisResult(null); // Clear previous results before new analysis
+    setCompletedStages([]);
+    setPartialResult(null);
+    setQuestionsSkipped(false);
+    let jobId: string;
     try {
       if (!session) {
         throw new Error("Authentication required to analyze images.");
       }
 
-      console.log("Calling /api/analyze with (pre-signed) imageUrl:", imageUrl); // Verify it's pre-signed
-      const response = await fetch("/api/analyze", {
+      const response = await fetch(endpoint, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(uploadCorrelationId && {
+            [CORRELATION_ID_HEADER]: uploadCorrelationId,
+          }),
         },
-        body: JSON.stringify({ imageUrl }), // Send the pre-signed URL
+        body: JSON.stringify(body),
         credentials: "include", // Include cookies for auth
       });
 
-      console.log("Analyze API response status:", response.status);
-      const result: AnalysisResultType = await response.json();
-      console.log("Analyze API response data:", result);
-
+      console.log("Analyze jobs API response status:", response.status);
+      const quota = readQuotaHeaders(response.headers);
+      if (quota) setAnalysisQuota(quota);
       if (!response.ok) {
-        throw new Error(
-          result.error || `Analysis failed with status ${response.status}`
+        throw await readApiError(response);
+      }
+      const submitted: AnalysisJobSubmitted = await response.json();
+      jobId = submitted.job_id;
+      localStorage.setItem(PENDING_JOB_KEY, jobId);
+    } catch (error: any) {
+      console.error("Analysis error caught in component:", error);
+      showAnalysisError(error, () => queueAnalysisJob(endpoint, body));
+      setIsAnalyzing(false);
+      return;
+    }
+    await followAnalysisJob(jobId);
+  };
+
+  // Polls a job's status until it finishes, showing its stages as they are
+  // reached. Stops quietly when the dashboard is left; the job carries on.
+  const followAnalysisJob = async (jobId: string) => {
+    if (followedJobRef.current === jobId) return;
+    followedJobRef.current = jobId;
+    setIsAnalyzing(true);
+    let job: AnalysisJob | null = null;
+    try {
+      while (true) {
+        const response = await fetch(`/api/analyze/jobs/${jobId}`, {
+          credentials: "include",
+          cache: "no-store",
+        });
+        if (!response.ok) {
+          throw await readApiError(response);
+        }
+        job = (await response.json()) as AnalysisJob;
+        if (!mountedRef.current) return;
+        showJobProgress(job);
+        if (isJobFinished(job)) break;
+        await new Promise((resolve) =>
+          setTimeout(resolve, JOB_POLL_INTERVAL_MS)
         );
+        if (!mountedRef.current) return;
       }
 
-      setAnalysisResult(result);
+      localStorage.removeItem(PENDING_JOB_KEY);
+      if (job.status === "failed" || !job.result) {
+        throw job.error
+          ? apiErrorFromBody(job.error, API_ERROR_CODES[job.error.code].status)
+          : new Error("Analysis ended without returning a result.");
+      }
+      setAnalysisResult(job.result);
+      showResultToast(job.result);
+    } catch (error: any) {
+      console.error("Analysis error caught in component:", error);
+      // A job that no longer exists (or belongs to another account) is dropped
+      if (error instanceof ApiError && error.code === "ANALYSIS_NOT_FOUND") {
+        localStorage.removeItem(PENDING_JOB_KEY);
+      }
+      const failedJob = job;
+      showAnalysisError(
+        error,
+        failedJob && isJobFinished(failedJob)
+          ? () => retryAnalysisJob(failedJob.id)
+          : () => followAnalysisJob(jobId)
+      );
+      setAnalysisResult(null);
+    } finally {
+      followedJobRef.current = null;
+      if (mountedRef.current) setIsAnalyzing(false);
+    }
+  };
 
-      // Show appropriate toast based on result
-      if (result.contains_food === false && result.error) {
-        toast({
-          title: "Analysis Issue",
-          description: result.error,
-          variant: "destructive",
-        });
-      } else if (result.contains_food) {
+  const showJobProgress = (job: AnalysisJob) => {
+    // Resumed after navigation: the result is shown next to this image
+    setImageUrl((current) => current ?? job.image_url);
+    setCompletedStages(
+      job.stage
+        ? ANALYSIS_STAGES.slice(0, ANALYSIS_STAGES.indexOf(job.stage) + 1)
+        : []
+    );
+    setPartialResult(job.preview);
+    // Shown as soon as it is validated; saving finishes in the background
+    if (job.result) setAnalysisResult(job.result);
+  };
+
+  const showResultToast = (result: AnalysisResult) => {
+    if (result.contains_food === false && result.error) {
+      toast({
+        title: "Analysis Issue",
+        description: result.error,
+        variant: "destructive",
+      });
+    } else if (result.cached) {
+      toast({
+        title: "Loaded Previous Analysis",
+        description: `This image was already analyzed: ${
+          result.dish_name || "Food item"
+        }`,
+      });
+    } else if (result.contains_food) {
+      toast({
+        title: "Analysis Complete",
+        description: `Identified: ${result.dish_name || "Food item"}`,
+      });
+    } else {
+      toast({
+        title: "No Food Detected",
+        description: "The AI couldn't detect recognizable food in this image.",
+        variant: "default",
+      });
+    }
+  };
+
+  // Analyze every photo of a multi-file upload in one request. The batch is
+  // refused whole when it doesn't fit the quota; otherwise photos fail
+  // individually (no readable image, ...) and the grid shows which.
+  const analyzeBatch = async () => {
+    setIsAnalyzing(true);
+    setBatchResults(null);
+    try {
+      if (!session) {
+        throw new Error("Authentication required to analyze images.");
+      }
+      const response = await fetch("/api/analyze/batch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          keys: batchImages.map((image) => image.key),
+          mode: analysisMode,
+        }),
+        credentials: "include", // Include cookies for auth
+      });
+      const quota = readQuotaHeaders(response.headers);
+      if (quota) setAnalysisQuota(quota);
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+      const results: BatchAnalysisResponse = await response.json();
+      setBatchResults(results);
+      toast({
+        title: results.failed > 0 ? "Batch Partly Analyzed" : "Batch Complete",
+        description: `${results.succeeded} of ${results.items.length} photos analyzed.`,
+        variant: results.succeeded === 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      console.error("Batch analysis error caught in component:", error);
+      showAnalysisError(error, analyzeBatch);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Analyze a typed meal description (no photo) via the text endpoint
+  const analyzeDescription = async () => {
+    const description = mealDescription.trim();
+    if (!description) {
+      toast({
+        title: "No description",
+        description: "Describe what you ate to analyze it.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAnalyzing(true);
+    setAnalysisResult(null);
+    setCompletedStages([]);
+    setPartialResult(null);
+    setQuestionsSkipped(false);
+    try {
+      if (!session) {
+        throw new Error("Authentication required to analyze meals.");
+      }
+      const response = await fetch("/api/analyze/text", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ description }),
+        credentials: "include", // Include cookies for auth
+      });
+      const quota = readQuotaHeaders(response.headers);
+      if (quota) setAnalysisQuota(quota);
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+      const result = await response.json();
+      setAnalysisResult(result as AnalysisResult);
+
+      if (result.contains_food) {
         toast({
-          title: "Analysis Complete",
+          title: "Meal Logged",
           description: `Identified: ${result.dish_name || "Food item"}`,
         });
       } else {
         toast({
-          title: "No Food Detected",
-          description:
-            "The AI couldn't detect recognizable food in this image.",
+          title: "No Food Described",
+          description: "The AI couldn't find a meal in that description.",
           variant: "default",
         });
       }
     } catch (error: any) {
-      console.error("Analysis error caught in component:", error);
-      toast({
-        title: "Error During Analysis",
-        description: error.message || "An unexpected error occurred.",
-        variant: "destructive",
-      });
+      console.error("Text analysis error caught in component:", error);
+      showAnalysisError(error, analyzeDescription);
       setAnalysisResult(null);
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  // Switching back to an input tab starts a new analysis
+  const handleTabChange = (value: string) => {
+    if (isAnalyzing || (value !== "upload" && value !== "describe")) return;
+    setInputTab(value);
+    setAnalysisResult(null);
+    setBatchResults(null);
+  };
+
   // --- Render Logic ---
   // (No changes needed in the return/JSX part of the component)
   // ... (keep existing loading/auth checks and JSX structure) ...
@@ -225,26 +559,58 @@ export default function Dashboard() {
       <Tabs
         defaultValue="upload"
         className="w-full"
-        value={analysisResult ? "results" : "upload"}
+        value={
+          analysisResult || batchResults || isAnalyzing ? "results" : inputTab
+        }
+        onValueChange={handleTabChange}
       >
-        <TabsList className="grid w-full max-w-md grid-cols-2">
-          <TabsTrigger value="upload">1. Upload Image</TabsTrigger>
+        <TabsList className="grid w-full max-w-xl grid-cols-3">
+          <TabsTrigger value="upload">Upload Image</TabsTrigger>
+          <TabsTrigger value="describe">Describe your meal</TabsTrigger>
           <TabsTrigger
             value="results"
-            disabled={!analysisResult && !isAnalyzing}
+            disabled={!analysisResult && !batchResults && !isAnalyzing}
           >
-            2. View Results
+            View Results
           </TabsTrigger>
         </TabsList>
         <TabsContent value="upload" className="mt-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <Card>
               <CardContent className="pt-6">
-                <ImageUploader onUpload={handleImageUpload} />
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  className="mb-4"
+                  value={analysisMode}
+                  onValueChange={(value) => {
+                    if (value) setAnalysisMode(value as AnalysisTask);
+                  }}
+                >
+                  <ToggleGroupItem value="meal">Meal photo</ToggleGroupItem>
+                  <ToggleGroupItem value="label">
+                    Nutrition label
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                {analysisMode === "label" && (
+                  <p className="mb-4 text-sm text-center text-muted-foreground">
+                    Photograph the Nutrition Facts / FSSAI panel of the pack.
+                    You can set how many servings you ate afterwards.
+                  </p>
+                )}
+                <ImageUploader
+                  onUpload={handleImageUpload}
+                  maxFiles={MAX_BATCH_IMAGES}
+                  onUploadMany={handleBatchUpload}
+                />
                 <div className="mt-4 flex justify-center">
                   <Button
-                    onClick={analyzeImage}
-                    disabled={!imageUrl || isAnalyzing}
+                    onClick={() =>
+                      batchImages.length > 0 ? analyzeBatch() : analyzeImage()
+                    }
+                    disabled={
+                      (!imageUrl && batchImages.length === 0) || isAnalyzing
+                    }
                     className="w-full max-w-xs"
                   >
                     {isAnalyzing ? (
@@ -252,11 +618,21 @@ export default function Dashboard() {
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         Analyzing Image...
                       </>
+                    ) : batchImages.length > 0 ? (
+                      `Analyze ${batchImages.length} Photos`
+                    ) : analysisMode === "label" ? (
+                      "Read Label"
                     ) : (
                       "Analyze Food"
                     )}
                   </Button>
                 </div>
+                {analysisQuota && (
+                  <p className="mt-2 text-center text-xs text-muted-foreground">
+                    {analysisQuota.remaining} of {analysisQuota.limit} daily
+                    analyses left
+                  </p>
+                )}
                 {imageUrl && !isAnalyzing && (
                   <div className="mt-6 border rounded-md p-2 aspect-video relative overflow-hidden">
                     <img
@@ -294,15 +670,161 @@ export default function Dashboard() {
             </Card>
           </div>
         </TabsContent>
+        <TabsContent value="describe" className="mt-6">
+          <Card className="max-w-2xl">
+            <CardContent className="pt-6 space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">No photo? Describe it.</h3>
+                <p className="text-sm text-muted-foreground">
+                  Include portions where you can, e.g. "two idlis with sambar
+                  and a filter coffee".
+                </p>
+              </div>
+              <Textarea
+                value={mealDescription}
+                onChange={(e) => setMealDescription(e.target.value)}
+                placeholder="What did you eat?"
+                maxLength={MAX_MEAL_DESCRIPTION_LENGTH}
+                rows={4}
+                disabled={isAnalyzing}
+              />
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  {mealDescription.length}/{MAX_MEAL_DESCRIPTION_LENGTH}
+                  {analysisQuota &&
+                    ` · ${analysisQuota.remaining} of ${analysisQuota.limit} daily analyses left`}
+                </p>
+                <Button
+                  onClick={analyzeDescription}
+                  disabled={!mealDescription.trim() || isAnalyzing}
+                >
+                  {isAnalyzing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Analyzing...
+                    </>
+                  ) : (
+                    "Analyze Meal"
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
         <TabsContent value="results" className="mt-6">
-          {isAnalyzing && (
+          {isAnalyzing && !analysisResult && inputTab === "describe" && (
             <div className="flex flex-col items-center justify-center p-10 border rounded-md bg-muted/30">
               <Loader2 className="h-10 w-10 animate-spin text-primary mb-4" />
-              <p>Analyzing image...</p>
+              <p>Analyzing your meal description...</p>
             </div>
           )}
-          {!isAnalyzing && analysisResult && imageUrl && (
-            <NutritionDisplay data={analysisResult} imageUrl={imageUrl} />
+          {isAnalyzing && inputTab === "upload" && batchImages.length > 0 && (
+            <div className="flex flex-col items-center justify-center p-10 border rounded-md bg-muted/30">
+              <Loader2 className="h-10 w-10 animate-spin text-primary mb-4" />
+              <p>Analyzing {batchImages.length} photos...</p>
+            </div>
+          )}
+          {batchResults && !isAnalyzing && (
+            <BatchResultsGrid
+              items={batchResults.items}
+              imageUrls={Object.fromEntries(
+                batchImages.map((image) => [image.key, image.url])
+              )}
+            />
+          )}
+          {isAnalyzing &&
+            !analysisResult &&
+            inputTab === "upload" &&
+            batchImages.length === 0 && (
+              <div className="flex flex-col items-center justify-center p-10 border rounded-md bg-muted/30">
+                <Loader2 className="h-10 w-10 animate-spin text-primary mb-4" />
+                <p>
+                  {partialResult?.dish_name
+                    ? `Analyzing ${partialResult.dish_name}...`
+                    : "Analyzing image..."}
+                </p>
+                <ul className="mt-4 space-y-2 text-sm">
+                  {ANALYSIS_STAGES.map((stage) => (
+                    <li key={stage} className="flex items-center gap-2">
+                      {completedStages.includes(stage) ? (
+                        <CheckCircle2 className="h-4 w-4 text-primary" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span
+                        className={
+                          completedStages.includes(stage)
+                            ? ""
+                            : "text-muted-foreground"
+                        }
+                      >
+                        {STAGE_LABELS[stage]}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          {analysisResult && (analysisResult.source === "text" || imageUrl) && (
+            <>
+              {analysisResult.cached && !isAnalyzing && (
+                <div className="mb-4 flex items-center justify-between gap-4 rounded-md border bg-muted/30 p-3">
+                  <p className="text-sm text-muted-foreground">
+                    Showing your earlier analysis of this image.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => analyzeImage(true)}
+                  >
+                    Re-analyze
+                  </Button>
+                </div>
+              )}
+              {!questionsSkipped &&
+              pendingQuestions(analysisResult).length > 0 ? (
+                <ClarifyingQuestions
+                  key={analysisResult.analysis_id}
+                  result={analysisResult}
+                  onChange={setAnalysisResult}
+                  onSkip={() => setQuestionsSkipped(true)}
+                />
+              ) : (
+                <>
+                  {analysisResult.source === "label" &&
+                    analysisResult.contains_food && (
+                      <LabelServingsPicker
+                        key={analysisResult.analysis_id}
+                        result={analysisResult}
+                        onChange={setAnalysisResult}
+                      />
+                    )}
+                  {analysisResult.source === "text" ? (
+                    <NutritionDisplay
+                      data={analysisResult}
+                      imageUrl={null}
+                      description={mealDescription.trim()}
+                      onChange={setAnalysisResult}
+                    />
+                  ) : (
+                    <NutritionDisplay
+                      data={analysisResult}
+                      imageUrl={imageUrl}
+                      onChange={setAnalysisResult}
+                    />
+                  )}
+                  {/* Label scans record servings eaten instead */}
+                  {analysisResult.contains_food &&
+                    analysisResult.source !== "label" && (
+                      <LeftoversLogger
+                        key={analysisResult.analysis_id}
+                        result={analysisResult}
+                        onChange={setAnalysisResult}
+                      />
+                    )}
+                </>
+              )}
+            </>
           )}
           {/* ... other fallback states ... */}
         </TabsContent>
@@ -1,6 +1,9 @@
 "use client";
 
+import { AnalysisEditor } from "@/components/analysis-editor";
+import { LeftoversLogger } from "@/components/leftovers-logger";
 import { NutritionDisplay } from "@/components/nutrition-display";
+import { RecipeView } from "@/components/recipe-view";
 import { useSupabase } from "@/components/supabase-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -19,22 +22,88 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import {
+  type AnalysisJob,
+  isJobFinished,
+  isJobStale,
+  JOB_POLL_INTERVAL_MS,
+} from "@/lib/analysis/jobs";
+import { eatenTotals } from "@/lib/analysis/leftovers";
+import { itemCalories } from "@/lib/analysis/plate";
+import type { AnalysisResult, FoodItem } from "@/lib/analysis/schema";
 import { formatDate } from "@/lib/utils";
-import { Filter, Loader2, Search, Trash2 } from "lucide-react";
+import {
+  AlertCircle,
+  Filter,
+  Loader2,
+  MessageSquareText,
+  Pencil,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 
+// Prompt template, version and model that produced a stored analysis, e.g.
+// "meal-photo v4 · gemini-1.5-flash-latest". Rows saved before prompt ids were
+// recorded fall back to what analysis_result says.
+function pipelineVersion(analysis: any): string {
+  const analyzedBy = analysis.analysis_result?.analyzed_by;
+  const promptId = analysis.prompt_id ?? analyzedBy?.prompt_id;
+  const promptVersion = analysis.prompt_version ?? analyzedBy?.prompt_version;
+  const model = analysis.model_id ?? analyzedBy?.model;
+  return `${promptId ?? "prompt"} ${promptVersion ?? "unversioned"} · ${
+    model ?? "unknown model"
+  }`;
+}
+
+// Jobs shown above the history: running ones, and failures of the last day
+const JOB_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+const isJobActive = (job: AnalysisJob) =>
+  !isJobFinished(job) && !isJobStale(job);
+
+function jobStatusText(job: AnalysisJob): string {
+  if (isJobStale(job)) {
+    return "Interrupted. Analyze the photo again from the dashboard.";
+  }
+  switch (job.status) {
+    case "queued":
+      return "Waiting to be analyzed...";
+    case "running":
+      return "Analyzing...";
+    default:
+      return job.error?.message || "The analysis failed.";
+  }
+}
+
 export default function History() {
   const [analyses, setAnalyses] = useState<any[]>([]);
+  // Photo analyses submitted as jobs that haven't produced an analysis
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  // "all", or one of the pipelineVersion() labels
+  const [versionFilter, setVersionFilter] = useState("all");
   const { supabase, session } = useSupabase();
   const router = useRouter();
   const { toast } = useToast();
   const [redirectToLogin, setRedirectToLogin] = useState(false);
+  // Analysis whose details dialog is in edit mode
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!session) {
@@ -42,9 +111,24 @@ export default function History() {
     } else {
       setRedirectToLogin(false);
       fetchAnalyses();
+      fetchJobs();
     }
   }, [session]);
 
+  // Follows running jobs; each one that finishes may add an analysis
+  useEffect(() => {
+    const running = jobs.filter(isJobActive);
+    if (running.length === 0) return;
+    const timer = setTimeout(async () => {
+      const next = await fetchJobs();
+      const finished = running.some(
+        (job) => !next.some((item) => item.id === job.id && isJobActive(item))
+      );
+      if (finished) fetchAnalyses();
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [jobs]);
+
   useEffect(() => {
     if (redirectToLogin) {
       router.push("/login");
@@ -75,6 +159,39 @@ export default function History() {
     }
   };
 
+  // Succeeded jobs are listed as analyses, so only the others are loaded.
+  // Failures are logged and keep the current list.
+  const fetchJobs = async (): Promise<AnalysisJob[]> => {
+    const { data, error } = await supabase
+      .from("analysis_jobs")
+      .select("*")
+      .neq("status", "succeeded")
+      .gte("created_at", new Date(Date.now() - JOB_HISTORY_MS).toISOString())
+      .order("created_at", { ascending: false });
+    if (error) {
+      console.error("Failed to fetch analysis jobs:", error);
+      return jobs;
+    }
+    setJobs(data || []);
+    return data || [];
+  };
+
+  const dismissJob = async (id: string) => {
+    const { error } = await supabase
+      .from("analysis_jobs")
+      .delete()
+      .eq("id", id);
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to dismiss the analysis.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setJobs((current) => current.filter((job) => job.id !== id));
+  };
+
   const deleteAnalysis = async (id: string) => {
     try {
       const { error } = await supabase
@@ -102,11 +219,35 @@ export default function History() {
     }
   };
 
+  // Keeps the list in step after leftovers are logged or a correction is
+  // saved from the details dialog
+  const updateAnalysisResult = (id: string, result: AnalysisResult) => {
+    const { analysis_id, cached, ...stored } = result;
+    setAnalyses((current) =>
+      current.map((analysis) =>
+        analysis.id === id
+          ? {
+              ...analysis,
+              analysis_result: stored,
+              consumed_fraction: stored.consumed?.fraction ?? null,
+              revision: stored.revision?.number ?? analysis.revision,
+            }
+          : analysis
+      )
+    );
+  };
+
+  const pipelineVersions = [...new Set(analyses.map(pipelineVersion))].sort();
+
   const filteredAnalyses = analyses.filter((analysis) => {
+    if (versionFilter !== "all" && pipelineVersion(analysis) !== versionFilter) {
+      return false;
+    }
     const searchLower = searchTerm.toLowerCase();
     return (
       analysis.analysis_result.dish_name?.toLowerCase().includes(searchLower) ||
-      analysis.analysis_result.cuisine?.toLowerCase().includes(searchLower)
+      analysis.analysis_result.cuisine?.toLowerCase().includes(searchLower) ||
+      analysis.meal_description?.toLowerCase().includes(searchLower)
     );
   });
 
@@ -128,102 +269,262 @@ export default function History() {
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
-        <Button variant="outline" className="sm:w-auto">
-          <Filter className="mr-2 h-4 w-4" />
-          Filter
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="sm:w-auto">
+              <Filter className="mr-2 h-4 w-4" />
+              {versionFilter === "all" ? "Filter" : "Filtered"}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Pipeline version</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={versionFilter}
+              onValueChange={setVersionFilter}
+            >
+              <DropdownMenuRadioItem value="all">
+                All versions
+              </DropdownMenuRadioItem>
+              {pipelineVersions.map((version) => (
+                <DropdownMenuRadioItem key={version} value={version}>
+                  {version}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
+      {jobs.length > 0 && (
+        <ul className="mb-6 space-y-2">
+          {jobs.map((job) => (
+            <li
+              key={job.id}
+              className="flex items-center gap-3 rounded-md border bg-muted/30 p-3"
+            >
+              {isJobActive(job) ? (
+                <Loader2 className="h-5 w-5 shrink-0 animate-spin text-primary" />
+              ) : (
+                <AlertCircle className="h-5 w-5 shrink-0 text-destructive" />
+              )}
+              <div className="min-w-0 flex-grow">
+                <p className="truncate text-sm font-medium">
+                  {job.preview?.dish_name || "Photo analysis"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {jobStatusText(job)} • {formatDate(new Date(job.created_at))}
+                </p>
+              </div>
+              {!isJobActive(job) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground"
+                  onClick={() => dismissJob(job.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {loading ? (
         <div className="flex justify-center items-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
         </div>
       ) : filteredAnalyses.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredAnalyses.map((analysis) => (
-            <Card key={analysis.id} className="overflow-hidden">
-              <div className="aspect-video relative">
-                <Image
-                  src={analysis.image_url || "/placeholder.svg"}
-                  alt={analysis.analysis_result.dish_name || "Food"}
-                  fill
-                  className="object-cover"
-                />
-              </div>
-              <CardHeader className="pb-2">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle>
-                      {analysis.analysis_result.dish_name || "Unknown Food"}
-                    </CardTitle>
-                    <CardDescription>
-                      {analysis.analysis_result.cuisine || "Unknown cuisine"} •{" "}
-                      {formatDate(new Date(analysis.created_at))}
-                    </CardDescription>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                    onClick={() => deleteAnalysis(analysis.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+          {filteredAnalyses.map((analysis) => {
+            // Counts what was eaten when a leftovers photo was logged
+            const eaten = eatenTotals(analysis.analysis_result);
+            return (
+              <Card key={analysis.id} className="overflow-hidden">
+                <div className="aspect-video relative">
+                  {analysis.image_url ? (
+                    <Image
+                      src={analysis.image_url}
+                      alt={analysis.analysis_result.dish_name || "Food"}
+                      fill
+                      className="object-cover"
+                    />
+                  ) : (
+                    // Logged from a text description, no photo
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted/50 p-6 text-center">
+                      <MessageSquareText className="h-8 w-8 text-muted-foreground" />
+                      <p className="text-sm italic text-muted-foreground line-clamp-3">
+                        {analysis.meal_description || "Logged without a photo"}
+                      </p>
+                    </div>
+                  )}
                 </div>
-              </CardHeader>
-              <CardContent className="pb-2">
-                <div className="flex justify-between items-center">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Calories</p>
-                    <p className="text-xl font-bold">
-                      {analysis.analysis_result.total_calories || 0}
-                    </p>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle>
+                        {analysis.analysis_result.dish_name || "Unknown Food"}
+                      </CardTitle>
+                      <CardDescription>
+                        {analysis.analysis_result.cuisine || "Unknown cuisine"} •{" "}
+                        {formatDate(new Date(analysis.created_at))}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteAnalysis(analysis.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
-                  <div className="flex gap-2">
-                    <div className="text-center">
-                      <p className="text-xs text-muted-foreground">Protein</p>
-                      <p className="font-medium">
-                        {analysis.analysis_result.macros?.protein || 0}g
+                </CardHeader>
+                <CardContent className="pb-2">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        {eaten.fraction < 1 ? "Calories eaten" : "Calories"}
                       </p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-xs text-muted-foreground">Carbs</p>
-                      <p className="font-medium">
-                        {analysis.analysis_result.macros?.carbs || 0}g
+                      <p className="text-xl font-bold">
+                        {eaten.total_calories || 0}
                       </p>
+                      {eaten.fraction < 1 && (
+                        <p className="text-xs text-muted-foreground">
+                          of {analysis.analysis_result.total_calories || 0}{" "}
+                          served
+                        </p>
+                      )}
                     </div>
-                    <div className="text-center">
-                      <p className="text-xs text-muted-foreground">Fat</p>
-                      <p className="font-medium">
-                        {analysis.analysis_result.macros?.fat || 0}g
-                      </p>
+                    <div className="flex gap-2">
+                      <div className="text-center">
+                        <p className="text-xs text-muted-foreground">Protein</p>
+                        <p className="font-medium">
+                          {eaten.macros?.protein || 0}g
+                        </p>
+                      </div>
+                      <div className="text-center">
+                        <p className="text-xs text-muted-foreground">Carbs</p>
+                        <p className="font-medium">
+                          {eaten.macros?.carbs || 0}g
+                        </p>
+                      </div>
+                      <div className="text-center">
+                        <p className="text-xs text-muted-foreground">Fat</p>
+                        <p className="font-medium">
+                          {eaten.macros?.fat || 0}g
+                        </p>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </CardContent>
-              <CardFooter>
-                <Dialog>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" className="w-full">
-                      View Details
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-4xl">
-                    <DialogHeader>
-                      <DialogTitle>Food Analysis Details</DialogTitle>
-                      <DialogDescription>
-                        Analyzed on {formatDate(new Date(analysis.created_at))}
-                      </DialogDescription>
-                    </DialogHeader>
-                    <NutritionDisplay
-                      data={analysis.analysis_result}
-                      imageUrl={analysis.image_url}
-                    />
-                  </DialogContent>
-                </Dialog>
-              </CardFooter>
-            </Card>
-          ))}
+                  {analysis.analysis_result.items?.length > 1 && (
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {analysis.analysis_result.items.map(
+                        (item: FoodItem, index: number) => (
+                          <li key={index} className="flex justify-between">
+                            <span className="text-muted-foreground truncate">
+                              {item.name}
+                            </span>
+                            <span className="font-medium">
+                              {Math.round(itemCalories(item) ?? 0)} cal
+                            </span>
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  )}
+                </CardContent>
+                <CardFooter>
+                  <Dialog
+                    onOpenChange={(open) => {
+                      if (!open) setEditingId(null);
+                    }}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="outline" className="w-full">
+                        View Details
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Food Analysis Details</DialogTitle>
+                        <DialogDescription>
+                          Analyzed on {formatDate(new Date(analysis.created_at))}
+                          {analysis.analysis_result.revision &&
+                            ` • Corrected (revision ${analysis.analysis_result.revision.number})`}
+                          <span className="block text-xs">
+                            {pipelineVersion(analysis)}
+                            {analysis.latency_ms != null &&
+                              ` • ${(analysis.latency_ms / 1000).toFixed(1)} s`}
+                            {analysis.input_tokens != null &&
+                              ` • ${analysis.input_tokens + (analysis.output_tokens ?? 0)} tokens`}
+                          </span>
+                        </DialogDescription>
+                      </DialogHeader>
+                      {editingId === analysis.id ? (
+                        <AnalysisEditor
+                          result={{
+                            ...analysis.analysis_result,
+                            analysis_id: analysis.id,
+                          }}
+                          onSaved={(result) => {
+                            updateAnalysisResult(analysis.id, result);
+                            setEditingId(null);
+                          }}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : (
+                        <>
+                          {/* Label scans are read as printed, not corrected */}
+                          {analysis.analysis_result.source !== "label" && (
+                            <div className="flex justify-end">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingId(analysis.id)}
+                              >
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Correct analysis
+                              </Button>
+                            </div>
+                          )}
+                          <NutritionDisplay
+                            data={{
+                              ...analysis.analysis_result,
+                              analysis_id: analysis.id,
+                            }}
+                            imageUrl={analysis.image_url}
+                            description={analysis.meal_description}
+                            onChange={(result) =>
+                              updateAnalysisResult(analysis.id, result)
+                            }
+                          />
+                          {analysis.analysis_result.source !== "label" && (
+                            <LeftoversLogger
+                              result={{
+                                ...analysis.analysis_result,
+                                analysis_id: analysis.id,
+                              }}
+                              onChange={(result) =>
+                                updateAnalysisResult(analysis.id, result)
+                              }
+                            />
+                          )}
+                          <RecipeView
+                            result={{
+                              ...analysis.analysis_result,
+                              analysis_id: analysis.id,
+                            }}
+                          />
+                        </>
+                      )}
+                    </DialogContent>
+                  </Dialog>
+                </CardFooter>
+              </Card>
+            );
+          })}
         </div>
       ) : (
         <div className="text-center py-12">
@@ -231,9 +532,11 @@ export default function History() {
           <p className="text-muted-foreground mb-6">
             {searchTerm
               ? "No results match your search criteria."
+              : versionFilter !== "all"
+              ? "No analyses were made with this pipeline version."
               : "You haven't analyzed any food yet."}
           </p>
-          {!searchTerm && (
+          {!searchTerm && versionFilter === "all" && (
             <Button onClick={() => router.push("/dashboard")}>
               Analyze Your First Meal
             </Button>
@@ -10,12 +10,44 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { useToast } from "@/hooks/use-toast"
 import { Loader2 } from "lucide-react"
+import { ANALYSIS_PROMPT_IDS, type PromptTemplateId } from "@/lib/analysis/types"
+import type { UsageDailyRow } from "@/lib/analysis/usage"
+
+interface MonthlyUsage {
+  month: string // YYYY-MM
+  analyses: number
+  failed: number
+  tokens: number
+  cost: number
+}
+
+// Sums the usage_daily rows of each month, most recent first. `requests` only
+// counts successful calls; analyses are those of the meal and label prompts.
+function usageByMonth(days: UsageDailyRow[]): MonthlyUsage[] {
+  const months = new Map<string, MonthlyUsage>()
+  for (const day of days) {
+    const month = day.day.slice(0, 7)
+    const entry = months.get(month) || { month, analyses: 0, failed: 0, tokens: 0, cost: 0 }
+    if (day.prompt_id && ANALYSIS_PROMPT_IDS.includes(day.prompt_id as PromptTemplateId)) {
+      entry.analyses += day.requests
+    }
+    entry.failed += day.failed_requests
+    entry.tokens += day.total_tokens
+    entry.cost += day.cost_usd ?? 0
+    months.set(month, entry)
+  }
+  return Array.from(months.values()).sort((a, b) => b.month.localeCompare(a.month))
+}
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })
 
 export default function Profile() {
   const [profile, setProfile] = useState<any>(null)
   const [displayName, setDisplayName] = useState("")
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [usage, setUsage] = useState<MonthlyUsage[] | null>(null)
   const { supabase, session } = useSupabase()
   const router = useRouter()
   const { toast } = useToast()
@@ -33,6 +65,7 @@ export default function Profile() {
   useEffect(() => {
     if (session) {
       fetchProfile()
+      fetchUsage()
     }
   }, [session])
 
@@ -62,6 +95,23 @@ export default function Profile() {
     }
   }
 
+  // This month and the previous one; failures just leave the card empty
+  const fetchUsage = async () => {
+    try {
+      const now = new Date()
+      const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 10)
+      const response = await fetch(`/api/usage?from=${from}`)
+      if (!response.ok) {
+        throw new Error(`Usage request failed with status ${response.status}`)
+      }
+      const data = await response.json()
+      setUsage(usageByMonth(data.days || []))
+    } catch (error: any) {
+      console.error("Error fetching usage:", error)
+      setUsage([])
+    }
+  }
+
   const updateProfile = async () => {
     try {
       setSaving(true)
@@ -188,6 +238,35 @@ export default function Profile() {
               </Button>
             </CardFooter>
           </Card>
+
+          <Card className="md:col-span-3">
+            <CardHeader>
+              <CardTitle>Usage</CardTitle>
+              <CardDescription>Your analyses by month, with the model tokens they used</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {usage === null ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              ) : usage.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No analyses in the last two months.</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {usage.map((month) => (
+                    <div key={month.month} className="rounded-md border p-4 space-y-1">
+                      <p className="font-medium">{formatMonth(month.month)}</p>
+                      <p className="text-2xl font-bold">
+                        {month.analyses} {month.analyses === 1 ? "analysis" : "analyses"}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {month.tokens.toLocaleString()} tokens · est. ${month.cost.toFixed(4)}
+                        {month.failed > 0 && ` · ${month.failed} failed ${month.failed === 1 ? "attempt" : "attempts"}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       )}
     </div>
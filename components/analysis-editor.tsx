@@ -0,0 +1,273 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  AnalysisCorrection,
+  AnalysisResult,
+} from "@/lib/analysis/schema";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface AnalysisEditorProps {
+  // A saved analysis (result.analysis_id is set)
+  result: AnalysisResult;
+  onSaved: (result: AnalysisResult) => void;
+  onCancel: () => void;
+}
+
+interface EditableIngredient {
+  name: string;
+  quantity: string;
+}
+
+// One editable list of ingredients: an item of a multi-item plate, or the
+// whole dish (name and portion unused) when the analysis has no items
+interface EditableGroup {
+  name: string;
+  portion: string;
+  ingredients: EditableIngredient[];
+}
+
+const toEditable = (
+  ingredients: AnalysisResult["ingredients"] = []
+): EditableIngredient[] =>
+  ingredients.map(({ name, quantity }) => ({
+    name,
+    quantity: quantity === "N/A" ? "" : quantity,
+  }));
+
+const toCorrected = (ingredients: EditableIngredient[]) =>
+  ingredients
+    .filter((ingredient) => ingredient.name.trim())
+    .map(({ name, quantity }) => ({
+      name: name.trim(),
+      quantity: quantity.trim() || "N/A",
+    }));
+
+// Lets the user fix a misidentified dish: rename it, change the portion, and
+// add, remove or edit ingredients. Saving recomputes the totals on the server
+// and stores the result as a new revision.
+export function AnalysisEditor({
+  result,
+  onSaved,
+  onCancel,
+}: AnalysisEditorProps) {
+  const hasItems = (result.items?.length ?? 0) > 0;
+  const [dishName, setDishName] = useState(result.dish_name || "");
+  const [portionSize, setPortionSize] = useState(result.portion_size || "");
+  const [groups, setGroups] = useState<EditableGroup[]>(() =>
+    hasItems
+      ? result.items!.map((item) => ({
+          name: item.name,
+          portion: item.portion || "",
+          ingredients: toEditable(item.ingredients),
+        }))
+      : [{ name: "", portion: "", ingredients: toEditable(result.ingredients) }]
+  );
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const updateGroup = (index: number, changes: Partial<EditableGroup>) => {
+    setGroups((current) =>
+      current.map((group, i) => (i === index ? { ...group, ...changes } : group))
+    );
+  };
+
+  const updateIngredient = (
+    groupIndex: number,
+    ingredientIndex: number,
+    changes: Partial<EditableIngredient>
+  ) => {
+    updateGroup(groupIndex, {
+      ingredients: groups[groupIndex].ingredients.map((ingredient, i) =>
+        i === ingredientIndex ? { ...ingredient, ...changes } : ingredient
+      ),
+    });
+  };
+
+  const saveCorrection = async () => {
+    if (!dishName.trim()) {
+      toast({
+        title: "Dish name required",
+        description: "Please give the dish a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const correction: AnalysisCorrection = {
+      dish_name: dishName.trim(),
+      portion_size: portionSize.trim() || undefined,
+      ...(hasItems
+        ? {
+            items: groups
+              .filter((group) => group.name.trim())
+              .map((group) => ({
+                name: group.name.trim(),
+                portion: group.portion.trim() || undefined,
+                ingredients: toCorrected(group.ingredients),
+              })),
+          }
+        : { ingredients: toCorrected(groups[0].ingredients) }),
+    };
+
+    try {
+      setSaving(true);
+      const response = await fetch("/api/analyze/correct", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisId: result.analysis_id, correction }),
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Correction failed: ${response.status}`);
+      }
+
+      onSaved(data as AnalysisResult);
+      toast({
+        title: "Analysis corrected",
+        description:
+          data.revision?.method === "reference"
+            ? "Totals were recomputed from the nutrient reference table."
+            : "Totals were re-estimated by the AI using your corrections.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the correction.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="dish-name">Dish name</Label>
+          <Input
+            id="dish-name"
+            value={dishName}
+            maxLength={100}
+            onChange={(e) => setDishName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portion-size">Portion size</Label>
+          <Input
+            id="portion-size"
+            placeholder="e.g. 1 large bowl (350 g)"
+            value={portionSize}
+            maxLength={100}
+            onChange={(e) => setPortionSize(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="space-y-3 rounded-lg border p-4">
+          {hasItems && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Input
+                aria-label="Item name"
+                placeholder="Item name"
+                value={group.name}
+                maxLength={100}
+                onChange={(e) =>
+                  updateGroup(groupIndex, { name: e.target.value })
+                }
+              />
+              <Input
+                aria-label="Item portion"
+                placeholder="Portion"
+                value={group.portion}
+                maxLength={100}
+                onChange={(e) =>
+                  updateGroup(groupIndex, { portion: e.target.value })
+                }
+              />
+            </div>
+          )}
+          <p className="text-sm font-medium text-muted-foreground">
+            Ingredients
+          </p>
+          {group.ingredients.map((ingredient, ingredientIndex) => (
+            <div key={ingredientIndex} className="flex gap-2">
+              <Input
+                aria-label="Ingredient"
+                placeholder="Ingredient"
+                value={ingredient.name}
+                maxLength={100}
+                onChange={(e) =>
+                  updateIngredient(groupIndex, ingredientIndex, {
+                    name: e.target.value,
+                  })
+                }
+              />
+              <Input
+                aria-label="Quantity"
+                placeholder="Quantity, e.g. 150 g"
+                className="w-40"
+                value={ingredient.quantity}
+                maxLength={100}
+                onChange={(e) =>
+                  updateIngredient(groupIndex, ingredientIndex, {
+                    quantity: e.target.value,
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() =>
+                  updateGroup(groupIndex, {
+                    ingredients: group.ingredients.filter(
+                      (_ingredient, i) => i !== ingredientIndex
+                    ),
+                  })
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              updateGroup(groupIndex, {
+                ingredients: [
+                  ...group.ingredients,
+                  { name: "", quantity: "" },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add ingredient
+          </Button>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Totals are recomputed from a nutrient reference table when every
+        ingredient and quantity is recognised, otherwise the AI re-estimates
+        them using your corrections. The original analysis is kept.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={saveCorrection} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save correction
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { NutritionDisplay } from "@/components/nutrition-display";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { BatchAnalysisItem } from "@/lib/analysis/batch";
+import { AlertCircle } from "lucide-react";
+
+interface BatchResultsGridProps {
+  // In the order the photos were uploaded
+  items: BatchAnalysisItem[];
+  // Pre-signed URL of each uploaded photo, by S3 key
+  imageUrls: Record<string, string>;
+}
+
+// One card per photo of a batch analysis: the totals, with the full
+// breakdown in a dialog, or why that photo couldn't be analyzed
+export function BatchResultsGrid({ items, imageUrls }: BatchResultsGridProps) {
+  const succeeded = items.filter((item) => item.status === "succeeded").length;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {succeeded} of {items.length} photos analyzed. Meals with food are
+        saved to your history.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {items.map((item, index) => {
+          const imageUrl = imageUrls[item.key] ?? null;
+          return (
+            <Card key={item.key} className="overflow-hidden">
+              <div className="aspect-video relative bg-muted/50">
+                {imageUrl && (
+                  <img
+                    src={imageUrl}
+                    alt={`Photo ${index + 1}`}
+                    className="absolute inset-0 h-full w-full object-cover"
+                  />
+                )}
+              </div>
+              {item.status === "failed" ? (
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <AlertCircle className="h-4 w-4 text-destructive" />
+                    Photo {index + 1} not analyzed
+                  </CardTitle>
+                  <CardDescription>{item.error.message}</CardDescription>
+                </CardHeader>
+              ) : !item.result.contains_food ? (
+                <CardHeader>
+                  <CardTitle className="text-base">No food detected</CardTitle>
+                  <CardDescription>
+                    Photo {index + 1} doesn't seem to show a meal.
+                  </CardDescription>
+                </CardHeader>
+              ) : (
+                <>
+                  <CardHeader className="pb-2">
+                    <CardTitle>
+                      {item.result.dish_name || "Unknown Food"}
+                    </CardTitle>
+                    <CardDescription>
+                      {item.result.cuisine || "Unknown cuisine"}
+                      {item.result.cached && " • earlier analysis"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="pb-2">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Calories
+                        </p>
+                        <p className="text-xl font-bold">
+                          {item.result.total_calories || 0}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <div className="text-center">
+                          <p className="text-xs text-muted-foreground">
+                            Protein
+                          </p>
+                          <p className="font-medium">
+                            {item.result.macros?.protein || 0}g
+                          </p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-xs text-muted-foreground">Carbs</p>
+                          <p className="font-medium">
+                            {item.result.macros?.carbs || 0}g
+                          </p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-xs text-muted-foreground">Fat</p>
+                          <p className="font-medium">
+                            {item.result.macros?.fat || 0}g
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                  <CardFooter>
+                    <Dialog>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" className="w-full">
+                          View Details
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>Food Analysis Details</DialogTitle>
+                          <DialogDescription>
+                            Photo {index + 1} of {items.length}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <NutritionDisplay
+                          data={item.result}
+                          imageUrl={imageUrl}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  </CardFooter>
+                </>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
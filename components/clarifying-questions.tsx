@@ -0,0 +1,130 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { pendingQuestions } from "@/lib/analysis/clarify";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+
+interface ClarifyingQuestionsProps {
+  // A low-confidence analysis with open clarifying_questions
+  result: AnalysisResult;
+  onChange: (result: AnalysisResult) => void;
+  // Show the estimate as it is, without answering
+  onSkip: () => void;
+}
+
+// Asks the model's multiple-choice questions about an uncertain estimate
+// ("Was this fried or baked?"); the answers are sent back and the meal is
+// re-analysed with them.
+export function ClarifyingQuestions({
+  result,
+  onChange,
+  onSkip,
+}: ClarifyingQuestionsProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const questions = pendingQuestions(result);
+  if (questions.length === 0) return null;
+  const answeredCount = Object.keys(answers).length;
+
+  const submitAnswers = async () => {
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/analyze/clarify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          analysisId: result.analysis_id,
+          answers: Object.entries(answers).map(([question_id, answer]) => ({
+            question_id,
+            answer,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Update failed: ${response.status}`);
+      }
+
+      onChange(data as AnalysisResult);
+      toast({
+        title: "Analysis updated",
+        description: `Re-estimated using your ${
+          answeredCount === 1 ? "answer" : "answers"
+        }.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the analysis.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>A Few Quick Questions</CardTitle>
+        <CardDescription>
+          {result.dish_name ? `${result.dish_name}: the` : "The"} estimate is
+          uncertain
+          {typeof result.confidence_score === "number" &&
+            ` (${Math.round(result.confidence_score * 100)}% confidence)`}
+          . Your answers make it more accurate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map((question) => (
+          <div key={question.id} className="space-y-2">
+            <p className="text-sm font-medium">{question.question}</p>
+            <RadioGroup
+              value={answers[question.id] ?? ""}
+              onValueChange={(value) =>
+                setAnswers((current) => ({ ...current, [question.id]: value }))
+              }
+              disabled={submitting}
+            >
+              {question.options.map((option, index) => (
+                <div key={option} className="flex items-center gap-2">
+                  <RadioGroupItem
+                    value={option}
+                    id={`${question.id}-${index}`}
+                  />
+                  <Label htmlFor={`${question.id}-${index}`}>{option}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        ))}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onSkip} disabled={submitting}>
+            Skip
+          </Button>
+          <Button
+            onClick={submitAnswers}
+            disabled={!result.analysis_id || answeredCount === 0 || submitting}
+          >
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update Analysis
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,53 +3,95 @@
 import { useSupabase } from "@/components/supabase-provider";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import {
+  ApiError,
+  apiErrorAction,
+  readApiError,
+  withCorrelationRef,
+} from "@/lib/api-errors/envelope";
 import { formatBytes } from "@/lib/utils";
 import { Camera, Loader2, Upload, X } from "lucide-react";
 import Image from "next/image";
+import { useRouter } from "next/navigation";
 import type React from "react";
 import { useRef, useState } from "react";
 
+// One uploaded file, as returned by /api/upload
+export interface UploadedImage {
+  url: string; // pre-signed, valid for an hour
+  key: string; // S3 key, accepted by /api/analyze/batch and /leftovers
+  correlationId?: string;
+}
+
 interface ImageUploaderProps {
-  onUpload: (url: string) => void;
+  // correlationId ties the upload's server logs to the analysis that follows;
+  // key is the S3 key, for the endpoints that take one
+  onUpload: (url: string, correlationId?: string, key?: string) => void;
+  // With maxFiles above 1, selecting or dropping several images uploads them
+  // one after another and hands the uploaded ones to onUploadMany
+  maxFiles?: number;
+  onUploadMany?: (images: UploadedImage[]) => void;
+}
+
+const maxFileSizeBytes = 5 * 1024 * 1024;
+
+// Why `file` can't be uploaded, checked before sending it
+function fileProblem(
+  file: File
+): { title: string; description: string } | null {
+  if (file.size > maxFileSizeBytes) {
+    return {
+      title: "File too large",
+      description: "Please select an image under 5MB.",
+    };
+  }
+  if (!file.type.startsWith("image/")) {
+    return {
+      title: "Invalid file type",
+      description: "Please select an image file.",
+    };
+  }
+  return null;
 }
 
-export function ImageUploader({ onUpload }: ImageUploaderProps) {
+export function ImageUploader({
+  onUpload,
+  maxFiles = 1,
+  onUploadMany,
+}: ImageUploaderProps) {
   const [uploading, setUploading] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
+  // Previews of a multi-file upload
+  const [batchPreviews, setBatchPreviews] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const { session } = useSupabase();
+  const router = useRouter();
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) {
       return;
     }
 
-    const file = e.target.files[0];
-
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      toast({
-        title: "File too large",
-        description: "Please select an image under 5MB.",
-        variant: "destructive",
-      });
+    if (e.target.files.length > 1 && maxFiles > 1 && onUploadMany) {
+      await uploadBatch(Array.from(e.target.files));
       return;
     }
 
-    // Check file type
-    if (!file.type.startsWith("image/")) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select an image file.",
-        variant: "destructive",
-      });
+    const file = e.target.files[0];
+
+    // Check file size (max 5MB) and type
+    const problem = fileProblem(file);
+    if (problem) {
+      toast({ ...problem, variant: "destructive" });
       return;
     }
 
     // Create a preview
     const objectUrl = URL.createObjectURL(file);
+    setBatchPreviews([]);
     setPreview(objectUrl);
 
     // Upload to S3 via server API route
@@ -59,6 +101,44 @@ export function ImageUploader({ onUpload }: ImageUploaderProps) {
     return () => URL.revokeObjectURL(objectUrl);
   };
 
+  // Sends one file to /api/upload; throws on failure
+  const sendFile = async (file: File): Promise<UploadedImage> => {
+    // Create a FormData object to send the file
+    const formData = new FormData();
+    formData.append("file", file);
+
+    console.log("Starting upload...");
+
+    const response = await fetch("/api/upload", {
+      method: "POST",
+      body: formData,
+      credentials: "include", // Important - include credentials for auth
+    });
+
+    console.log("Upload response status:", response.status);
+
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+
+    // Check if the response is JSON
+    const contentType = response.headers.get("content-type");
+    if (!contentType || !contentType.includes("application/json")) {
+      throw new Error("Server returned an invalid response format");
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || "Upload failed");
+    }
+    return {
+      url: result.url,
+      key: result.s3_key,
+      correlationId: result.correlation_id,
+    };
+  };
+
   const uploadImage = async (file: File) => {
     try {
       setUploading(true);
@@ -74,84 +154,173 @@ export function ImageUploader({ onUpload }: ImageUploaderProps) {
         return;
       }
 
-      // Create a FormData object to send the file
-      const formData = new FormData();
-      formData.append("file", file);
+      const uploaded = await sendFile(file);
 
-      console.log("Starting upload...");
+      // Pass the URL to the parent component
+      onUpload(uploaded.url, uploaded.correlationId, uploaded.key);
 
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-        credentials: "include", // Important - include credentials for auth
+      toast({
+        title: "Upload successful",
+        description: `File size: ${formatBytes(file.size)}`,
+      });
+    } catch (error: any) {
+      console.error("Upload error:", error);
+      showUploadError(error, () => {
+        setPreview(URL.createObjectURL(file));
+        uploadImage(file);
       });
 
-      console.log("Upload response status:", response.status);
-
-      if (!response.ok) {
-        let errorMessage;
-        try {
-          // Try to parse the error response as JSON
-          const errorData = await response.json();
-          errorMessage =
-            errorData.error ||
-            `Upload failed: ${response.status} ${response.statusText}`;
-        } catch (e) {
-          // If not JSON, get as text
-          errorMessage = await response.text();
-          errorMessage = `Upload failed: ${response.status} ${
-            errorMessage || response.statusText
-          }`;
-        }
-
-        throw new Error(errorMessage);
-      }
+      // Clear the preview to allow the user to try again
+      setPreview(null);
+    } finally {
+      setUploading(false);
+    }
+  };
 
-      // Check if the response is JSON
-      const contentType = response.headers.get("content-type");
-      if (!contentType || !contentType.includes("application/json")) {
-        throw new Error("Server returned an invalid response format");
+  // Several files at once: invalid ones are skipped, the rest uploaded in
+  // turn. A failed upload doesn't stop the others, unless the session or
+  // the upload quota ran out.
+  const uploadBatch = async (selected: File[]) => {
+    if (!session || !onUploadMany) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to upload images.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (selected.length > maxFiles) {
+      toast({
+        title: "Too many images",
+        description: `Only the first ${maxFiles} images will be uploaded.`,
+      });
+    }
+    const files = selected.slice(0, maxFiles).filter((file) => {
+      const problem = fileProblem(file);
+      if (problem) {
+        toast({
+          title: problem.title,
+          description: `${file.name}: ${problem.description}`,
+          variant: "destructive",
+        });
       }
+      return !problem;
+    });
+    if (files.length === 0) return;
 
-      const result = await response.json();
-
-      if (!result.success) {
-        throw new Error(result.error || "Upload failed");
+    setPreview(null);
+    setBatchPreviews(files.map((file) => URL.createObjectURL(file)));
+    setUploading(true);
+    const uploaded: UploadedImage[] = [];
+    let lastError: any = null;
+    try {
+      for (const file of files) {
+        try {
+          uploaded.push(await sendFile(file));
+        } catch (error: any) {
+          console.error("Upload error:", error);
+          lastError = error;
+          if (error instanceof ApiError) {
+            const action = apiErrorAction(error);
+            if (action === "sign_in" || action === "wait") break;
+          }
+        }
       }
+    } finally {
+      setUploading(false);
+    }
 
-      // Pass the URL to the parent component
-      onUpload(result.url);
-
+    if (uploaded.length === 0) {
+      setBatchPreviews([]);
+      showUploadError(lastError, () => uploadBatch(files));
+      return;
+    }
+    onUploadMany(uploaded);
+    if (lastError) {
+      const failed = files.length - uploaded.length;
+      toast({
+        title: `${failed} of ${files.length} uploads failed`,
+        description:
+          lastError instanceof ApiError
+            ? withCorrelationRef(lastError)
+            : lastError?.message || "An error occurred during upload.",
+        variant: "destructive",
+      });
+    } else {
       toast({
         title: "Upload successful",
-        description: `File size: ${formatBytes(file.size)}`,
+        description: `${uploaded.length} images uploaded`,
       });
-    } catch (error: any) {
-      console.error("Upload error:", error);
+    }
+  };
+
+  // Each error code gets the action that can fix it (see apiErrorAction);
+  // errors without one (network failures) are offered `retry`
+  const showUploadError = (error: any, retry: () => void) => {
+    const retryAction = (
+      <ToastAction altText="Try again" onClick={retry}>
+        Try again
+      </ToastAction>
+    );
+    if (!(error instanceof ApiError)) {
+      toast({
+        title: "Upload failed",
+        description: error?.message || "An error occurred during upload.",
+        variant: "destructive",
+        action: retryAction,
+      });
+      return;
+    }
 
-      // Check if the error is an authentication error
-      if (
-        error.message?.includes("401") ||
-        error.message?.includes("Unauthorized")
-      ) {
+    switch (apiErrorAction(error)) {
+      case "sign_in":
         toast({
           title: "Authentication error",
           description:
             "Your session may have expired. Please try logging in again.",
           variant: "destructive",
+          action: (
+            <ToastAction
+              altText="Log in"
+              onClick={() => router.push("/login?redirectedFrom=/dashboard")}
+            >
+              Log in
+            </ToastAction>
+          ),
         });
-      } else {
+        break;
+      case "choose_file":
+        toast({
+          title:
+            error.code === "FILE_TOO_LARGE"
+              ? "File too large"
+              : "Invalid file type",
+          description: error.message,
+          variant: "destructive",
+          action: (
+            <ToastAction
+              altText="Choose another image"
+              onClick={triggerFileInput}
+            >
+              Choose another
+            </ToastAction>
+          ),
+        });
+        break;
+      case "wait":
+        toast({
+          title: "Upload limit reached",
+          description: error.message,
+          variant: "destructive",
+        });
+        break;
+      default:
         toast({
           title: "Upload failed",
-          description: error.message || "An error occurred during upload.",
+          description: withCorrelationRef(error),
           variant: "destructive",
+          action: error.retryable ? retryAction : undefined,
         });
-      }
-
-      // Clear the preview to allow the user to try again
-      setPreview(null);
-    } finally {
-      setUploading(false);
     }
   };
 
@@ -160,7 +329,12 @@ export function ImageUploader({ onUpload }: ImageUploaderProps) {
       fileInputRef.current.value = "";
     }
     setPreview(null);
-    onUpload("");
+    if (batchPreviews.length > 0) {
+      setBatchPreviews([]);
+      onUploadMany?.([]);
+    } else {
+      onUpload("");
+    }
   };
 
   const triggerFileInput = () => {
@@ -193,11 +367,39 @@ export function ImageUploader({ onUpload }: ImageUploaderProps) {
         ref={fileInputRef}
         onChange={handleFileChange}
         accept="image/*"
+        multiple={maxFiles > 1}
         className="hidden"
         disabled={uploading}
       />
 
-      {!preview ? (
+      {batchPreviews.length > 0 ? (
+        <div className="relative">
+          <div className="grid grid-cols-3 gap-2">
+            {batchPreviews.map((src, index) => (
+              <div
+                key={src}
+                className="aspect-square relative rounded-md overflow-hidden"
+              >
+                <Image
+                  src={src}
+                  alt={`Food preview ${index + 1}`}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+            ))}
+          </div>
+          <Button
+            size="icon"
+            variant="destructive"
+            className="absolute top-2 right-2"
+            onClick={clearImage}
+            disabled={uploading}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : !preview ? (
         <Card
           className="border-dashed border-2 rounded-lg flex flex-col items-center justify-center p-12 text-center cursor-pointer hover:bg-muted/50 transition-colors"
           onClick={triggerFileInput}
@@ -205,9 +407,12 @@ export function ImageUploader({ onUpload }: ImageUploaderProps) {
           onDrop={handleDrop}
         >
           <Upload className="h-10 w-10 text-muted-foreground mb-2" />
-          <p className="text-lg font-medium">Upload an image</p>
+          <p className="text-lg font-medium">
+            {maxFiles > 1 ? "Upload images" : "Upload an image"}
+          </p>
           <p className="text-sm text-muted-foreground mt-1">
             Drag and drop or click to browse
+            {maxFiles > 1 && ` (up to ${maxFiles} at once)`}
           </p>
           <p className="text-xs text-muted-foreground mt-2">
             PNG, JPG or WEBP (max 5MB)
@@ -0,0 +1,137 @@
+"use client";
+
+import { useSupabase } from "@/components/supabase-provider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { withServings } from "@/lib/analysis/label";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import { Loader2, Minus, Plus } from "lucide-react";
+import { useState } from "react";
+
+interface LabelServingsPickerProps {
+  // A label scan (result.label is set)
+  result: AnalysisResult;
+  onChange: (result: AnalysisResult) => void;
+}
+
+// Lets the user say how many servings of a scanned packaged food they ate.
+// Totals are re-scaled locally and saved back to the stored analysis.
+export function LabelServingsPicker({
+  result,
+  onChange,
+}: LabelServingsPickerProps) {
+  const [saving, setSaving] = useState(false);
+  const [savedServings, setSavedServings] = useState(
+    result.label?.servings ?? 1
+  );
+  const { supabase } = useSupabase();
+  const { toast } = useToast();
+
+  const label = result.label;
+  if (!label) return null;
+  const perContainer = label.facts.servings_per_container;
+
+  const setServings = (servings: number) => {
+    if (Number.isFinite(servings) && servings > 0) {
+      onChange(withServings(result, Math.round(servings * 100) / 100));
+    }
+  };
+
+  const saveServings = async () => {
+    if (!result.analysis_id) return;
+    try {
+      setSaving(true);
+      // Stored without the per-response fields, like the original insert
+      const { cached, analysis_id, ...stored } = result;
+      const { error } = await supabase
+        .from("food_analyses")
+        .update({ analysis_result: stored })
+        .eq("id", result.analysis_id);
+
+      if (error) {
+        throw error;
+      }
+
+      setSavedServings(label.servings);
+      toast({
+        title: "Servings saved",
+        description: `Logged ${label.servings} serving(s), ${
+          result.total_calories ?? 0
+        } kcal.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save servings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="servings-eaten">Servings eaten</Label>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setServings(label.servings - 0.5)}
+              disabled={label.servings <= 0.5}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Input
+              id="servings-eaten"
+              type="number"
+              min={0.25}
+              step={0.25}
+              className="w-24 text-center"
+              value={label.servings}
+              onChange={(e) => setServings(Number(e.target.value))}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setServings(label.servings + 0.5)}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            {perContainer && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setServings(perContainer)}
+              >
+                Whole pack ({perContainer})
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Serving size on the label:{" "}
+            {label.facts.serving_size ||
+              (label.facts.serving_size_grams
+                ? `${label.facts.serving_size_grams} g`
+                : "not printed")}
+          </p>
+        </div>
+        {result.analysis_id && (
+          <Button
+            className="sm:ml-auto"
+            onClick={saveServings}
+            disabled={saving || label.servings === savedServings}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save servings
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { ImageUploader } from "@/components/image-uploader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+
+interface LeftoversLoggerProps {
+  // A saved analysis (result.analysis_id is set)
+  result: AnalysisResult;
+  onChange: (result: AnalysisResult) => void;
+}
+
+// Second photo of the plate after the meal: the server estimates what is
+// left and records what was actually eaten on the same analysis.
+export function LeftoversLogger({ result, onChange }: LeftoversLoggerProps) {
+  const [leftoversKey, setLeftoversKey] = useState<string | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const { toast } = useToast();
+
+  if (!result.analysis_id) return null;
+
+  const estimateLeftovers = async () => {
+    if (!leftoversKey) return;
+    try {
+      setEstimating(true);
+      const response = await fetch("/api/analyze/leftovers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          analysisId: result.analysis_id,
+          imageKey: leftoversKey,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(
+          data.error || `Leftovers estimate failed: ${response.status}`
+        );
+      }
+
+      onChange(data as AnalysisResult);
+      setLeftoversKey(null);
+      toast({
+        title: "Leftovers logged",
+        description: `You ate about ${Math.round(
+          (data.consumed?.fraction ?? 1) * 100
+        )}% of the plate.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to estimate leftovers.",
+        variant: "destructive",
+      });
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>
+          {result.consumed ? "Update Leftovers" : "Didn't Finish It?"}
+        </CardTitle>
+        <CardDescription>
+          Upload a photo of what is left on the plate to log only what you
+          actually ate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ImageUploader
+          onUpload={(_url, _correlationId, key) => setLeftoversKey(key || null)}
+        />
+        <Button
+          className="w-full"
+          onClick={estimateLeftovers}
+          disabled={!leftoversKey || estimating}
+        >
+          {estimating ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Estimating...
+            </>
+          ) : (
+            "Estimate Leftovers"
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
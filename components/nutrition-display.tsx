@@ -6,48 +6,104 @@ import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { InfoIcon } from "lucide-react"
+import { SwapSuggestions } from "@/components/swap-suggestions"
+import { AlertTriangle, InfoIcon, MessageSquareText } from "lucide-react"
+import { MICRONUTRIENTS, macroCalories } from "@/lib/analysis/nutrition"
+import { itemCalories } from "@/lib/analysis/plate"
+import type { AnalysisResult } from "@/lib/analysis/schema"
 
 interface NutritionDisplayProps {
-  data: any
-  imageUrl: string
+  data: AnalysisResult
+  // Null for meals logged from a text description
+  imageUrl: string | null
+  description?: string | null
+  // Receives the analysis when something saved on it changes (e.g. new suggestions)
+  onChange?: (data: AnalysisResult) => void
 }
 
-export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
+export function NutritionDisplay({ data, imageUrl, description, onChange }: NutritionDisplayProps) {
   if (!data.contains_food) {
     return (
       <Alert>
         <InfoIcon className="h-4 w-4" />
         <AlertTitle>No food detected</AlertTitle>
         <AlertDescription>
-          No food was detected in this image. Please upload an image containing a meal or food item.
+          {imageUrl === null
+            ? "No food was found in this description. Please describe a meal or food item."
+            : "No food was detected in this image. Please upload an image containing a meal or food item."}
         </AlertDescription>
       </Alert>
     )
   }
 
-  // Calculate percentages for macros based on calories
-  // Assuming 4 calories per gram of protein and carbs, 9 calories per gram of fat
+  // Calculate percentages for macros based on calories (4/4/9 kcal per gram, see lib/analysis/nutrition.ts).
+  // The larger of the stated total and the macro-derived energy is the base, so shares never exceed 100%.
   const totalCalories = data.total_calories || 0
-  const proteinCalories = (data.macros?.protein || 0) * 4
-  const carbsCalories = (data.macros?.carbs || 0) * 4
-  const fatCalories = (data.macros?.fat || 0) * 9
+  const macroEnergy = macroCalories(data.macros)
+  const energyBase = Math.max(totalCalories, macroEnergy.total)
 
-  const proteinPercentage = totalCalories > 0 ? (proteinCalories / totalCalories) * 100 : 0
-  const carbsPercentage = totalCalories > 0 ? (carbsCalories / totalCalories) * 100 : 0
-  const fatPercentage = totalCalories > 0 ? (fatCalories / totalCalories) * 100 : 0
+  const proteinPercentage = energyBase > 0 ? (macroEnergy.protein / energyBase) * 100 : 0
+  const carbsPercentage = energyBase > 0 ? (macroEnergy.carbs / energyBase) * 100 : 0
+  const fatPercentage = energyBase > 0 ? (macroEnergy.fat / energyBase) * 100 : 0
+
+  const validationIssues = data.validation_issues || []
+  const consistency = data.consistency
+  const warnings = data.warnings || []
+  const provenance = data.nutrition_provenance
+  const items = data.items || []
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {consistency && consistency.status !== "ok" && (
+        <Alert className="md:col-span-3">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {consistency.status === "corrected" ? "Calorie total adjusted" : "Estimates don't fully agree"}
+          </AlertTitle>
+          <AlertDescription>
+            {consistency.status === "corrected" && (
+              <p>
+                The AI's total of {consistency.reported_calories ?? "no"} kcal was replaced with{" "}
+                {consistency.corrected_calories} kcal calculated from the macros and ingredients.
+              </p>
+            )}
+            <ul className="list-disc list-inside">
+              {consistency.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {validationIssues.length > 0 && (
+        <Alert className="md:col-span-3">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some values were corrected</AlertTitle>
+          <AlertDescription>
+            The AI returned {validationIssues.length} invalid value{validationIssues.length === 1 ? "" : "s"} (
+            {validationIssues.map((issue) => issue.path || "result").join(", ")}), which{" "}
+            {validationIssues.length === 1 ? "was" : "were"} left out of this analysis.
+          </AlertDescription>
+        </Alert>
+      )}
       <Card className="md:col-span-1">
         <CardHeader>
-          <CardTitle>Food Image</CardTitle>
-          <CardDescription>Analyzed food item</CardDescription>
+          <CardTitle>
+            {imageUrl === null ? "Described Meal" : data.source === "label" ? "Nutrition Label" : "Food Image"}
+          </CardTitle>
+          <CardDescription>{imageUrl === null ? "Logged without a photo" : "Analyzed food item"}</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="aspect-square relative rounded-lg overflow-hidden">
-            <Image src={imageUrl || "/placeholder.svg"} alt={data.dish_name || "Food"} fill className="object-cover" />
-          </div>
+          {imageUrl === null ? (
+            <div className="rounded-lg bg-muted/50 p-4 flex gap-3">
+              <MessageSquareText className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <p className="text-sm italic">{description || "No description saved"}</p>
+            </div>
+          ) : (
+            <div className="aspect-square relative rounded-lg overflow-hidden">
+              <Image src={imageUrl || "/placeholder.svg"} alt={data.dish_name || "Food"} fill className="object-cover" />
+            </div>
+          )}
           <div className="mt-4">
             <h3 className="text-xl font-bold">{data.dish_name || "Unknown Food"}</h3>
             {data.cuisine && (
@@ -62,6 +118,12 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
                 <p className="text-xs text-right mt-1">{Math.round(data.confidence_score * 100)}%</p>
               </div>
             )}
+            {data.clarification && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Re-estimated with your answers:{" "}
+                {data.clarification.answers.map((answer) => answer.answer).join(", ")}
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -72,17 +134,54 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
           <CardDescription>Detailed breakdown of nutrients</CardDescription>
         </CardHeader>
         <CardContent>
+          {warnings.length > 0 && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Doesn't match your dietary profile</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc list-inside">
+                  {warnings.map((warning, index) => (
+                    <li key={index}>
+                      {warning.message}
+                      {warning.item && <span className="text-xs"> ({warning.item})</span>}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
           <Tabs defaultValue="summary">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className={`grid w-full ${items.length > 0 ? "grid-cols-6" : "grid-cols-5"}`}>
               <TabsTrigger value="summary">Summary</TabsTrigger>
+              {items.length > 0 && <TabsTrigger value="items">Items ({items.length})</TabsTrigger>}
               <TabsTrigger value="macros">Macros</TabsTrigger>
+              <TabsTrigger value="micronutrients">Micronutrients</TabsTrigger>
               <TabsTrigger value="ingredients">Ingredients</TabsTrigger>
+              <TabsTrigger value="suggestions">Suggestions</TabsTrigger>
             </TabsList>
 
             <TabsContent value="summary" className="space-y-4 pt-4">
+              {data.consumed && (
+                <div className="bg-primary/10 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-muted-foreground">Actually Eaten</p>
+                  <p className="text-3xl font-bold">
+                    {data.consumed.total_calories ?? "N/A"}
+                    <span className="ml-2 text-base font-normal text-muted-foreground">
+                      kcal ({Math.round(data.consumed.fraction * 100)}% of the plate)
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Protein {data.consumed.macros.protein ?? 0}g • Carbs {data.consumed.macros.carbs ?? 0}g • Fat{" "}
+                    {data.consumed.macros.fat ?? 0}g, estimated from the leftovers photo.
+                    {data.consumed.notes && ` ${data.consumed.notes}`}
+                  </p>
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className="text-sm font-medium text-muted-foreground">Total Calories</p>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {data.consumed ? "Calories Served" : "Total Calories"}
+                  </p>
                   <p className="text-3xl font-bold">{data.total_calories || 0}</p>
                 </div>
                 <div className="bg-muted/50 p-4 rounded-lg">
@@ -100,7 +199,7 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
                 <div>
                   <h4 className="text-sm font-medium text-muted-foreground mb-2">Allergens</h4>
                   <div className="flex flex-wrap gap-2">
-                    {data.allergens.map((allergen: string, index: number) => (
+                    {data.allergens.map((allergen, index) => (
                       <Badge key={index} variant="outline">
                         {allergen}
                       </Badge>
@@ -117,6 +216,54 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
               )}
             </TabsContent>
 
+            {items.length > 0 && (
+              <TabsContent value="items" className="pt-4">
+                <div className="space-y-4">
+                  {items.map((item, index) => {
+                    const calories = itemCalories(item)
+                    return (
+                      <div key={index} className="pb-3 border-b space-y-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <p className="font-medium">{item.name}</p>
+                            {item.portion && <p className="text-sm text-muted-foreground">{item.portion}</p>}
+                            {item.consumed_fraction !== undefined && (
+                              <p className="text-xs text-muted-foreground">
+                                Ate {Math.round(item.consumed_fraction * 100)}%
+                              </p>
+                            )}
+                          </div>
+                          <p className="font-medium">{calories !== undefined ? `${Math.round(calories)} cal` : "N/A"}</p>
+                        </div>
+                        <div className="flex gap-4 text-xs text-muted-foreground">
+                          <span>Protein {item.macros?.protein ?? 0}g</span>
+                          <span>Carbs {item.macros?.carbs ?? 0}g</span>
+                          <span>Fat {item.macros?.fat ?? 0}g</span>
+                        </div>
+                        {item.ingredients && item.ingredients.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.ingredients.map((ingredient) => ingredient.name).join(", ")}
+                          </p>
+                        )}
+                        {item.allergens && item.allergens.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {item.allergens.map((allergen, allergenIndex) => (
+                              <Badge key={allergenIndex} variant="outline" className="text-xs">
+                                {allergen}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                  <p className="text-xs text-muted-foreground">
+                    Plate totals are the sum of the items above.
+                  </p>
+                </div>
+              </TabsContent>
+            )}
+
             <TabsContent value="macros" className="space-y-6 pt-4">
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
@@ -157,17 +304,71 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
               </div>
             </TabsContent>
 
+            <TabsContent value="micronutrients" className="space-y-4 pt-4">
+              {(data.contains_caffeine || data.contains_alcohol) && (
+                <div className="flex flex-wrap gap-2">
+                  {data.contains_caffeine && <Badge variant="secondary">Contains caffeine</Badge>}
+                  {data.contains_alcohol && <Badge variant="secondary">Contains alcohol</Badge>}
+                </div>
+              )}
+              <div className="space-y-2">
+                {MICRONUTRIENTS.map(({ key, label, unit, dailyValue }) => {
+                  const value = data.micronutrients?.[key]
+                  return (
+                    <div key={key} className="flex justify-between items-center pb-2 border-b">
+                      <p className="text-sm font-medium">{label}</p>
+                      {value !== undefined ? (
+                        <p className="text-sm">
+                          {value}
+                          {unit}
+                          {dailyValue && (
+                            <span className="text-muted-foreground ml-2">
+                              {Math.round((value / dailyValue) * 100)}% DV
+                            </span>
+                          )}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Not estimated</p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                % DV is based on FDA daily values for adults. Micronutrients are rough AI estimates.
+              </p>
+            </TabsContent>
+
             <TabsContent value="ingredients" className="pt-4">
               {data.ingredients && data.ingredients.length > 0 ? (
                 <div className="space-y-4">
-                  {data.ingredients.map((ingredient: any, index: number) => (
+                  {provenance && provenance.matched_ingredients > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {provenance.matched_ingredients} of {provenance.total_ingredients} ingredients were matched to
+                      the nutrient reference database; their calories and macros are calculated from it rather than
+                      estimated by the AI.
+                    </p>
+                  )}
+                  {data.ingredients.map((ingredient, index) => (
                     <div key={index} className="flex justify-between items-center pb-2 border-b">
                       <div>
                         <p className="font-medium">{ingredient.name}</p>
-                        <p className="text-sm text-muted-foreground">{ingredient.quantity}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {ingredient.quantity}
+                          {ingredient.grams !== undefined && ingredient.quantity !== `${ingredient.grams}g`
+                            ? ` (~${ingredient.grams}g)`
+                            : ""}
+                        </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-medium">{ingredient.calories} cal</p>
+                        <p className="font-medium">
+                          {ingredient.calories !== undefined ? `${ingredient.calories} cal` : "N/A"}
+                        </p>
+                        {ingredient.calories !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            {ingredient.source === "reference" ? "Reference database" : "AI estimate"}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -176,6 +377,10 @@ export function NutritionDisplay({ data, imageUrl }: NutritionDisplayProps) {
                 <p className="text-muted-foreground">No ingredient information available</p>
               )}
             </TabsContent>
+
+            <TabsContent value="suggestions" className="pt-4">
+              <SwapSuggestions key={data.analysis_id} result={data} onChange={onChange} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,304 @@
+"use client";
+
+import { useSupabase } from "@/components/supabase-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type AnalysisRecipe,
+  type CompleteRecipe,
+  formatQuantity,
+  MAX_RECIPE_SERVINGS,
+  recipeNutrition,
+  scaleRecipe,
+  supportsRecipe,
+} from "@/lib/analysis/recipe";
+import type { AnalysisResult } from "@/lib/analysis/schema";
+import {
+  ApiError,
+  readApiError,
+  withCorrelationRef,
+} from "@/lib/api-errors/envelope";
+import { ChefHat, Loader2, Minus, Plus, Printer } from "lucide-react";
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+
+interface RecipeViewProps {
+  // A saved analysis (result.analysis_id is set)
+  result: AnalysisResult;
+}
+
+// A cook-at-home recipe for an analysed dish, written on request and stored
+// with the analysis. Quantities are rescaled locally for the servings picked.
+export function RecipeView({ result }: RecipeViewProps) {
+  const [stored, setStored] = useState<AnalysisRecipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [writing, setWriting] = useState(false);
+  const [servings, setServings] = useState(1);
+  const { supabase } = useSupabase();
+  const { toast } = useToast();
+
+  const analysisId = result.analysis_id;
+  const supported = supportsRecipe(result);
+
+  useEffect(() => {
+    if (!analysisId || !supported) return;
+    let cancelled = false;
+    supabase
+      .from("analysis_recipes")
+      .select(
+        "analysis_id, recipe, analysis_revision, prompt_version, model_id, created_at"
+      )
+      .eq("analysis_id", analysisId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Failed to fetch recipe:", error);
+        if (data) {
+          setStored(data as AnalysisRecipe);
+          setServings(data.recipe.servings);
+        }
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId, supported, supabase]);
+
+  if (!analysisId || !supported) return null;
+
+  const writeRecipe = async () => {
+    try {
+      setWriting(true);
+      const response = await fetch("/api/analyze/recipe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisId }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+
+      const recipe: AnalysisRecipe = await response.json();
+      setStored(recipe);
+      setServings(recipe.recipe.servings);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof ApiError
+            ? withCorrelationRef(error)
+            : error.message || "Failed to write the recipe.",
+        variant: "destructive",
+      });
+    } finally {
+      setWriting(false);
+    }
+  };
+
+  const changeServings = (value: number) => {
+    if (Number.isFinite(value)) {
+      setServings(
+        Math.min(MAX_RECIPE_SERVINGS, Math.max(1, Math.round(value)))
+      );
+    }
+  };
+
+  const recipe = stored && scaleRecipe(stored.recipe, servings);
+  // Corrections change the dish; the recipe was written for an earlier version
+  const outdated =
+    stored !== null &&
+    stored.analysis_revision !== (result.revision?.number ?? 0);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Cook It at Home
+        </CardTitle>
+        <CardDescription>
+          {recipe
+            ? "One serving matches this analysis. Pick the servings to rescale the quantities."
+            : "Get a recipe for this dish, with the nutrition of this analysis per serving."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : recipe ? (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recipe-servings">Servings</Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => changeServings(servings - 1)}
+                    disabled={servings <= 1}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <Input
+                    id="recipe-servings"
+                    type="number"
+                    min={1}
+                    max={MAX_RECIPE_SERVINGS}
+                    step={1}
+                    className="w-20 text-center"
+                    value={servings}
+                    onChange={(e) => changeServings(Number(e.target.value))}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => changeServings(servings + 1)}
+                    disabled={servings >= MAX_RECIPE_SERVINGS}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex gap-2 sm:ml-auto">
+                <Button variant="outline" onClick={() => window.print()}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={writeRecipe}
+                  disabled={writing}
+                >
+                  {writing && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Write again
+                </Button>
+              </div>
+            </div>
+            {outdated && (
+              <p className="text-sm text-muted-foreground">
+                This recipe was written before your last correction of the
+                analysis. Write it again to match the corrected dish.
+              </p>
+            )}
+            <RecipeDetails recipe={recipe} result={result} />
+            {/* Printed instead of the page, see the print styles in globals.css */}
+            {createPortal(
+              <div className="recipe-print hidden print:block p-8">
+                <RecipeDetails recipe={recipe} result={result} />
+              </div>,
+              document.body
+            )}
+          </>
+        ) : (
+          <Button className="w-full" onClick={writeRecipe} disabled={writing}>
+            {writing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Writing recipe...
+              </>
+            ) : (
+              "Get the Recipe"
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RecipeDetailsProps {
+  // Already scaled to the servings picked
+  recipe: CompleteRecipe;
+  result: AnalysisResult;
+}
+
+function RecipeDetails({ recipe, result }: RecipeDetailsProps) {
+  const { perServing, total } = recipeNutrition(result, recipe.servings);
+  const nutritionText = ({ calories, macros }: typeof perServing) =>
+    [
+      calories !== undefined ? `${calories} kcal` : "",
+      macros.protein !== undefined ? `${macros.protein}g protein` : "",
+      macros.carbs !== undefined ? `${macros.carbs}g carbs` : "",
+      macros.fat !== undefined ? `${macros.fat}g fat` : "",
+    ]
+      .filter(Boolean)
+      .join(" • ");
+  const times = [
+    recipe.prep_minutes !== undefined
+      ? `Prep ${Math.round(recipe.prep_minutes)} min`
+      : "",
+    recipe.cook_minutes !== undefined
+      ? `Cook ${Math.round(recipe.cook_minutes)} min`
+      : "",
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">{recipe.title}</h3>
+        <p className="text-sm text-muted-foreground">
+          {recipe.servings} serving{recipe.servings === 1 ? "" : "s"}
+          {times.length > 0 && ` • ${times.join(" • ")}`}
+        </p>
+      </div>
+      <div>
+        <h4 className="font-medium mb-2">Ingredients</h4>
+        <ul className="space-y-1 text-sm">
+          {recipe.ingredients.map((ingredient, index) => (
+            <li key={index}>
+              {ingredient.quantity !== undefined && (
+                <span className="font-medium">
+                  {formatQuantity(ingredient.quantity)}
+                  {ingredient.unit && ` ${ingredient.unit}`}{" "}
+                </span>
+              )}
+              {ingredient.name}
+              {ingredient.note && (
+                <span className="text-muted-foreground">
+                  , {ingredient.note}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+      {recipe.steps.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Method</h4>
+          <ol className="list-decimal list-inside space-y-2 text-sm">
+            {recipe.steps.map((step, index) => (
+              <li key={index}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {recipe.notes && (
+        <p className="text-sm text-muted-foreground">{recipe.notes}</p>
+      )}
+      <div className="text-sm rounded-md bg-muted/50 p-3 space-y-1">
+        <p>
+          <span className="font-medium">Per serving:</span>{" "}
+          {nutritionText(perServing) || "not estimated"}
+        </p>
+        {recipe.servings > 1 && (
+          <p className="text-muted-foreground">
+            All {recipe.servings} servings: {nutritionText(total)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { AnalysisResult, SwapSuggestion } from "@/lib/analysis/schema";
+import { formatSwapDelta, SWAP_GOAL_LABELS } from "@/lib/analysis/suggestions";
+import {
+  ApiError,
+  readApiError,
+  withCorrelationRef,
+} from "@/lib/api-errors/envelope";
+import { ArrowRight, Loader2, Sparkles } from "lucide-react";
+import { useState } from "react";
+
+interface SwapSuggestionsProps {
+  result: AnalysisResult;
+  // Called with the analysis once new suggestions are saved on it
+  onChange?: (result: AnalysisResult) => void;
+}
+
+// The deltas worth showing for a swap, calories first
+function deltaBadges(delta: SwapSuggestion["delta"]): string[] {
+  return [
+    formatSwapDelta(delta.calories, "kcal"),
+    formatSwapDelta(delta.protein, "g", "protein"),
+    formatSwapDelta(delta.carbs, "g", "carbs"),
+    formatSwapDelta(delta.fat, "g", "fat"),
+    delta.fiber !== undefined && formatSwapDelta(delta.fiber, "g", "fiber"),
+  ].filter((badge): badge is string => Boolean(badge));
+}
+
+// Healthier swaps for a saved analysis, suggested on request and ranked by
+// the goals in the user's dietary preferences (see lib/analysis/suggestions.ts)
+export function SwapSuggestions({ result, onChange }: SwapSuggestionsProps) {
+  // Suggestions fetched here win over the ones the analysis came with
+  const [suggestions, setSuggestions] = useState(result.suggestions);
+  const [suggesting, setSuggesting] = useState(false);
+  const { toast } = useToast();
+
+  const suggestSwaps = async () => {
+    if (!result.analysis_id) return;
+    try {
+      setSuggesting(true);
+      const response = await fetch("/api/analyze/suggestions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisId: result.analysis_id }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+
+      const updated: AnalysisResult = await response.json();
+      setSuggestions(updated.suggestions);
+      onChange?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof ApiError
+            ? withCorrelationRef(error)
+            : error.message || "Failed to suggest swaps.",
+        variant: "destructive",
+      });
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  if (!result.analysis_id && !suggestions) {
+    return (
+      <p className="text-muted-foreground">
+        Swap suggestions are available once the analysis is saved to your
+        history.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {suggestions && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Your goals:</span>
+            {suggestions.goals.map((goal) => (
+              <Badge key={goal} variant="secondary">
+                {SWAP_GOAL_LABELS[goal]}
+              </Badge>
+            ))}
+          </div>
+          {suggestions.swaps.length > 0 ? (
+            suggestions.swaps.map((swap, index) => (
+              <div key={index} className="pb-3 border-b space-y-2">
+                <p className="font-medium flex flex-wrap items-center gap-2">
+                  {swap.item}
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  {swap.replacement}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {deltaBadges(swap.delta).map((badge) => (
+                    <Badge key={badge} variant="outline">
+                      {badge}
+                    </Badge>
+                  ))}
+                </div>
+                {swap.reason && (
+                  <p className="text-sm text-muted-foreground">{swap.reason}</p>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-muted-foreground">
+              No swap would make this meal better for your goals.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Calorie changes are calculated from the macros of each swap (4 kcal
+            per gram of protein and carbs, 9 per gram of fat). Add goals such
+            as &quot;high protein&quot; or &quot;low carb&quot; to your dietary
+            preferences in Settings.
+          </p>
+        </>
+      )}
+      {result.analysis_id && (
+        <Button
+          variant={suggestions ? "outline" : "default"}
+          className="w-full"
+          onClick={suggestSwaps}
+          disabled={suggesting}
+        >
+          {suggesting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Sparkles className="mr-2 h-4 w-4" />
+          )}
+          {suggestions ? "Suggest Again" : "Suggest Healthier Swaps"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { isOwnUploadKey, mapWithConcurrency } from "./batch";
+
+const userId = "8f14e45f-ceea-467f-a0e6-0d3c2a8b9f11";
+const photo = "3c59dc04-8e2a-4b1b-9d3f-5a1b2c3d4e5f.jpg";
+
+describe("isOwnUploadKey", () => {
+  it("accepts the caller's uploads only", () => {
+    expect(isOwnUploadKey(`${userId}/${photo}`, userId)).toBe(true);
+    expect(
+      isOwnUploadKey(`c4ca4238-a0b9-4382-8dcc-509a6f75849b/${photo}`, userId)
+    ).toBe(false);
+    expect(isOwnUploadKey(photo, userId)).toBe(false);
+    expect(isOwnUploadKey(`${userId}/../${photo}`, userId)).toBe(false);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the order and never runs more than the limit", async () => {
+    let running = 0;
+    let most = 0;
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+      most = Math.max(most, ++running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40]);
+    expect(most).toBe(2);
+  });
+});
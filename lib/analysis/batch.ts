@@ -0,0 +1,62 @@
+// lib/analysis/batch.ts
+// Several uploaded photos analyzed in one request (POST /api/analyze/batch).
+// Shared by the route and the dashboard, so it must stay free of server-only
+// imports.
+import type { ApiErrorCode } from "../api-errors/envelope";
+import type { AnalysisResult, ValidationIssue } from "./schema";
+
+// Photos per batch; the uploader accepts as many at once
+export const MAX_BATCH_IMAGES = 5;
+
+// The S3 keys returned by /api/upload ("<user id>/<uuid>.<ext>")
+export const UPLOAD_KEY_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[A-Za-z0-9]{1,5}$/i;
+
+// Whether `key` is an upload of `userId`: keys start with the uploader's id,
+// so nobody can have another user's photos signed and analyzed
+export function isOwnUploadKey(key: string, userId: string): boolean {
+  return UPLOAD_KEY_PATTERN.test(key) && key.startsWith(`${userId}/`);
+}
+
+// One photo's outcome; a failure doesn't affect the rest of the batch
+export type BatchAnalysisItem =
+  | { key: string; status: "succeeded"; result: AnalysisResult }
+  | {
+      key: string;
+      status: "failed";
+      // As in the API error envelope (lib/api-errors/envelope.ts)
+      error: {
+        code: ApiErrorCode;
+        message: string;
+        retryable: boolean;
+        validation_issues?: ValidationIssue[];
+      };
+    };
+
+// Body of a successful POST /api/analyze/batch, in the order of the keys
+export interface BatchAnalysisResponse {
+  items: BatchAnalysisItem[];
+  succeeded: number;
+  failed: number;
+}
+
+// Calls `fn` for every item, at most `limit` at a time, keeping the order of
+// `items` in the results
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  );
+  return results;
+}
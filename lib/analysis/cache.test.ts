@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { hashImageBuffer } from "./cache";
+
+describe("hashImageBuffer", () => {
+  it("keys identical bytes the same and different bytes apart", () => {
+    const photo = Buffer.from("jpeg bytes");
+    expect(hashImageBuffer(photo)).toBe(
+      hashImageBuffer(Buffer.from("jpeg bytes"))
+    );
+    expect(hashImageBuffer(photo)).not.toBe(
+      hashImageBuffer(Buffer.from("jpeg bytez"))
+    );
+    expect(hashImageBuffer(photo)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
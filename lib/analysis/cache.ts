@@ -0,0 +1,48 @@
+// lib/analysis/cache.ts
+// Reuses earlier analyses of the exact same image (same bytes, prompt version
+// and model) instead of paying for another model call and storing a duplicate row.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import { logger } from "../logger";
+import type { AnalysisResult } from "./schema";
+
+export function hashImageBuffer(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export interface AnalysisCacheKey {
+  userId: string;
+  imageHash: string;
+  promptVersion: string;
+  modelId: string;
+}
+
+export interface CachedAnalysis {
+  id: string;
+  result: AnalysisResult;
+}
+
+// Most recent matching analysis for this user, or null. Lookup failures are
+// logged and treated as a miss so the cache can never block an analysis.
+export async function findCachedAnalysis(
+  supabase: SupabaseClient<any>,
+  { userId, imageHash, promptVersion, modelId }: AnalysisCacheKey
+): Promise<CachedAnalysis | null> {
+  const { data, error } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result")
+    .eq("user_id", userId)
+    .eq("image_hash", imageHash)
+    .eq("prompt_version", promptVersion)
+    .eq("model_id", modelId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Analysis cache lookup failed", { error });
+    return null;
+  }
+  if (!data) return null;
+  return { id: data.id, result: data.analysis_result as AnalysisResult };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchAnswers,
+  MAX_CLARIFYING_QUESTIONS,
+  pendingQuestions,
+  selectClarifyingQuestions,
+} from "./clarify";
+import type { AnalysisResult, ClarifyingQuestion } from "./schema";
+
+const cooking: ClarifyingQuestion = {
+  id: "cooking",
+  question: "Was this fried or baked?",
+  options: ["Fried", "Baked"],
+};
+
+const unsure = (
+  questions: ClarifyingQuestion[],
+  confidence = 0.4
+): AnalysisResult => ({
+  contains_food: true,
+  dish_name: "Samosa",
+  confidence_score: confidence,
+  clarifying_questions: questions,
+});
+
+describe("selectClarifyingQuestions", () => {
+  it("only asks below the confidence threshold", () => {
+    expect(selectClarifyingQuestions(unsure([cooking]), 0.6)).toEqual([
+      cooking,
+    ]);
+    expect(
+      selectClarifyingQuestions(unsure([cooking], 0.6), 0.6)
+    ).toBeUndefined();
+    expect(
+      selectClarifyingQuestions({ contains_food: true }, 0.6)
+    ).toBeUndefined();
+    expect(
+      selectClarifyingQuestions(
+        { ...unsure([cooking]), contains_food: false },
+        0.6
+      )
+    ).toBeUndefined();
+  });
+
+  it("drops questions without two distinct options and trims long ones", () => {
+    const questions = selectClarifyingQuestions(
+      unsure([
+        { id: "oil", question: "Any oil?", options: ["Yes", "Yes", ""] },
+        {
+          id: "filling",
+          question: "What was the filling?",
+          options: ["Potato", "Peas", "Paneer", "Chicken", "Lamb"],
+        },
+      ]),
+      0.6
+    );
+    expect(questions).toEqual([
+      {
+        id: "filling",
+        question: "What was the filling?",
+        options: ["Potato", "Peas", "Paneer", "Chicken"],
+      },
+    ]);
+  });
+
+  it("makes ids unique and caps the number of questions", () => {
+    const questions = selectClarifyingQuestions(
+      unsure([
+        cooking,
+        { ...cooking, question: "Deep fried or pan fried?" },
+        { ...cooking, id: "" },
+        { ...cooking, id: "size" },
+        { ...cooking, id: "sauce" },
+      ]),
+      0.6
+    );
+    expect(questions?.map((question) => question.id)).toEqual([
+      "cooking",
+      "cooking-2",
+      "q3",
+    ]);
+    expect(questions).toHaveLength(MAX_CLARIFYING_QUESTIONS);
+  });
+
+  it("returns undefined when no question is usable", () => {
+    expect(
+      selectClarifyingQuestions(
+        unsure([{ id: "x", question: "?", options: ["Only"] }]),
+        0.6
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe("pendingQuestions", () => {
+  it("returns the questions until they are answered", () => {
+    const result = unsure([cooking]);
+    expect(pendingQuestions(result)).toEqual([cooking]);
+    expect(
+      pendingQuestions({
+        ...result,
+        clarification: {
+          answers: [
+            {
+              question_id: "cooking",
+              question: cooking.question,
+              answer: "Baked",
+            },
+          ],
+          clarified_at: "2026-10-18T12:00:00.000Z",
+        },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("matchAnswers", () => {
+  it("pairs answers with their questions", () => {
+    expect(
+      matchAnswers([cooking], [{ question_id: "cooking", answer: "Baked" }])
+    ).toEqual([
+      {
+        question_id: "cooking",
+        question: "Was this fried or baked?",
+        answer: "Baked",
+      },
+    ]);
+  });
+
+  it("rejects unknown questions, repeated answers and other options", () => {
+    expect(() =>
+      matchAnswers([cooking], [{ question_id: "size", answer: "Large" }])
+    ).toThrow('Unknown question "size".');
+    expect(() =>
+      matchAnswers(
+        [cooking],
+        [
+          { question_id: "cooking", answer: "Baked" },
+          { question_id: "cooking", answer: "Fried" },
+        ]
+      )
+    ).toThrow('Question "cooking" was answered twice.');
+    expect(() =>
+      matchAnswers([cooking], [{ question_id: "cooking", answer: "Grilled" }])
+    ).toThrow('"Grilled" is not one of the options');
+  });
+});
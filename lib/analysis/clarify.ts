@@ -0,0 +1,76 @@
+// lib/analysis/clarify.ts
+// Clarifying questions for low-confidence analyses: which of the model's
+// questions are shown, and matching the user's answers back to them. Safe to
+// import on the client, where the dashboard reads pendingQuestions().
+import type {
+  AnalysisResult,
+  ClarificationAnswer,
+  ClarifyingQuestion,
+} from "./schema";
+
+export const MAX_CLARIFYING_QUESTIONS = 3;
+const MAX_OPTIONS = 4;
+
+// Questions are only asked below this confidence_score
+export const DEFAULT_CLARIFY_BELOW_CONFIDENCE = 0.6;
+
+// The model's questions, cleaned up, or undefined when the estimate is
+// confident enough to stand on its own
+export function selectClarifyingQuestions(
+  result: AnalysisResult,
+  belowConfidence: number
+): ClarifyingQuestion[] | undefined {
+  if (
+    !result.contains_food ||
+    (result.confidence_score ?? 1) >= belowConfidence
+  ) {
+    return undefined;
+  }
+  const seen = new Set<string>();
+  const questions: ClarifyingQuestion[] = [];
+  for (const question of result.clarifying_questions || []) {
+    const options = [...new Set(question.options.filter(Boolean))].slice(
+      0,
+      MAX_OPTIONS
+    );
+    if (options.length < 2) continue;
+    // Answers refer to questions by id, so ids must be unique
+    let id = question.id || `q${questions.length + 1}`;
+    if (seen.has(id)) id = `${id}-${questions.length + 1}`;
+    seen.add(id);
+    questions.push({ id, question: question.question, options });
+    if (questions.length === MAX_CLARIFYING_QUESTIONS) break;
+  }
+  return questions.length ? questions : undefined;
+}
+
+// Questions still waiting for an answer
+export function pendingQuestions(result: AnalysisResult): ClarifyingQuestion[] {
+  if (result.clarification) return [];
+  return result.clarifying_questions || [];
+}
+
+// Pairs each answer with its question. Throws when an answer refers to an
+// unknown or already answered question, or isn't one of its options.
+export function matchAnswers(
+  questions: ClarifyingQuestion[],
+  answers: ClarificationAnswer[]
+): { question_id: string; question: string; answer: string }[] {
+  const answered = new Set<string>();
+  return answers.map(({ question_id, answer }) => {
+    const question = questions.find((q) => q.id === question_id);
+    if (!question) {
+      throw new Error(`Unknown question "${question_id}".`);
+    }
+    if (answered.has(question_id)) {
+      throw new Error(`Question "${question_id}" was answered twice.`);
+    }
+    answered.add(question_id);
+    if (!question.options.includes(answer)) {
+      throw new Error(
+        `"${answer}" is not one of the options for "${question.question}".`
+      );
+    }
+    return { question_id, question: question.question, answer };
+  });
+}
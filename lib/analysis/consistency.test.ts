@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkNutritionConsistency,
+  DEFAULT_CONSISTENCY_OPTIONS,
+} from "./consistency";
+import type { AnalysisResult } from "./schema";
+
+// 25g protein, 50g carbs and 20g fat: 100 + 200 + 180 = 480 kcal
+const MACROS = { protein: 25, carbs: 50, fat: 20 };
+
+const meal = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  contains_food: true,
+  dish_name: "Chicken rice bowl",
+  total_calories: 500,
+  macros: MACROS,
+  ingredients: [
+    { name: "Rice", quantity: "200g", calories: 260 },
+    { name: "Chicken", quantity: "120g", calories: 230 },
+  ],
+  ...overrides,
+});
+
+describe("checkNutritionConsistency", () => {
+  it("reports ok when the total agrees with macros and ingredients", () => {
+    const result = checkNutritionConsistency(meal());
+    expect(result.total_calories).toBe(500);
+    expect(result.consistency).toEqual({
+      status: "ok",
+      reported_calories: 500,
+      macro_calories: 480,
+      ingredient_calories: 490,
+      macro_deviation: 0.04,
+      ingredient_deviation: 0.02,
+      warnings: [],
+    });
+  });
+
+  it("warns without correcting between the tolerance and the threshold", () => {
+    const result = checkNutritionConsistency(meal({ total_calories: 600 }));
+    expect(result.total_calories).toBe(600);
+    expect(result.consistency?.status).toBe("warning");
+    expect(result.consistency?.macro_deviation).toBe(0.2);
+    expect(result.consistency?.warnings).toEqual([
+      "Macros add up to about 480 kcal, but the total is 600 kcal.",
+      "Ingredient calories add up to 490 kcal, but the total is 600 kcal.",
+    ]);
+  });
+
+  it("replaces a clearly-off total with the macro energy", () => {
+    const result = checkNutritionConsistency(meal({ total_calories: 900 }));
+    expect(result.total_calories).toBe(480);
+    expect(result.consistency).toMatchObject({
+      status: "corrected",
+      reported_calories: 900,
+      corrected_calories: 480,
+    });
+  });
+
+  it("falls back to the ingredient sum when there are no macros", () => {
+    const result = checkNutritionConsistency(
+      meal({ total_calories: 900, macros: undefined })
+    );
+    expect(result.total_calories).toBe(490);
+    expect(result.consistency?.macro_calories).toBeUndefined();
+    expect(result.consistency?.ingredient_deviation).toBe(0.456);
+    expect(result.consistency?.status).toBe("corrected");
+  });
+
+  it("only warns when auto-correction is off", () => {
+    const result = checkNutritionConsistency(meal({ total_calories: 900 }), {
+      ...DEFAULT_CONSISTENCY_OPTIONS,
+      autoCorrect: false,
+    });
+    expect(result.total_calories).toBe(900);
+    expect(result.consistency?.status).toBe("warning");
+    expect(result.consistency?.corrected_calories).toBeUndefined();
+  });
+
+  it("fills in a missing total from the macros", () => {
+    const result = checkNutritionConsistency(
+      meal({ total_calories: undefined })
+    );
+    expect(result.total_calories).toBe(480);
+    expect(result.consistency?.status).toBe("corrected");
+    expect(result.consistency?.warnings).toEqual([
+      "No total calorie estimate was returned.",
+    ]);
+    expect(result.consistency?.macro_deviation).toBeUndefined();
+  });
+
+  it("leaves a missing total alone with nothing to derive it from", () => {
+    const result = checkNutritionConsistency(
+      meal({ total_calories: 0, macros: undefined, ingredients: [] })
+    );
+    expect(result.total_calories).toBe(0);
+    expect(result.consistency?.status).toBe("ok");
+    expect(result.consistency?.warnings).toEqual([]);
+  });
+
+  it("treats deviations exactly at the limits as within them", () => {
+    // 25g carbs and 40g fat: 100 + 360 = 460 kcal, 15% over 400
+    const atTolerance = checkNutritionConsistency(
+      meal({
+        total_calories: 400,
+        macros: { carbs: 25, fat: 40 },
+        ingredients: [],
+      })
+    );
+    expect(atTolerance.consistency?.macro_deviation).toBe(0.15);
+    expect(atTolerance.consistency?.status).toBe("ok");
+
+    const overTolerance = checkNutritionConsistency(
+      meal({
+        total_calories: 400,
+        macros: { protein: 0.25, carbs: 25, fat: 40 },
+        ingredients: [],
+      })
+    );
+    expect(overTolerance.consistency?.status).toBe("warning");
+
+    // 45g carbs and 40g fat: 180 + 360 = 540 kcal, 35% over 400
+    const atThreshold = checkNutritionConsistency(
+      meal({
+        total_calories: 400,
+        macros: { carbs: 45, fat: 40 },
+        ingredients: [],
+      })
+    );
+    expect(atThreshold.consistency?.macro_deviation).toBe(0.35);
+    expect(atThreshold.consistency?.status).toBe("warning");
+    expect(atThreshold.total_calories).toBe(400);
+
+    const overThreshold = checkNutritionConsistency(
+      meal({
+        total_calories: 400,
+        macros: { protein: 1, carbs: 45, fat: 40 },
+        ingredients: [],
+      })
+    );
+    expect(overThreshold.consistency?.status).toBe("corrected");
+    expect(overThreshold.total_calories).toBe(544);
+  });
+
+  it("warns when the fat breakdown exceeds total fat", () => {
+    const result = checkNutritionConsistency(
+      meal({ macros: { ...MACROS, saturated_fat: 14, unsaturated_fat: 10 } })
+    );
+    expect(result.consistency?.status).toBe("warning");
+    expect(result.consistency?.warnings).toEqual([
+      "Saturated and unsaturated fat (24g) exceed total fat (20g).",
+    ]);
+  });
+
+  it("skips results without food", () => {
+    const result = meal({ contains_food: false });
+    expect(checkNutritionConsistency(result)).toBe(result);
+  });
+});
@@ -0,0 +1,123 @@
+// lib/analysis/consistency.ts
+// Cross-checks the model's total_calories against the energy implied by its
+// macros and the sum of its per-ingredient calories, which it estimates
+// independently and which frequently disagree.
+import { hasMacroEnergy, macroCalories } from "./nutrition";
+import type { AnalysisResult, ConsistencyReport } from "./schema";
+
+export interface ConsistencyOptions {
+  // Relative difference above which a warning is raised (0.15 = 15%)
+  tolerance: number;
+  // Relative difference above which total_calories is replaced, if autoCorrect is on
+  correctionThreshold: number;
+  autoCorrect: boolean;
+}
+
+export const DEFAULT_CONSISTENCY_OPTIONS: ConsistencyOptions = {
+  tolerance: 0.15,
+  correctionThreshold: 0.35,
+  autoCorrect: true,
+};
+
+export function consistencyOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ConsistencyOptions {
+  const tolerance = Number(env.ANALYSIS_CONSISTENCY_TOLERANCE);
+  const threshold = Number(env.ANALYSIS_CONSISTENCY_CORRECTION_THRESHOLD);
+  return {
+    tolerance:
+      tolerance > 0 ? tolerance : DEFAULT_CONSISTENCY_OPTIONS.tolerance,
+    correctionThreshold:
+      threshold > 0
+        ? threshold
+        : DEFAULT_CONSISTENCY_OPTIONS.correctionThreshold,
+    autoCorrect: env.ANALYSIS_CONSISTENCY_AUTOCORRECT !== "false",
+  };
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Relative difference of `value` from `reference`
+const deviation = (value: number, reference: number) =>
+  round3(Math.abs(value - reference) / Math.max(reference, 1));
+
+export function checkNutritionConsistency(
+  result: AnalysisResult,
+  options: ConsistencyOptions = DEFAULT_CONSISTENCY_OPTIONS
+): AnalysisResult {
+  if (!result.contains_food) return result;
+
+  const warnings: string[] = [];
+  const reported = result.total_calories;
+  const macroEnergy = hasMacroEnergy(result.macros)
+    ? Math.round(macroCalories(result.macros).total)
+    : undefined;
+  const ingredientCalories = (result.ingredients || [])
+    .map((ingredient) => ingredient.calories)
+    .filter((value): value is number => typeof value === "number");
+  const ingredientSum = ingredientCalories.length
+    ? Math.round(ingredientCalories.reduce((sum, value) => sum + value, 0))
+    : undefined;
+
+  const report: ConsistencyReport = {
+    status: "ok",
+    reported_calories: reported,
+    macro_calories: macroEnergy,
+    ingredient_calories: ingredientSum,
+    warnings,
+  };
+
+  if (typeof reported === "number" && reported > 0) {
+    if (macroEnergy !== undefined) {
+      report.macro_deviation = deviation(macroEnergy, reported);
+      if (report.macro_deviation > options.tolerance) {
+        warnings.push(
+          `Macros add up to about ${macroEnergy} kcal, but the total is ${reported} kcal.`
+        );
+      }
+    }
+    if (ingredientSum !== undefined) {
+      report.ingredient_deviation = deviation(ingredientSum, reported);
+      if (report.ingredient_deviation > options.tolerance) {
+        warnings.push(
+          `Ingredient calories add up to ${ingredientSum} kcal, but the total is ${reported} kcal.`
+        );
+      }
+    }
+  } else if (macroEnergy !== undefined || ingredientSum !== undefined) {
+    warnings.push("No total calorie estimate was returned.");
+  }
+
+  const fat = result.macros?.fat;
+  const fatParts =
+    (result.macros?.saturated_fat || 0) + (result.macros?.unsaturated_fat || 0);
+  if (typeof fat === "number" && fatParts > fat * (1 + options.tolerance)) {
+    warnings.push(
+      `Saturated and unsaturated fat (${fatParts}g) exceed total fat (${fat}g).`
+    );
+  }
+
+  if (warnings.length > 0) report.status = "warning";
+
+  // Replace a clearly-off total with the macro-derived energy (or, without
+  // macros, the ingredient sum): those come from more specific estimates.
+  const replacement = macroEnergy ?? ingredientSum;
+  const replacementDeviation =
+    macroEnergy !== undefined
+      ? report.macro_deviation
+      : report.ingredient_deviation;
+  const missingTotal = !(typeof reported === "number" && reported > 0);
+  if (
+    options.autoCorrect &&
+    replacement !== undefined &&
+    replacement > 0 &&
+    (missingTotal ||
+      (replacementDeviation ?? 0) > options.correctionThreshold)
+  ) {
+    report.status = "corrected";
+    report.corrected_calories = replacement;
+    return { ...result, total_calories: replacement, consistency: report };
+  }
+
+  return { ...result, consistency: report };
+}
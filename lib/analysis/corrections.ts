@@ -0,0 +1,54 @@
+// lib/analysis/corrections.ts
+// Turns a user's correction of a stored analysis into the draft that
+// /api/analyze/correct recomputes: the corrected names, quantities and portion
+// replace the model's, and the numbers that depended on them are cleared.
+import type { AnalysisCorrection, AnalysisResult } from "./schema";
+
+export function draftFromCorrection(
+  original: AnalysisResult,
+  correction: AnalysisCorrection
+): AnalysisResult {
+  const portionChanged =
+    correction.portion_size !== undefined &&
+    correction.portion_size !== original.portion_size;
+  const items = correction.items?.map((item) => ({
+    name: item.name,
+    portion: item.portion,
+    ingredients: item.ingredients,
+  }));
+
+  return {
+    contains_food: true,
+    dish_name: correction.dish_name,
+    cuisine: original.cuisine,
+    serving_size: original.serving_size,
+    cooking_method: original.cooking_method,
+    portion_size: correction.portion_size ?? original.portion_size,
+    // No longer describes the plate once the portion changed
+    portion_comparison: portionChanged
+      ? undefined
+      : original.portion_comparison,
+    items,
+    ingredients: items
+      ? items.flatMap((item) => item.ingredients)
+      : correction.ingredients || [],
+    allergens: original.allergens,
+    contains_caffeine: original.contains_caffeine,
+    contains_alcohol: original.contains_alcohol,
+    source: original.source,
+  };
+}
+
+// True when every ingredient of a grounded draft was found in the reference
+// table, so its totals can be recomputed without the model. Items without
+// ingredients can't be grounded at all.
+export function isFullyGrounded(result: AnalysisResult): boolean {
+  const provenance = result.nutrition_provenance;
+  return (
+    !!provenance &&
+    provenance.total_ingredients > 0 &&
+    (result.items || []).every((item) => item.ingredients?.length) &&
+    provenance.calories === "reference" &&
+    provenance.macros === "reference"
+  );
+}
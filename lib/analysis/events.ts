@@ -0,0 +1,93 @@
+// lib/analysis/events.ts
+// Server-Sent Events emitted by /api/analyze/stream. Shared by the route and
+// the dashboard, so it must stay free of server-only imports.
+import type { AnalysisResult, ValidationIssue } from "./schema";
+
+export type AnalysisErrorCode =
+  | "IMAGE_FETCH_TIMEOUT"
+  | "IMAGE_FETCH_FAILED"
+  | "AI_PROVIDER_ERROR"
+  | "AI_TIMEOUT"
+  | "AI_SAFETY_BLOCK"
+  | "AI_BAD_JSON"
+  | "AI_VALIDATION_FAILED"
+  | "ANALYSIS_NOT_FOUND"
+  | "CORRECTION_NOT_SUPPORTED"
+  | "ANALYSIS_CHANGED"
+  | "INVALID_CLARIFICATION"
+  | "RECIPE_NOT_SUPPORTED"
+  | "INTERNAL_ERROR";
+
+export type AnalysisStreamEvent =
+  | { type: "image_fetched"; data: { size: number; mimeType: string } }
+  | {
+      type: "model_responded";
+      // `cached` is set when a stored result was reused instead of calling the model
+      data: { provider: string; model: string; cached?: boolean };
+    }
+  | {
+      type: "partial";
+      data: Pick<AnalysisResult, "contains_food" | "dish_name" | "cuisine">;
+    }
+  | { type: "validated"; data: AnalysisResult }
+  | { type: "saved"; data: { saved: boolean } }
+  | { type: "complete"; data: AnalysisResult }
+  | {
+      type: "error";
+      data: {
+        code: AnalysisErrorCode;
+        message: string;
+        // As in the API error envelope (lib/api-errors/envelope.ts)
+        retryable: boolean;
+        correlation_id: string;
+        validation_issues?: ValidationIssue[];
+      };
+    };
+
+// Pipeline stages in the order they are reported
+export const ANALYSIS_STAGES = [
+  "image_fetched",
+  "model_responded",
+  "validated",
+  "saved",
+] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export function encodeSseEvent(event: AnalysisStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+// Reads an SSE response body and hands each decoded event to `onEvent`
+export async function readAnalysisStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let type = "message";
+      const dataLines: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length === 0) continue;
+      onEvent({
+        type,
+        data: JSON.parse(dataLines.join("\n")),
+      } as AnalysisStreamEvent);
+    }
+  }
+}
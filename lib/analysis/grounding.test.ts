@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { groundIngredient, groundNutrition } from "./grounding";
+
+describe("groundIngredient", () => {
+  it("replaces the model's values for a matched ingredient", () => {
+    expect(
+      groundIngredient({
+        name: "Steamed rice",
+        quantity: "1 cup",
+        calories: 300,
+      })
+    ).toMatchObject({
+      calories: 205,
+      grams: 158,
+      source: "reference",
+      reference_id: "rice-white-cooked",
+    });
+  });
+
+  it("keeps the model's values for dishes named after an ingredient", () => {
+    const ingredient = {
+      name: "Butter chicken",
+      quantity: "1 piece",
+      calories: 440,
+    };
+    expect(groundIngredient(ingredient)).toEqual({
+      ...ingredient,
+      source: "model",
+    });
+  });
+});
+
+describe("groundNutrition", () => {
+  it("leaves totals alone when nothing matched", () => {
+    const result = groundNutrition({
+      contains_food: true,
+      total_calories: 520,
+      ingredients: [
+        { name: "Peanut butter", quantity: "2 tbsp", calories: 190 },
+        { name: "Milk chocolate", quantity: "50 g", calories: 270 },
+      ],
+    });
+    expect(result.total_calories).toBe(520);
+    expect(result.ingredients?.map((ingredient) => ingredient.calories)).toEqual(
+      [190, 270]
+    );
+    expect(result.nutrition_provenance).toMatchObject({
+      calories: "model",
+      matched_ingredients: 0,
+    });
+  });
+});
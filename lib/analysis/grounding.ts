@@ -0,0 +1,138 @@
+// lib/analysis/grounding.ts
+// Replaces the model's ingredient calories and macros with values computed
+// from the bundled nutrient reference database wherever an ingredient name and
+// quantity can be matched, and records which numbers came from where.
+import {
+  findReferenceFood,
+  quantityToGrams,
+  REFERENCE_DB_VERSION,
+  scaleReferenceNutrients,
+} from "./reference";
+import type {
+  AnalysisResult,
+  FoodItem,
+  Ingredient,
+  Macros,
+  NutritionSource,
+} from "./schema";
+
+const MACRO_KEYS = [
+  "protein",
+  "carbs",
+  "fiber",
+  "fat",
+  "saturated_fat",
+] as const;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const sourceFor = (matched: number, total: number): NutritionSource =>
+  matched === 0 ? "model" : matched === total ? "reference" : "mixed";
+
+export function groundIngredient(ingredient: Ingredient): Ingredient {
+  const food = findReferenceFood(ingredient.name);
+  const grams = food && quantityToGrams(ingredient.quantity, food);
+  if (!food || !grams) return { ...ingredient, source: "model" };
+
+  const { calories, ...macros } = scaleReferenceNutrients(food, grams);
+  return {
+    ...ingredient,
+    calories,
+    grams: Math.round(grams),
+    macros,
+    source: "reference",
+    reference_id: food.id,
+  };
+}
+
+interface GroundedIngredients {
+  ingredients: Ingredient[];
+  matched: number;
+  source: NutritionSource;
+  // Sum of ingredient calories, when every ingredient has a value
+  calories?: number;
+  // Sum of ingredient macros, when every ingredient was matched
+  macros?: Macros;
+}
+
+function groundIngredients(ingredients: Ingredient[]): GroundedIngredients {
+  const grounded = ingredients.map(groundIngredient);
+  const matched = grounded.filter(
+    (ingredient) => ingredient.source === "reference"
+  ).length;
+  const source = sourceFor(matched, grounded.length);
+
+  const calories = grounded.every(
+    (ingredient) => typeof ingredient.calories === "number"
+  )
+    ? Math.round(
+        grounded.reduce((sum, ingredient) => sum + (ingredient.calories || 0), 0)
+      )
+    : undefined;
+
+  let macros: Macros | undefined;
+  if (source === "reference") {
+    macros = {};
+    for (const key of MACRO_KEYS) {
+      macros[key] = round1(
+        grounded.reduce(
+          (sum, ingredient) => sum + (ingredient.macros?.[key] || 0),
+          0
+        )
+      );
+    }
+  }
+
+  return { ingredients: grounded, matched, source, calories, macros };
+}
+
+// Runs before computePlateTotals, so plate totals are summed from the grounded items
+export function groundNutrition(result: AnalysisResult): AnalysisResult {
+  if (!result.contains_food) return result;
+
+  const containers: GroundedIngredients[] = [];
+  // Totals are only replaced once at least one ingredient matched, macros only when all did
+  const items = (result.items || []).map((item): FoodItem => {
+    if (!item.ingredients?.length) return item;
+    const grounded = groundIngredients(item.ingredients);
+    containers.push(grounded);
+    return {
+      ...item,
+      ingredients: grounded.ingredients,
+      calories: grounded.matched
+        ? grounded.calories ?? item.calories
+        : item.calories,
+      macros: grounded.macros ?? item.macros,
+      nutrition_source: grounded.source,
+    };
+  });
+
+  let grounded: AnalysisResult = { ...result, items };
+  if (containers.length === 0) {
+    // No per-item ingredients: ground the dish-level list and its totals
+    const dish = groundIngredients(result.ingredients || []);
+    containers.push(dish);
+    grounded = {
+      ...grounded,
+      ingredients: dish.ingredients,
+      total_calories: dish.matched
+        ? dish.calories ?? result.total_calories
+        : result.total_calories,
+      macros: dish.macros ?? result.macros,
+    };
+  }
+
+  const matched = containers.reduce((sum, c) => sum + c.matched, 0);
+  const total = containers.reduce((sum, c) => sum + c.ingredients.length, 0);
+  const macrosGrounded = containers.filter((c) => c.macros).length;
+  return {
+    ...grounded,
+    nutrition_provenance: {
+      calories: sourceFor(matched, total),
+      macros: sourceFor(macrosGrounded, containers.length),
+      matched_ingredients: matched,
+      total_ingredients: total,
+      database_version: REFERENCE_DB_VERSION,
+    },
+  };
+}
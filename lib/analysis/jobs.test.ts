@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { isJobStale, STALE_JOB_MS } from "./jobs";
+
+const now = Date.parse("2026-10-18T12:00:00Z");
+const ago = (ms: number) => new Date(now - ms).toISOString();
+
+describe("isJobStale", () => {
+  it("gives up on a running job whose worker is gone", () => {
+    const running = (startedAgo: number) => ({
+      status: "running" as const,
+      created_at: ago(startedAgo),
+      started_at: ago(startedAgo),
+    });
+    expect(isJobStale(running(60_000), now)).toBe(false);
+    expect(isJobStale(running(STALE_JOB_MS + 1), now)).toBe(true);
+  });
+
+  it("gives up on a queued job no worker picked up", () => {
+    const queued = (createdAgo: number) => ({
+      status: "queued" as const,
+      created_at: ago(createdAgo),
+      started_at: null,
+    });
+    expect(isJobStale(queued(60_000), now)).toBe(false);
+    expect(isJobStale(queued(STALE_JOB_MS + 1), now)).toBe(true);
+  });
+
+  it("leaves finished jobs alone", () => {
+    const old = ago(24 * 60 * 60 * 1000);
+    expect(
+      isJobStale({ status: "failed", created_at: old, started_at: old }, now)
+    ).toBe(false);
+  });
+});
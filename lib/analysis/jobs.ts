@@ -0,0 +1,81 @@
+// lib/analysis/jobs.ts
+// Asynchronous photo analyses (POST /api/analyze/jobs): the shape of a job as
+// returned by the status endpoint. Shared with the dashboard and History, so
+// it must stay free of server-only imports.
+import type { AnalysisStage, AnalysisStreamEvent } from "./events";
+import type { AnalysisResult } from "./schema";
+import type { AnalysisTask } from "./types";
+
+export type AnalysisJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// The same as the stream's error event
+export type AnalysisJobError = Extract<
+  AnalysisStreamEvent,
+  { type: "error" }
+>["data"];
+
+// Dish name and cuisine, reported before the full result
+export type AnalysisJobPreview = Extract<
+  AnalysisStreamEvent,
+  { type: "partial" }
+>["data"];
+
+// A row of analysis_jobs
+export interface AnalysisJob {
+  id: string;
+  user_id: string;
+  status: AnalysisJobStatus;
+  image_url: string;
+  // S3 key of an uploaded photo, signed again when the job runs
+  image_key: string | null;
+  mode: AnalysisTask;
+  force: boolean;
+  servings: number;
+  // Last pipeline stage reached
+  stage: AnalysisStage | null;
+  preview: AnalysisJobPreview | null;
+  // Set once validated, before the job succeeds
+  result: AnalysisResult | null;
+  analysis_id: string | null;
+  error: AnalysisJobError | null;
+  correlation_id: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// Body of a successful POST /api/analyze/jobs (202)
+export interface AnalysisJobSubmitted {
+  job_id: string;
+  status: AnalysisJobStatus;
+  status_url: string;
+}
+
+export function isJobFinished(job: Pick<AnalysisJob, "status">): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+export const JOB_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A job still running after this long lost its worker (a restart or a
+// serverless timeout); the pipeline's own time budget is far shorter. A job
+// still queued after this long has no worker to run it.
+export const STALE_JOB_MS = 5 * 60 * 1000;
+
+export function isJobStale(
+  job: Pick<AnalysisJob, "status" | "started_at" | "created_at">,
+  now = Date.now()
+): boolean {
+  if (job.status === "queued") {
+    return Date.parse(job.created_at) < now - STALE_JOB_MS;
+  }
+  return (
+    job.status === "running" &&
+    !!job.started_at &&
+    Date.parse(job.started_at) < now - STALE_JOB_MS
+  );
+}
+
+// How often the dashboard and History ask for a job's status
+export const JOB_POLL_INTERVAL_MS = 1500;
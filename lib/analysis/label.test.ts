@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  labelToAnalysisResult,
+  perServingNutrients,
+  withServings,
+} from "./label";
+import type { LabelFacts } from "./schema";
+
+const biscuits: LabelFacts = {
+  is_label: true,
+  brand: "Parle",
+  product_name: "Marie",
+  serving_size: "4 biscuits (25 g)",
+  serving_size_grams: 25,
+  per_100g: { calories: 440, protein: 7.2, fat: 11.4, sodium: 310 },
+};
+
+describe("perServingNutrients", () => {
+  it("converts per-100g values with the serving size", () => {
+    expect(perServingNutrients(biscuits)).toEqual({
+      nutrients: { calories: 110, protein: 1.8, fat: 2.9, sodium: 77.5 },
+      basis: "4 biscuits (25 g)",
+    });
+  });
+
+  it("prefers printed per-serving values", () => {
+    const facts: LabelFacts = {
+      ...biscuits,
+      per_serving: { calories: 120 },
+    };
+    expect(perServingNutrients(facts)?.nutrients).toEqual({ calories: 120 });
+  });
+
+  it("treats per-100g labels without a serving size as 100 g servings", () => {
+    const facts: LabelFacts = {
+      is_label: true,
+      per_100g: { calories: 440 },
+    };
+    expect(perServingNutrients(facts)?.basis).toBe("100 g");
+  });
+});
+
+describe("labelToAnalysisResult", () => {
+  it("scales the label to the servings eaten", () => {
+    const result = labelToAnalysisResult(biscuits, 2);
+    expect(result).toMatchObject({
+      contains_food: true,
+      dish_name: "Parle Marie",
+      serving_size: "2 × 4 biscuits (25 g)",
+      total_calories: 220,
+      macros: { protein: 3.6, fat: 5.8 },
+      micronutrients: { sodium: 155 },
+      label: { servings: 2 },
+      source: "label",
+    });
+  });
+
+  it("reports images without a readable label", () => {
+    const result = labelToAnalysisResult({ is_label: false }, 1);
+    expect(result.contains_food).toBe(false);
+    expect(result.error).toMatch(/No readable nutrition label/);
+  });
+});
+
+describe("withServings", () => {
+  it("rescales a label result and keeps the server-set fields", () => {
+    const saved = {
+      ...labelToAnalysisResult(biscuits, 1),
+      analysis_id: "a1",
+    };
+    const rescaled = withServings(saved, 3);
+    expect(rescaled.total_calories).toBe(330);
+    expect(rescaled.analysis_id).toBe("a1");
+  });
+
+  it("leaves photo analyses as they are", () => {
+    const photo = { contains_food: true, total_calories: 500 };
+    expect(withServings(photo, 2)).toBe(photo);
+  });
+});
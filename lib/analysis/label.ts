@@ -0,0 +1,111 @@
+// lib/analysis/label.ts
+// Turns the values read off a Nutrition Facts / FSSAI label into an
+// AnalysisResult for the number of servings eaten. Safe to import on the
+// client, where the servings picker re-scales results with withServings().
+import type {
+  AnalysisResult,
+  LabelFacts,
+  LabelNutrients,
+  ValidationIssue,
+} from "./schema";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Nutrients for one serving, and a description of what "one serving" is.
+// Labels that only print per-100g values are converted with the serving size
+// in grams, or treated as 100 g servings when that is missing too.
+export function perServingNutrients(
+  facts: LabelFacts
+): { nutrients: LabelNutrients; basis: string } | undefined {
+  if (facts.per_serving && Object.keys(facts.per_serving).length > 0) {
+    return {
+      nutrients: facts.per_serving,
+      basis: facts.serving_size || "1 serving",
+    };
+  }
+  if (!facts.per_100g) return undefined;
+  const grams = facts.serving_size_grams;
+  if (!grams) return { nutrients: facts.per_100g, basis: "100 g" };
+
+  const scaled: LabelNutrients = {};
+  for (const [key, value] of Object.entries(facts.per_100g)) {
+    if (typeof value === "number") {
+      scaled[key as keyof LabelNutrients] = round1((value * grams) / 100);
+    }
+  }
+  return { nutrients: scaled, basis: facts.serving_size || `${grams} g` };
+}
+
+// The nutrition fields of a label result for `servings` servings
+function labelNutrition(facts: LabelFacts, servings: number) {
+  const perServing = perServingNutrients(facts);
+  const n = perServing?.nutrients || {};
+  const times = (value: number | undefined) =>
+    typeof value === "number" ? round1(value * servings) : undefined;
+
+  return {
+    serving_size: perServing
+      ? `${servings} × ${perServing.basis}`
+      : `${servings} serving(s)`,
+    total_calories:
+      typeof n.calories === "number"
+        ? Math.round(n.calories * servings)
+        : undefined,
+    macros: {
+      protein: times(n.protein),
+      carbs: times(n.carbs),
+      fiber: times(n.fiber),
+      fat: times(n.fat),
+      saturated_fat: times(n.saturated_fat),
+    },
+    micronutrients: {
+      sodium: times(n.sodium),
+      sugars: times(n.sugars),
+      added_sugars: times(n.added_sugars),
+      cholesterol: times(n.cholesterol),
+    },
+    label: { facts, servings },
+  };
+}
+
+export function labelToAnalysisResult(
+  facts: LabelFacts,
+  servings: number,
+  validationIssues: ValidationIssue[] = []
+): AnalysisResult {
+  if (!facts.is_label) {
+    return {
+      contains_food: false,
+      source: "label",
+      error: "No readable nutrition label was found in this image.",
+      validation_issues: validationIssues,
+    };
+  }
+  return {
+    contains_food: true,
+    dish_name:
+      [facts.brand, facts.product_name].filter(Boolean).join(" ") ||
+      "Packaged food",
+    cuisine: "Packaged food",
+    ...labelNutrition(facts, servings),
+    ingredients: (facts.ingredients || []).map((name) => ({
+      name,
+      quantity: "N/A",
+    })),
+    allergens: facts.allergens || [],
+    // Printed values are read, not estimated
+    confidence_score: 0.95,
+    source: "label",
+    validation_issues: validationIssues,
+  };
+}
+
+// Re-scales a label result to a different number of servings, keeping the
+// server-set fields (id, model, warnings, ...) as they are.
+export function withServings(
+  result: AnalysisResult,
+  servings: number
+): AnalysisResult {
+  if (!result.label || !(servings > 0)) return result;
+  return { ...result, ...labelNutrition(result.label.facts, servings) };
+}
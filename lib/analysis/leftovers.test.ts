@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { applyLeftovers, eatenTotals, reapplyLeftovers } from "./leftovers";
+import type { AnalysisResult } from "./schema";
+
+const plate: AnalysisResult = {
+  contains_food: true,
+  dish_name: "Rice and dal",
+  total_calories: 300,
+  macros: { protein: 10, carbs: 50 },
+  items: [
+    { name: "Rice", calories: 200, macros: { protein: 4, carbs: 44 } },
+    { name: "Dal", calories: 100, macros: { protein: 6, carbs: 6 } },
+  ],
+};
+const estimatedAt = "2026-10-18T12:00:00.000Z";
+
+describe("applyLeftovers", () => {
+  it("weights the eaten share by each item's calories", () => {
+    // Half the rice is left; the dal isn't mentioned, so it was finished
+    const result = applyLeftovers(
+      plate,
+      { items: [{ index: 0, remaining_fraction: 0.5 }] },
+      { estimatedAt }
+    );
+    expect(result.items?.map((item) => item.consumed_fraction)).toEqual([
+      0.5, 1,
+    ]);
+    expect(result.consumed).toMatchObject({
+      fraction: 0.67,
+      total_calories: 200,
+      macros: { protein: 8, carbs: 28 },
+      estimated_at: estimatedAt,
+    });
+    expect(eatenTotals(result)).toEqual({
+      total_calories: 200,
+      macros: { protein: 8, carbs: 28 },
+      fraction: 0.67,
+    });
+  });
+
+  it("scales the whole dish when there are no items", () => {
+    const dish: AnalysisResult = { ...plate, items: undefined };
+    const result = applyLeftovers(
+      dish,
+      { items: [{ index: 0, remaining_fraction: 0.25 }] },
+      { estimatedAt }
+    );
+    expect(result.consumed).toMatchObject({
+      fraction: 0.75,
+      total_calories: 225,
+      macros: { protein: 7.5, carbs: 37.5 },
+    });
+  });
+
+  it("ignores estimates for items that don't exist", () => {
+    const result = applyLeftovers(
+      plate,
+      { items: [{ index: 5, remaining_fraction: 1 }] },
+      { estimatedAt }
+    );
+    expect(result.consumed?.fraction).toBe(1);
+  });
+});
+
+describe("reapplyLeftovers", () => {
+  it("keeps each item's eaten share on a corrected plate", () => {
+    const eaten = applyLeftovers(
+      plate,
+      { items: [{ index: 0, remaining_fraction: 0.5 }] },
+      { estimatedAt }
+    );
+    const corrected: AnalysisResult = {
+      ...plate,
+      total_calories: 400,
+      items: [
+        { name: "Rice", calories: 300 },
+        { name: "Dal", calories: 100 },
+      ],
+    };
+    const result = reapplyLeftovers(eaten, corrected);
+    expect(result.items?.map((item) => item.consumed_fraction)).toEqual([
+      0.5, 1,
+    ]);
+    expect(result.consumed?.total_calories).toBe(250);
+    expect(result.consumed?.estimated_at).toBe(estimatedAt);
+  });
+});
+
+describe("eatenTotals", () => {
+  it("counts the whole plate without a leftovers photo", () => {
+    expect(eatenTotals(plate)).toEqual({
+      total_calories: 300,
+      macros: plate.macros,
+      fraction: 1,
+    });
+  });
+});
@@ -0,0 +1,154 @@
+// lib/analysis/leftovers.ts
+// Scales an analysed plate down to what was actually eaten, using the model's
+// estimate of what is left on a second ("leftovers") photo. Safe to import on
+// the client, where history and totals read eatenTotals().
+import { itemCalories, MACRO_KEYS } from "./plate";
+import type {
+  AnalysisResult,
+  FoodItem,
+  LeftoversEstimate,
+  Macros,
+} from "./schema";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The units the leftovers prompt lists: the detected items, or the whole dish
+// as a single item when there are none
+export function leftoverUnits(result: AnalysisResult): FoodItem[] {
+  if (result.items && result.items.length > 0) return result.items;
+  return [
+    {
+      name: result.dish_name || "Meal",
+      portion: result.portion_size || result.serving_size,
+      calories: result.total_calories,
+      macros: result.macros,
+    },
+  ];
+}
+
+function scaleMacros(macros: Macros | undefined, share: number): Macros {
+  const scaled: Macros = {};
+  for (const key of MACRO_KEYS) {
+    const value = macros?.[key];
+    if (typeof value === "number") scaled[key] = round1(value * share);
+  }
+  return scaled;
+}
+
+// Records each item's consumed_fraction and a `consumed` summary. Items the
+// model did not mention are assumed to be finished.
+export function applyLeftovers(
+  result: AnalysisResult,
+  estimate: LeftoversEstimate,
+  { imageUrl, estimatedAt }: { imageUrl?: string; estimatedAt: string }
+): AnalysisResult {
+  const units = leftoverUnits(result);
+  const remaining = new Map<number, number>();
+  for (const entry of estimate.items) {
+    if (entry.index < units.length) {
+      remaining.set(entry.index, entry.remaining_fraction);
+    }
+  }
+  const eatenShares = units.map((_unit, index) =>
+    round2(1 - (remaining.get(index) ?? 0))
+  );
+
+  // Share of the plate's energy that was eaten; a plain average of the items
+  // when their calories are unknown
+  const calories = units.map((unit) => itemCalories(unit));
+  const servedCalories = calories.reduce<number>(
+    (sum, value) => sum + (value ?? 0),
+    0
+  );
+  const fraction =
+    servedCalories > 0
+      ? calories.reduce<number>(
+          (sum, value, index) => sum + (value ?? 0) * eatenShares[index],
+          0
+        ) / servedCalories
+      : eatenShares.reduce((sum, share) => sum + share, 0) / units.length;
+
+  // Macros are summed per item where the items carry them
+  const itemMacros = units.some((unit) => unit.macros);
+  const macros: Macros = itemMacros ? {} : scaleMacros(result.macros, fraction);
+  if (itemMacros) {
+    for (const key of MACRO_KEYS) {
+      const values = units
+        .map((unit, index) =>
+          typeof unit.macros?.[key] === "number"
+            ? unit.macros[key]! * eatenShares[index]
+            : undefined
+        )
+        .filter((value): value is number => typeof value === "number");
+      if (values.length) {
+        macros[key] = round1(values.reduce((sum, value) => sum + value, 0));
+      }
+    }
+  }
+
+  return {
+    ...result,
+    items: result.items?.map((item, index) => ({
+      ...item,
+      consumed_fraction: eatenShares[index],
+    })),
+    consumed: {
+      fraction: round2(fraction),
+      total_calories:
+        typeof result.total_calories === "number"
+          ? Math.round(result.total_calories * fraction)
+          : undefined,
+      macros,
+      leftovers_image_url: imageUrl,
+      notes: estimate.notes,
+      estimated_at: estimatedAt,
+    },
+  };
+}
+
+// Calories and macros that count towards history and daily totals: what was
+// eaten when a leftovers photo was logged, otherwise the whole plate
+export function eatenTotals(result: AnalysisResult): {
+  total_calories?: number;
+  macros?: Macros;
+  fraction: number;
+} {
+  if (result.consumed) {
+    return {
+      total_calories: result.consumed.total_calories,
+      macros: result.consumed.macros,
+      fraction: result.consumed.fraction,
+    };
+  }
+  return {
+    total_calories: result.total_calories,
+    macros: result.macros,
+    fraction: 1,
+  };
+}
+
+// Carries a leftovers estimate over to a recomputed version of the same plate
+// (e.g. after a correction): each item keeps its eaten share by position, and
+// new items count as eaten like the plate as a whole.
+export function reapplyLeftovers(
+  previous: AnalysisResult,
+  next: AnalysisResult
+): AnalysisResult {
+  if (!previous.consumed) return next;
+  const previousUnits = leftoverUnits(previous);
+  const items = leftoverUnits(next).map((_unit, index) => ({
+    index,
+    remaining_fraction:
+      1 -
+      (previousUnits[index]?.consumed_fraction ?? previous.consumed!.fraction),
+  }));
+  return applyLeftovers(
+    next,
+    { items, notes: previous.consumed.notes },
+    {
+      imageUrl: previous.consumed.leftovers_image_url,
+      estimatedAt: previous.consumed.estimated_at,
+    }
+  );
+}
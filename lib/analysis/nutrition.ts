@@ -0,0 +1,48 @@
+// lib/analysis/nutrition.ts
+// Energy math shared by the server-side checks and NutritionDisplay.
+import type { Macros, Micronutrients } from "./schema";
+
+// Atwater factors: kcal per gram
+export const KCAL_PER_GRAM = {
+  protein: 4,
+  carbs: 4,
+  fat: 9,
+} as const;
+
+export interface MacroCalories {
+  protein: number;
+  carbs: number;
+  fat: number;
+  total: number;
+}
+
+export function macroCalories(macros: Macros | undefined): MacroCalories {
+  const protein = (macros?.protein || 0) * KCAL_PER_GRAM.protein;
+  const carbs = (macros?.carbs || 0) * KCAL_PER_GRAM.carbs;
+  const fat = (macros?.fat || 0) * KCAL_PER_GRAM.fat;
+  return { protein, carbs, fat, total: protein + carbs + fat };
+}
+
+export function hasMacroEnergy(macros: Macros | undefined): boolean {
+  return [macros?.protein, macros?.carbs, macros?.fat].some(
+    (value) => typeof value === "number"
+  );
+}
+
+// Display metadata for the micronutrient fields. Daily values are the FDA
+// reference amounts for adults, used for the "% DV" figures (total sugars has none).
+export const MICRONUTRIENTS: {
+  key: keyof Micronutrients;
+  label: string;
+  unit: "g" | "mg";
+  dailyValue?: number;
+}[] = [
+  { key: "sodium", label: "Sodium", unit: "mg", dailyValue: 2300 },
+  { key: "sugars", label: "Total Sugars", unit: "g" },
+  { key: "added_sugars", label: "Added Sugars", unit: "g", dailyValue: 50 },
+  { key: "cholesterol", label: "Cholesterol", unit: "mg", dailyValue: 300 },
+  { key: "potassium", label: "Potassium", unit: "mg", dailyValue: 4700 },
+  { key: "calcium", label: "Calcium", unit: "mg", dailyValue: 1300 },
+  { key: "iron", label: "Iron", unit: "mg", dailyValue: 18 },
+  { key: "vitamin_c", label: "Vitamin C", unit: "mg", dailyValue: 90 },
+];
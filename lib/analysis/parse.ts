@@ -0,0 +1,28 @@
+// lib/analysis/parse.ts
+import { AnalysisProviderError, type RawAnalysisOutput } from "./types";
+
+// Turns the raw text returned by a model into a JSON object.
+// Handles markdown code fences; field validation is left to validateAnalysisResult.
+export function parseAnalysisJson(rawText: string): RawAnalysisOutput {
+  let jsonString = rawText.trim();
+  if (jsonString.startsWith("```") && jsonString.endsWith("```")) {
+    jsonString = jsonString
+      .substring(jsonString.indexOf("\n") + 1, jsonString.lastIndexOf("\n"))
+      .trim();
+  }
+  if (!jsonString.startsWith("{") || !jsonString.endsWith("}")) {
+    throw new AnalysisProviderError(
+      "AI response format error: Expected JSON object structure.",
+      { retryable: false, reason: "bad_json" }
+    );
+  }
+
+  try {
+    return JSON.parse(jsonString) as RawAnalysisOutput;
+  } catch (e: any) {
+    throw new AnalysisProviderError(
+      `AI response format error: Could not parse JSON. ${e.message}`,
+      { retryable: false, reason: "bad_json" }
+    );
+  }
+}
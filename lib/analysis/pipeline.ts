@@ -0,0 +1,1441 @@
+// lib/analysis/pipeline.ts
+// Steps 3-7 of the analyze pipeline (fetch image -> model -> validate ->
+// standardise -> save), shared by /api/analyze, /api/analyze/stream, the
+// analysis jobs and /api/analyze/batch, plus the text-only variant behind
+// /api/analyze/text, the leftovers estimate behind /api/analyze/leftovers,
+// the recomputation behind /api/analyze/correct, the re-analysis with the
+// user's answers behind /api/analyze/clarify, the recipes behind
+// /api/analyze/recipe and the swaps behind /api/analyze/suggestions.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type AWS from "aws-sdk";
+import { randomUUID } from "crypto";
+import { type Logger, logger } from "../logger";
+import { createS3Client, imageKeyFromUrl, signedImageUrl } from "../s3";
+import type { AnalysisErrorCode, AnalysisStreamEvent } from "./events";
+import {
+  isOwnUploadKey,
+  MAX_BATCH_IMAGES,
+  UPLOAD_KEY_PATTERN,
+} from "./batch";
+import { findCachedAnalysis, hashImageBuffer } from "./cache";
+import {
+  DEFAULT_CLARIFY_BELOW_CONFIDENCE,
+  matchAnswers,
+  pendingQuestions,
+  selectClarifyingQuestions,
+} from "./clarify";
+import {
+  checkNutritionConsistency,
+  consistencyOptionsFromEnv,
+} from "./consistency";
+import { draftFromCorrection, isFullyGrounded } from "./corrections";
+import { groundNutrition } from "./grounding";
+import { labelToAnalysisResult, withServings } from "./label";
+import {
+  applyLeftovers,
+  leftoverUnits,
+  reapplyLeftovers,
+} from "./leftovers";
+import { computePlateTotals } from "./plate";
+import {
+  applyDietaryProfile,
+  type DietaryProfile,
+  EMPTY_DIETARY_PROFILE,
+  isPersonalizedFor,
+} from "./profile";
+import {
+  ANALYSIS_PROMPT_TEXT,
+  buildAnalysisPrompt,
+  buildClarificationPrompt,
+  buildCorrectionPrompt,
+  buildLeftoversPrompt,
+  buildMealDescriptionPrompt,
+  buildRecipePrompt,
+  buildSuggestionsPrompt,
+  MAX_MEAL_DESCRIPTION_LENGTH,
+} from "./prompt";
+import { createAnalysisProvidersFromEnv } from "./providers";
+import {
+  type AnalysisRecipe,
+  completeRecipe,
+  DEFAULT_RECIPE_SERVINGS,
+  supportsRecipe,
+} from "./recipe";
+import {
+  analyzeWithFallback,
+  type ChainResult,
+  ProviderChainError,
+  retryPolicyFromEnv,
+} from "./retry";
+import {
+  type AnalysisCorrection,
+  AnalysisCorrectionSchema,
+  type AnalysisResult,
+  type AnalysisSource,
+  type AnalysisValidation,
+  type ClarificationAnswer,
+  ClarificationAnswerSchema,
+  type ValidationIssue,
+  validateAnalysisResult,
+  validateLabelFacts,
+  validateLeftoversEstimate,
+  validateRecipe,
+  validateSwapCandidates,
+} from "./schema";
+import { standardizeAnalysisResult } from "./standardize";
+import { rankSwaps, swapGoalsFor } from "./suggestions";
+import { PROMPT_TEMPLATES, templateRequest } from "./templates";
+import {
+  type AnalysisProvider,
+  AnalysisProviderError,
+  type AnalysisRequest,
+  type AnalysisTask,
+} from "./types";
+import { recordUsageEvents, type UsageContext } from "./usage";
+
+const imageFetchTimeout = 20000; // 20 seconds
+
+// --- Provider Initialization (Conditional) ---
+// Primary selected via ANALYSIS_PROVIDER ("gemini" | "openai-compatible" | "mock"),
+// followed by any ANALYSIS_FALLBACKS. Empty when the primary isn't configured.
+let analysisProviders: AnalysisProvider[] | undefined;
+
+export function getAnalysisProviders(): AnalysisProvider[] {
+  if (analysisProviders === undefined) {
+    analysisProviders = createAnalysisProvidersFromEnv();
+  }
+  return analysisProviders;
+}
+
+const retryPolicy = retryPolicyFromEnv();
+const consistencyOptions = consistencyOptionsFromEnv();
+
+// Time allowed for Steps 3-7, measured from the start of the request. Keep it
+// below the routes' `maxDuration` so a response is always sent in time.
+const analysisTimeBudgetMs =
+  Number(process.env.ANALYSIS_TIME_BUDGET_MS) || 45000;
+
+// Analyses less confident than this come back with clarifying questions
+const clarifyBelowConfidence =
+  Number(process.env.ANALYSIS_CLARIFY_BELOW_CONFIDENCE) ||
+  DEFAULT_CLARIFY_BELOW_CONFIDENCE;
+
+export function analysisDeadline(requestStartTime: number): number {
+  return requestStartTime + analysisTimeBudgetMs;
+}
+
+// A pipeline failure that maps onto a specific HTTP status / stream error event
+export class AnalysisPipelineError extends Error {
+  readonly code: AnalysisErrorCode;
+  readonly status: number;
+  readonly validationIssues?: ValidationIssue[];
+
+  constructor(
+    code: AnalysisErrorCode,
+    status: number,
+    message: string,
+    validationIssues?: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = "AnalysisPipelineError";
+    this.code = code;
+    this.status = status;
+    this.validationIssues = validationIssues;
+  }
+}
+
+// Step 3: download the uploaded image through its (pre-signed) URL
+async function fetchImage(
+  imageUrl: string,
+  log: Logger
+): Promise<{ imageBuffer: Buffer; mimeType: string }> {
+  const span = log.span("fetch_image");
+  let imageBuffer: Buffer;
+  let mimeType: string;
+
+  try {
+    // Fetch using the pre-signed URL which contains auth parameters
+    const imageResponse = await fetch(imageUrl, {
+      signal: AbortSignal.timeout(imageFetchTimeout),
+    });
+
+    if (!imageResponse.ok) {
+      // Log response body for debugging if fetch fails
+      const errorBody = await imageResponse
+        .text()
+        .catch(() => "Could not read error body");
+      log.warn("Image fetch failed", {
+        status: imageResponse.status,
+        body: errorBody.slice(0, 1000),
+      });
+      throw new Error(
+        `Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`
+      );
+    }
+
+    const fetchedContentType = imageResponse.headers.get("content-type");
+    if (!fetchedContentType || !fetchedContentType.startsWith("image/")) {
+      log.warn("Fetched content is not an image", {
+        content_type: fetchedContentType,
+      });
+      throw new Error(
+        `URL did not return a valid image (Content-Type: ${
+          fetchedContentType || "N/A"
+        }).`
+      );
+    }
+    mimeType = fetchedContentType;
+
+    const arrayBuffer = await imageResponse.arrayBuffer();
+    imageBuffer = Buffer.from(arrayBuffer);
+    span.end({ size_bytes: imageBuffer.length, mime_type: mimeType });
+  } catch (fetchError: any) {
+    span.fail(fetchError);
+    if (fetchError.name === "TimeoutError") {
+      throw new AnalysisPipelineError(
+        "IMAGE_FETCH_TIMEOUT",
+        400,
+        `Fetching image timed out after ${imageFetchTimeout / 1000} seconds.`
+      );
+    }
+    throw new AnalysisPipelineError(
+      "IMAGE_FETCH_FAILED",
+      400,
+      `Could not fetch or process image: ${fetchError.message}` // The message might include status code
+    );
+  }
+  return { imageBuffer, mimeType };
+}
+
+// The S3 key behind a just-fetched photo URL (so its signature, and the key,
+// are valid), if it is one of the user's own uploads: only those are ever
+// signed again
+function ownImageKey(imageUrl: string, userId: string): string | null {
+  const key = imageKeyFromUrl(imageUrl);
+  return key && isOwnUploadKey(key, userId) ? key : null;
+}
+
+// A current URL for a saved photo or queued job. The stored pre-signed URL
+// expires after an hour, so the S3 key is signed again when the row has one of
+// the user's own.
+export async function storedImageUrl(
+  row: { image_url: string; image_key?: string | null },
+  userId: string,
+  log: Logger
+): Promise<string> {
+  const key = row.image_key;
+  const s3 = key && isOwnUploadKey(key, userId) ? createS3Client() : null;
+  if (!key || !s3) return row.image_url;
+  return log.time("sign_url", () => signedImageUrl(s3, key));
+}
+
+export interface AnalyzeRequestBody {
+  imageUrl: string;
+  // Skip the content-hash cache and always call the model
+  force: boolean;
+  // "label" reads a Nutrition Facts / FSSAI label instead of estimating a meal
+  mode: AnalysisTask;
+  // Label scans: servings eaten (defaults to 1, adjustable afterwards)
+  servings: number;
+}
+
+// Step 2 of the analyze routes: pull the (pre-signed) image URL and options out of the JSON body
+export async function readAnalyzeRequest(
+  request: Request
+): Promise<AnalyzeRequestBody> {
+  const body = await request.json();
+  const imageUrl = body?.imageUrl;
+  if (!imageUrl || typeof imageUrl !== "string") {
+    throw new Error("imageUrl is missing or not a string in request body.");
+  }
+  // Basic check if it looks like an S3 URL (pre-signed or not)
+  if (!imageUrl.includes(".s3.") || !imageUrl.startsWith("https")) {
+    logger.warn("Received URL does not look like a standard S3 HTTPS URL", {
+      image_url: imageUrl,
+    });
+  }
+  const mode: AnalysisTask = body.mode === "label" ? "label" : "meal";
+  const servings = Number(body.servings ?? 1);
+  if (!Number.isFinite(servings) || servings <= 0) {
+    throw new Error("servings must be a positive number.");
+  }
+  return { imageUrl, force: body.force === true, mode, servings };
+}
+
+export interface BatchAnalyzeRequestBody {
+  // S3 keys returned by /api/upload, analyzed in this order
+  keys: string[];
+  force: boolean;
+  mode: AnalysisTask;
+}
+
+// Step 2 of /api/analyze/batch: the uploaded images' keys and shared options
+export async function readBatchAnalyzeRequest(
+  request: Request
+): Promise<BatchAnalyzeRequestBody> {
+  const body = await request.json();
+  const keys = body?.keys;
+  if (
+    !Array.isArray(keys) ||
+    keys.length === 0 ||
+    !keys.every((key) => typeof key === "string")
+  ) {
+    throw new Error("keys must be a non-empty array of upload keys.");
+  }
+  if (keys.length > MAX_BATCH_IMAGES) {
+    throw new Error(
+      `At most ${MAX_BATCH_IMAGES} images can be analyzed at once.`
+    );
+  }
+  const invalid = keys.find((key) => !UPLOAD_KEY_PATTERN.test(key));
+  if (invalid !== undefined) {
+    throw new Error(`"${invalid.slice(0, 60)}" is not an upload key.`);
+  }
+  if (new Set(keys).size !== keys.length) {
+    throw new Error("keys must not repeat an image.");
+  }
+  const mode: AnalysisTask = body.mode === "label" ? "label" : "meal";
+  return { keys, force: body.force === true, mode };
+}
+
+// Step 2 of /api/analyze/text: the free-text meal description
+export async function readTextAnalyzeRequest(
+  request: Request
+): Promise<{ description: string }> {
+  const body = await request.json();
+  const description =
+    typeof body?.description === "string" ? body.description.trim() : "";
+  if (!description) {
+    throw new Error("description is missing or empty in request body.");
+  }
+  if (description.length > MAX_MEAL_DESCRIPTION_LENGTH) {
+    throw new Error(
+      `description must be at most ${MAX_MEAL_DESCRIPTION_LENGTH} characters.`
+    );
+  }
+  return { description };
+}
+
+// Step 2 of /api/analyze/leftovers: the analysis to update and the upload key
+// of the leftovers photo
+export async function readLeftoversRequest(
+  request: Request
+): Promise<{ analysisId: string; imageKey: string }> {
+  const body = await request.json();
+  const analysisId = body?.analysisId;
+  const imageKey = body?.imageKey;
+  if (!analysisId || typeof analysisId !== "string") {
+    throw new Error("analysisId is missing or not a string in request body.");
+  }
+  if (!imageKey || typeof imageKey !== "string") {
+    throw new Error("imageKey is missing or not a string in request body.");
+  }
+  if (!UPLOAD_KEY_PATTERN.test(imageKey)) {
+    throw new Error(`"${imageKey.slice(0, 60)}" is not an upload key.`);
+  }
+  return { analysisId, imageKey };
+}
+
+// Step 2 of /api/analyze/recipe: the analysed dish to write a recipe for
+export async function readRecipeRequest(
+  request: Request
+): Promise<{ analysisId: string }> {
+  const body = await request.json();
+  const analysisId = body?.analysisId;
+  if (!analysisId || typeof analysisId !== "string") {
+    throw new Error("analysisId is missing or not a string in request body.");
+  }
+  return { analysisId };
+}
+
+// Step 2 of /api/analyze/suggestions: the analysed meal to suggest swaps for
+export async function readSuggestionsRequest(
+  request: Request
+): Promise<{ analysisId: string }> {
+  const body = await request.json();
+  const analysisId = body?.analysisId;
+  if (!analysisId || typeof analysisId !== "string") {
+    throw new Error("analysisId is missing or not a string in request body.");
+  }
+  return { analysisId };
+}
+
+// Step 2 of /api/analyze/correct: the analysis to correct and the user's edits
+export async function readCorrectionRequest(
+  request: Request
+): Promise<{ analysisId: string; correction: AnalysisCorrection }> {
+  const body = await request.json();
+  const analysisId = body?.analysisId;
+  if (!analysisId || typeof analysisId !== "string") {
+    throw new Error("analysisId is missing or not a string in request body.");
+  }
+  const parsed = AnalysisCorrectionSchema.safeParse(body.correction);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `correction.${issue.path.join(".")}: ${issue.message}`.replace(
+        /\.:/,
+        ":"
+      )
+    );
+  }
+  return { analysisId, correction: parsed.data };
+}
+
+// Step 2 of /api/analyze/clarify: the analysis and the user's answers to its questions
+export async function readClarificationRequest(
+  request: Request
+): Promise<{ analysisId: string; answers: ClarificationAnswer[] }> {
+  const body = await request.json();
+  const analysisId = body?.analysisId;
+  if (!analysisId || typeof analysisId !== "string") {
+    throw new Error("analysisId is missing or not a string in request body.");
+  }
+  const parsed = ClarificationAnswerSchema.array()
+    .min(1)
+    .safeParse(body.answers);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `answers.${issue.path.join(".")}: ${issue.message}`.replace(/\.:/, ":")
+    );
+  }
+  return { analysisId, answers: parsed.data };
+}
+
+export interface AnalysisPipelineInput {
+  // Tried in order; the first is the primary model
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  imageUrl: string;
+  force?: boolean;
+  mode?: AnalysisTask;
+  servings?: number;
+  deadline: number; // epoch ms, see analysisDeadline()
+  // The caller's allergens and dietary preferences, see loadDietaryProfile()
+  profile?: DietaryProfile;
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+export async function runAnalysisPipeline(
+  {
+    providers,
+    supabase,
+    userId,
+    imageUrl,
+    force = false,
+    mode = "meal",
+    servings = 1,
+    deadline,
+    profile = EMPTY_DIETARY_PROFILE,
+    log = logger,
+  }: AnalysisPipelineInput,
+  emit: (event: AnalysisStreamEvent) => void = () => {}
+): Promise<AnalysisResult> {
+  // --- Step 3: Fetch Image Data from URL ---
+  const { imageBuffer, mimeType } = await fetchImage(imageUrl, log);
+  emit({
+    type: "image_fetched",
+    data: { size: imageBuffer.length, mimeType },
+  });
+
+  // Reuse an earlier analysis of the same bytes with the same prompt and primary
+  // model, as long as it was personalised for the caller's current profile
+  const primary = providers[0];
+  const imageHash = hashImageBuffer(imageBuffer);
+  const templateId = mode === "label" ? "label" : "meal-photo";
+  const cacheKey = {
+    userId,
+    imageHash,
+    promptVersion: PROMPT_TEMPLATES[templateId].version,
+    modelId: primary.modelId,
+  };
+  if (!force) {
+    const cacheSpan = log.span("cache_lookup");
+    const cached = await findCachedAnalysis(supabase, cacheKey);
+    const hit = !!cached && isPersonalizedFor(cached.result, profile);
+    cacheSpan.end({
+      hit,
+      // A match made for a different dietary profile is re-analyzed
+      ...(cached && { cached_analysis_id: cached.id }),
+    });
+    if (cached && hit) {
+      const cachedResult: AnalysisResult = {
+        ...withServings(cached.result, servings),
+        cached: true,
+        analysis_id: cached.id,
+      };
+      emit({
+        type: "model_responded",
+        data: {
+          provider: cached.result.analyzed_by?.provider || primary.name,
+          model: cached.result.analyzed_by?.model || primary.modelId,
+          cached: true,
+        },
+      });
+      emit({ type: "validated", data: cachedResult });
+      emit({ type: "saved", data: { saved: true } });
+      return cachedResult;
+    }
+  } else {
+    log.info("Force re-analyze requested; bypassing analysis cache");
+  }
+
+  // --- Step 4: Prepare Content for the Analysis Provider ---
+  const base64Image = imageBuffer.toString("base64");
+
+  return analyzeAndSave(
+    {
+      providers,
+      supabase,
+      userId,
+      deadline,
+      profile,
+      log,
+      source: mode === "label" ? "label" : "photo",
+      servings,
+      clarify: mode !== "label",
+      request: templateRequest(
+        templateId,
+        // Labels are read as printed; the profile is only checked afterwards
+        mode === "label"
+          ? PROMPT_TEMPLATES.label.text
+          : buildAnalysisPrompt(profile),
+        { mimeType, data: base64Image }
+      ),
+      row: {
+        image_url: imageUrl,
+        image_key: ownImageKey(imageUrl, userId),
+        image_hash: cacheKey.imageHash,
+      },
+    },
+    emit
+  );
+}
+
+export interface TextAnalysisPipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  description: string;
+  deadline: number; // epoch ms, see analysisDeadline()
+  profile?: DietaryProfile;
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Steps 5-7 for a meal described in words: there is no image to fetch or
+// cache on, and the row is saved with a null image_url.
+export async function runTextAnalysisPipeline(
+  {
+    providers,
+    supabase,
+    userId,
+    description,
+    deadline,
+    profile = EMPTY_DIETARY_PROFILE,
+    log = logger,
+  }: TextAnalysisPipelineInput,
+  emit: (event: AnalysisStreamEvent) => void = () => {}
+): Promise<AnalysisResult> {
+  return analyzeAndSave(
+    {
+      providers,
+      supabase,
+      userId,
+      deadline,
+      profile,
+      log,
+      source: "text",
+      clarify: true,
+      request: templateRequest(
+        "meal-text",
+        buildAnalysisPrompt(profile, buildMealDescriptionPrompt(description))
+      ),
+      row: {
+        image_url: null,
+        meal_description: description,
+      },
+    },
+    emit
+  );
+}
+
+export interface LeftoversPipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  // The food_analyses row the leftovers belong to
+  analysisId: string;
+  // The leftovers photo as returned by /api/upload, checked by the route to
+  // be one of the caller's own uploads (isOwnUploadKey) and signed here
+  imageKey: string;
+  s3: AWS.S3;
+  deadline: number; // epoch ms, see analysisDeadline()
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Compares a leftovers photo with a stored analysis and records how much of
+// each item was eaten (consumed_fraction) on that same row.
+export async function runLeftoversPipeline({
+  providers,
+  supabase,
+  userId,
+  analysisId,
+  imageKey,
+  s3,
+  deadline,
+  log = logger,
+}: LeftoversPipelineInput): Promise<AnalysisResult> {
+  const { data: row, error: loadError } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    log.error("Error loading analysis for leftovers", { error: loadError });
+  }
+  const original: AnalysisResult | undefined = row?.analysis_result;
+  if (!original?.contains_food) {
+    throw new AnalysisPipelineError(
+      "ANALYSIS_NOT_FOUND",
+      404,
+      "The analysis to attach leftovers to was not found."
+    );
+  }
+
+  const imageUrl = await log.time("sign_url", () =>
+    signedImageUrl(s3, imageKey)
+  );
+  const { imageBuffer, mimeType } = await fetchImage(imageUrl, log);
+
+  const chainResult = await callProviders(
+    providers,
+    templateRequest(
+      "leftovers",
+      buildLeftoversPrompt(leftoverUnits(original)),
+      { mimeType, data: imageBuffer.toString("base64") }
+    ),
+    deadline,
+    { userId, analysisId },
+    log
+  );
+
+  const validation = validateLeftoversEstimate(chainResult.output);
+  if (!validation.success) {
+    log.error("Leftovers estimate validation failed", {
+      validation_issues: validation.issues,
+    });
+    throw new AnalysisPipelineError(
+      "AI_VALIDATION_FAILED",
+      500,
+      "AI response validation error: Required 'items' field is missing or invalid.",
+      validation.issues
+    );
+  }
+
+  const updated = applyLeftovers(original, validation.data, {
+    imageUrl,
+    estimatedAt: new Date().toISOString(),
+  });
+  const { error: updateError } = await supabase
+    .from("food_analyses")
+    .update({
+      analysis_result: updated as any,
+      leftovers_image_url: imageUrl,
+      consumed_fraction: updated.consumed?.fraction,
+    })
+    .eq("id", analysisId)
+    .eq("user_id", userId);
+  if (updateError) {
+    log.error("Error saving leftovers estimate", { error: updateError });
+    throw new AnalysisPipelineError(
+      "INTERNAL_ERROR",
+      500,
+      "Could not save the leftovers estimate."
+    );
+  }
+  log.info("Leftovers saved", {
+    analysis_id: analysisId,
+    consumed_fraction: updated.consumed?.fraction ?? 1,
+  });
+
+  return { ...updated, analysis_id: analysisId };
+}
+
+export interface RecipePipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  // The food_analyses row of the dish
+  analysisId: string;
+  deadline: number; // epoch ms, see analysisDeadline()
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Writes a recipe for a stored analysis and saves it in analysis_recipes,
+// replacing the one written earlier, if any. One serving is the analysed
+// plate (see lib/analysis/recipe.ts).
+export async function runRecipePipeline({
+  providers,
+  supabase,
+  userId,
+  analysisId,
+  deadline,
+  log = logger,
+}: RecipePipelineInput): Promise<AnalysisRecipe> {
+  const { data: row, error: loadError } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result, revision")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    log.error("Error loading analysis for recipe", { error: loadError });
+  }
+  const analysis: AnalysisResult | undefined = row?.analysis_result;
+  if (!row || !analysis?.contains_food) {
+    throw new AnalysisPipelineError(
+      "ANALYSIS_NOT_FOUND",
+      404,
+      "The analysis to write a recipe for was not found."
+    );
+  }
+  if (!supportsRecipe(analysis)) {
+    throw new AnalysisPipelineError(
+      "RECIPE_NOT_SUPPORTED",
+      400,
+      "Label scans are packaged foods; there is no recipe to write."
+    );
+  }
+
+  const request = templateRequest(
+    "recipe",
+    buildRecipePrompt(analysis, DEFAULT_RECIPE_SERVINGS)
+  );
+  const chainResult = await callProviders(
+    providers,
+    request,
+    deadline,
+    { userId, analysisId },
+    log
+  );
+
+  const validation = validateRecipe(chainResult.output);
+  if (!validation.success || validation.data.ingredients.length === 0) {
+    const issues = validation.success ? [] : validation.issues;
+    log.error("Recipe validation failed", { validation_issues: issues });
+    throw new AnalysisPipelineError(
+      "AI_VALIDATION_FAILED",
+      500,
+      "AI response validation error: Required 'ingredients' field is missing or invalid.",
+      issues
+    );
+  }
+
+  const recipe: AnalysisRecipe = {
+    analysis_id: analysisId,
+    recipe: completeRecipe(validation.data, analysis),
+    analysis_revision: row.revision ?? 0,
+    prompt_version: request.promptVersion,
+    model_id: chainResult.provider.modelId,
+    created_at: new Date().toISOString(),
+  };
+  const { error: saveError } = await supabase
+    .from("analysis_recipes")
+    .upsert(
+      { ...recipe, recipe: recipe.recipe as any, user_id: userId },
+      { onConflict: "analysis_id" }
+    );
+  if (saveError) {
+    log.error("Error saving recipe", { error: saveError });
+    throw new AnalysisPipelineError(
+      "INTERNAL_ERROR",
+      500,
+      "Could not save the recipe."
+    );
+  }
+  log.info("Recipe saved", {
+    analysis_id: analysisId,
+    ingredients: recipe.recipe.ingredients.length,
+    steps: recipe.recipe.steps.length,
+  });
+
+  return recipe;
+}
+
+export interface SuggestionsPipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  // The food_analyses row of the meal
+  analysisId: string;
+  deadline: number; // epoch ms, see analysisDeadline()
+  profile?: DietaryProfile;
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Asks the model for healthier swaps for a stored analysis, keeps the ones
+// that serve the user's goals (see lib/analysis/suggestions.ts) and saves
+// them on the same row, replacing earlier suggestions.
+export async function runSuggestionsPipeline({
+  providers,
+  supabase,
+  userId,
+  analysisId,
+  deadline,
+  profile = EMPTY_DIETARY_PROFILE,
+  log = logger,
+}: SuggestionsPipelineInput): Promise<AnalysisResult> {
+  const { data: row, error: loadError } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    log.error("Error loading analysis for suggestions", { error: loadError });
+  }
+  const original: AnalysisResult | undefined = row?.analysis_result;
+  if (!original?.contains_food) {
+    throw new AnalysisPipelineError(
+      "ANALYSIS_NOT_FOUND",
+      404,
+      "The analysis to suggest swaps for was not found."
+    );
+  }
+
+  const goals = swapGoalsFor(profile);
+  const chainResult = await callProviders(
+    providers,
+    templateRequest(
+      "suggestions",
+      buildSuggestionsPrompt(original, goals, profile)
+    ),
+    deadline,
+    { userId, analysisId },
+    log
+  );
+
+  const validation = validateSwapCandidates(chainResult.output);
+  if (!validation.success) {
+    log.error("Swap suggestions validation failed", {
+      validation_issues: validation.issues,
+    });
+    throw new AnalysisPipelineError(
+      "AI_VALIDATION_FAILED",
+      500,
+      "AI response validation error: Required 'swaps' field is missing or invalid.",
+      validation.issues
+    );
+  }
+
+  const updated: AnalysisResult = {
+    ...original,
+    suggestions: {
+      goals,
+      swaps: rankSwaps(validation.data, goals, profile),
+      suggested_at: new Date().toISOString(),
+    },
+  };
+  const { error: updateError } = await supabase
+    .from("food_analyses")
+    .update({ analysis_result: updated as any })
+    .eq("id", analysisId)
+    .eq("user_id", userId);
+  if (updateError) {
+    log.error("Error saving swap suggestions", { error: updateError });
+    throw new AnalysisPipelineError(
+      "INTERNAL_ERROR",
+      500,
+      "Could not save the swap suggestions."
+    );
+  }
+  log.info("Swap suggestions saved", {
+    analysis_id: analysisId,
+    goals,
+    proposed: validation.data.swaps.length,
+    kept: updated.suggestions!.swaps.length,
+  });
+
+  return { ...updated, analysis_id: analysisId };
+}
+
+export interface CorrectionPipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  // Saves the revision (see createServiceRoleClient); users can't write them
+  serviceClient: SupabaseClient<any>;
+  userId: string;
+  analysisId: string;
+  correction: AnalysisCorrection;
+  deadline: number; // epoch ms, see analysisDeadline()
+  profile?: DietaryProfile;
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Recomputes a stored analysis from the user's corrections and saves it as a
+// new revision. Totals come from the reference table when it knows every
+// ingredient and quantity, otherwise from the model with the corrections as
+// context. The first correction also stores the original as revision 0.
+export async function runCorrectionPipeline({
+  providers,
+  supabase,
+  serviceClient,
+  userId,
+  analysisId,
+  correction,
+  deadline,
+  profile = EMPTY_DIETARY_PROFILE,
+  log = logger,
+}: CorrectionPipelineInput): Promise<AnalysisResult> {
+  const { data: row, error: loadError } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result, model_id, revision")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    log.error("Error loading analysis for correction", { error: loadError });
+  }
+  const original: AnalysisResult | undefined = row?.analysis_result;
+  if (!row || !original?.contains_food) {
+    throw new AnalysisPipelineError(
+      "ANALYSIS_NOT_FOUND",
+      404,
+      "The analysis to correct was not found."
+    );
+  }
+  if (original.source === "label") {
+    throw new AnalysisPipelineError(
+      "CORRECTION_NOT_SUPPORTED",
+      400,
+      "Label scans are read as printed; adjust the servings instead."
+    );
+  }
+
+  let corrected: AnalysisResult;
+  let method: "reference" | "model";
+  const grounded = groundNutrition(draftFromCorrection(original, correction));
+  if (isFullyGrounded(grounded)) {
+    method = "reference";
+    corrected = applyDietaryProfile(
+      crossCheckNutrition({ ...grounded, confidence_score: 1 }, log),
+      profile
+    );
+  } else {
+    method = "model";
+    const result = await produceAnalysis(
+      {
+        providers,
+        userId,
+        analysisId,
+        deadline,
+        profile,
+        log,
+        source: original.source || "photo",
+        request: templateRequest(
+          "correction",
+          buildAnalysisPrompt(profile, buildCorrectionPrompt(correction))
+        ),
+      },
+      () => {}
+    );
+    // The user's names win over whatever the model echoed back
+    corrected = {
+      ...result,
+      dish_name: correction.dish_name,
+      portion_size: correction.portion_size ?? result.portion_size,
+    };
+  }
+
+  const previousRevision: number = row.revision ?? 0;
+  const revision = previousRevision + 1;
+  corrected = {
+    ...reapplyLeftovers(original, corrected),
+    revision: {
+      number: revision,
+      method,
+      corrected_at: new Date().toISOString(),
+    },
+  };
+
+  const revisionRow = {
+    revision,
+    analysis_result: corrected as any,
+    correction,
+    method,
+    ...pipelineColumns(corrected),
+  };
+  const originalRow = {
+    revision: 0,
+    analysis_result: original as any,
+    correction: null,
+    method: "original",
+    ...pipelineColumns(original),
+    model_id: row.model_id,
+  };
+  // Saves the revision and the analysis' new current version together, and
+  // only if nobody corrected it since it was loaded (a compare-and-set on
+  // food_analyses.revision)
+  const { data: saved, error: saveError } = await serviceClient.rpc(
+    "save_analysis_correction",
+    {
+      p_analysis: analysisId,
+      p_user: userId,
+      p_expected_revision: previousRevision,
+      p_result: corrected,
+      p_revisions:
+        previousRevision === 0 ? [originalRow, revisionRow] : [revisionRow],
+    }
+  );
+  if (saveError) {
+    log.error("Error saving corrected analysis", { error: saveError });
+    throw new AnalysisPipelineError(
+      "INTERNAL_ERROR",
+      500,
+      "Could not save the corrected analysis."
+    );
+  }
+  if (saved !== true) {
+    log.warn("Analysis changed during correction", {
+      analysis_id: analysisId,
+      expected_revision: previousRevision,
+    });
+    throw new AnalysisPipelineError(
+      "ANALYSIS_CHANGED",
+      409,
+      "The analysis was changed while this correction was made. Reload it and try again."
+    );
+  }
+  log.info("Analysis corrected", {
+    analysis_id: analysisId,
+    revision,
+    method,
+  });
+
+  return { ...corrected, analysis_id: analysisId };
+}
+
+export interface ClarificationPipelineInput {
+  providers: AnalysisProvider[];
+  supabase: SupabaseClient<any>;
+  userId: string;
+  analysisId: string;
+  answers: ClarificationAnswer[];
+  deadline: number; // epoch ms, see analysisDeadline()
+  profile?: DietaryProfile;
+  // The request's logger (see requestLogger)
+  log?: Logger;
+}
+
+// Re-analyses a low-confidence meal from its original photo or description
+// plus the user's answers to its clarifying questions, and updates the saved
+// result in place.
+export async function runClarificationPipeline({
+  providers,
+  supabase,
+  userId,
+  analysisId,
+  answers,
+  deadline,
+  profile = EMPTY_DIETARY_PROFILE,
+  log = logger,
+}: ClarificationPipelineInput): Promise<AnalysisResult> {
+  const { data: row, error: loadError } = await supabase
+    .from("food_analyses")
+    .select("id, analysis_result, image_url, image_key, meal_description")
+    .eq("id", analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (loadError) {
+    log.error("Error loading analysis for clarification", {
+      error: loadError,
+    });
+  }
+  const original: AnalysisResult | undefined = row?.analysis_result;
+  if (!row || !original?.contains_food) {
+    throw new AnalysisPipelineError(
+      "ANALYSIS_NOT_FOUND",
+      404,
+      "The analysis to clarify was not found."
+    );
+  }
+
+  let answered: NonNullable<AnalysisResult["clarification"]>["answers"];
+  try {
+    const questions = pendingQuestions(original);
+    if (questions.length === 0) {
+      throw new Error("This analysis has no open questions.");
+    }
+    answered = matchAnswers(questions, answers);
+  } catch (matchError: any) {
+    throw new AnalysisPipelineError(
+      "INVALID_CLARIFICATION",
+      400,
+      matchError.message
+    );
+  }
+
+  // The same input as the first analysis, plus the answers
+  let basePrompt: string;
+  let image: AnalysisRequest["image"];
+  if (original.source === "text") {
+    basePrompt = buildMealDescriptionPrompt(row.meal_description || "");
+  } else {
+    const { imageBuffer, mimeType } = await fetchImage(
+      await storedImageUrl(row, userId, log),
+      log
+    );
+    basePrompt = ANALYSIS_PROMPT_TEXT;
+    image = { mimeType, data: imageBuffer.toString("base64") };
+  }
+
+  const result = await produceAnalysis(
+    {
+      providers,
+      userId,
+      analysisId,
+      deadline,
+      profile,
+      log,
+      source: original.source || "photo",
+      request: templateRequest(
+        "clarification",
+        buildAnalysisPrompt(
+          profile,
+          buildClarificationPrompt(basePrompt, answered)
+        ),
+        image
+      ),
+    },
+    () => {}
+  );
+  const clarified = reapplyLeftovers(original, {
+    ...result,
+    clarification: {
+      answers: answered,
+      clarified_at: new Date().toISOString(),
+    },
+  });
+
+  const { error: updateError } = await supabase
+    .from("food_analyses")
+    .update({
+      analysis_result: clarified as any,
+      ...pipelineColumns(clarified),
+    })
+    .eq("id", analysisId)
+    .eq("user_id", userId);
+  if (updateError) {
+    log.error("Error saving clarified analysis", { error: updateError });
+    throw new AnalysisPipelineError(
+      "INTERNAL_ERROR",
+      500,
+      "Could not save the updated analysis."
+    );
+  }
+  log.info("Analysis clarified", {
+    analysis_id: analysisId,
+    answers: answered.length,
+    confidence_before: original.confidence_score,
+    confidence_after: clarified.confidence_score,
+  });
+
+  return { ...clarified, analysis_id: analysisId };
+}
+
+// Label scans come back as LabelFacts; convert them for the servings eaten
+function validateLabelResult(
+  raw: unknown,
+  servings: number
+): AnalysisValidation {
+  const validation = validateLabelFacts(raw);
+  if (!validation.success) return validation;
+  return {
+    success: true,
+    data: labelToAnalysisResult(validation.data, servings),
+    issues: validation.issues,
+  };
+}
+
+// Step 5: the provider chain, with failures mapped to pipeline errors. Every
+// attempt is saved as a usage event, whether or not the chain succeeded.
+async function callProviders(
+  providers: AnalysisProvider[],
+  request: Omit<AnalysisRequest, "timeoutMs">,
+  deadline: number,
+  usageContext: UsageContext,
+  log: Logger
+): Promise<ChainResult> {
+  const span = log.span("call_providers", {
+    prompt_id: request.promptId,
+    prompt_version: request.promptVersion,
+    models: providers.map((provider) => provider.modelId),
+  });
+  try {
+    const chainResult = await analyzeWithFallback(providers, request, {
+      policy: retryPolicy,
+      deadline,
+      log,
+    });
+    span.end({
+      provider: chainResult.provider.name,
+      model: chainResult.provider.modelId,
+      attempts: chainResult.attempts.length,
+      usage: chainResult.usage,
+    });
+    await recordUsageEvents(usageContext, request, chainResult.attempts);
+    return chainResult;
+  } catch (providerError: any) {
+    span.fail(providerError, {
+      attempts:
+        providerError instanceof ProviderChainError
+          ? providerError.attempts.length
+          : 0,
+    });
+    if (providerError instanceof ProviderChainError) {
+      await recordUsageEvents(usageContext, request, providerError.attempts);
+    }
+    const attempts =
+      providerError instanceof ProviderChainError
+        ? providerError.attempts.length
+        : 0;
+    if (Date.now() >= deadline) {
+      throw new AnalysisPipelineError(
+        "AI_TIMEOUT",
+        504,
+        `AI analysis did not finish within the time limit (${attempts} attempt(s)).`
+      );
+    }
+    // The last provider's reason for an unusable response, if it gave one
+    const lastError =
+      providerError instanceof ProviderChainError
+        ? providerError.lastError
+        : providerError;
+    if (lastError instanceof AnalysisProviderError && lastError.reason) {
+      throw lastError.reason === "safety"
+        ? new AnalysisPipelineError(
+            "AI_SAFETY_BLOCK",
+            422,
+            "The AI declined to analyze this image. Try a different photo."
+          )
+        : new AnalysisPipelineError(
+            "AI_BAD_JSON",
+            502,
+            `Could not process AI response: ${lastError.message}`
+          );
+    }
+    throw new AnalysisPipelineError(
+      "AI_PROVIDER_ERROR",
+      500,
+      `Could not process AI response: ${
+        providerError.message || "Unknown AI error"
+      }`
+    );
+  }
+}
+
+// Ingredient numbers are grounded in the reference database where possible,
+// plate totals are recomputed from the detected items, and total_calories is
+// reconciled with the macros and ingredient calories
+function crossCheckNutrition(
+  result: AnalysisResult,
+  log: Logger
+): AnalysisResult {
+  const checked = checkNutritionConsistency(
+    computePlateTotals(groundNutrition(result)),
+    consistencyOptions
+  );
+  const consistency = checked.consistency;
+  if (consistency && consistency.status !== "ok") {
+    log.warn("Nutrition consistency check", {
+      status: consistency.status,
+      warnings: consistency.warnings,
+    });
+  }
+  return checked;
+}
+
+interface ProduceAnalysisInput extends UsageContext {
+  providers: AnalysisProvider[];
+  deadline: number;
+  profile: DietaryProfile;
+  log: Logger;
+  source: AnalysisSource;
+  servings?: number; // label scans only
+  // Keep the model's clarifying questions when it isn't confident (first
+  // analyses of a meal only)
+  clarify?: boolean;
+  request: Omit<AnalysisRequest, "timeoutMs">;
+}
+
+// Steps 5-6: model call, validation, standardisation and nutrition checks
+async function produceAnalysis(
+  {
+    providers,
+    userId,
+    analysisId,
+    deadline,
+    profile,
+    log,
+    source,
+    servings = 1,
+    clarify = false,
+    request,
+  }: ProduceAnalysisInput,
+  emit: (event: AnalysisStreamEvent) => void
+): Promise<AnalysisResult> {
+  // --- Step 5: Call Analysis Providers (with retries/fallbacks) & Parse Response ---
+  const chainResult = await callProviders(
+    providers,
+    request,
+    deadline,
+    { userId, analysisId },
+    log
+  );
+  const { output: rawOutput, provider: answeredBy } = chainResult;
+  emit({
+    type: "model_responded",
+    data: { provider: answeredBy.name, model: answeredBy.modelId },
+  });
+
+  // Validate against the shared schema, repairing what can be repaired.
+  // Label scans are validated as LabelFacts and then converted.
+  const validateSpan = log.span("validate");
+  const validation =
+    source === "label"
+      ? validateLabelResult(rawOutput, servings)
+      : validateAnalysisResult(rawOutput);
+  validateSpan.end({
+    success: validation.success,
+    validation_issues: validation.issues,
+  });
+  if (!validation.success) {
+    throw new AnalysisPipelineError(
+      "AI_VALIDATION_FAILED",
+      500,
+      `AI response validation error: Required '${
+        source === "label" ? "is_label" : "contains_food"
+      }' field is missing or invalid.`,
+      validation.issues
+    );
+  }
+  const analysisResult: AnalysisResult = {
+    ...validation.data,
+    source,
+    validation_issues: validation.issues,
+    // Record which model and prompt finally produced the answer
+    analyzed_by: {
+      provider: answeredBy.name,
+      model: answeredBy.modelId,
+      attempts: chainResult.attempts.length,
+      prompt_id: request.promptId,
+      prompt_version: request.promptVersion,
+      latency_ms: chainResult.latencyMs,
+      usage: chainResult.usage,
+    },
+  };
+  emit({
+    type: "partial",
+    data: {
+      contains_food: analysisResult.contains_food,
+      dish_name: analysisResult.dish_name,
+      cuisine: analysisResult.cuisine,
+    },
+  });
+
+  // --- Step 6: Prepare Standardized Final Result ---
+  const standardizeSpan = log.span("standardize");
+  let finalResult = standardizeAnalysisResult(analysisResult);
+  // Printed label values are taken as they are; estimates are cross-checked
+  if (source !== "label") {
+    finalResult = crossCheckNutrition(finalResult, log);
+  }
+
+  finalResult.clarifying_questions = clarify
+    ? selectClarifyingQuestions(finalResult, clarifyBelowConfidence)
+    : undefined;
+
+  // Flag conflicts with the caller's allergens and dietary preferences
+  finalResult = applyDietaryProfile(finalResult, profile);
+  standardizeSpan.end({
+    contains_food: finalResult.contains_food,
+    confidence_score: finalResult.confidence_score,
+  });
+  return finalResult;
+}
+
+// The analyzed_by details as food_analyses / food_analysis_revisions columns,
+// so history can be filtered by pipeline version without unpacking the JSON
+function pipelineColumns({ analyzed_by }: AnalysisResult) {
+  return {
+    model_id: analyzed_by?.model ?? null,
+    prompt_id: analyzed_by?.prompt_id ?? null,
+    prompt_version: analyzed_by?.prompt_version ?? null,
+    latency_ms: analyzed_by?.latency_ms ?? null,
+    input_tokens: analyzed_by?.usage?.input_tokens ?? null,
+    output_tokens: analyzed_by?.usage?.output_tokens ?? null,
+  };
+}
+
+interface AnalyzeAndSaveInput
+  extends Omit<ProduceAnalysisInput, "analysisId"> {
+  supabase: SupabaseClient<any>;
+  // Input-specific food_analyses columns (image_url, image_hash, ...)
+  row: Record<string, unknown>;
+}
+
+// Steps 5-7, shared by photo and text analyses. The row's id is chosen up
+// front so the usage events of the model call can refer to it.
+async function analyzeAndSave(
+  { row, supabase, ...input }: AnalyzeAndSaveInput,
+  emit: (event: AnalysisStreamEvent) => void
+): Promise<AnalysisResult> {
+  const { userId, log } = input;
+  const analysisId = randomUUID();
+  const finalResult = await produceAnalysis({ ...input, analysisId }, emit);
+  emit({ type: "validated", data: finalResult });
+
+  // --- Step 7: Save Analysis to Database (Conditional) ---
+  const span = log.span("save");
+  let saved = false;
+  if (finalResult.contains_food) {
+    try {
+      const insertData = {
+        id: analysisId,
+        user_id: userId,
+        ...row,
+        analysis_result: finalResult as any,
+        ...pipelineColumns(finalResult),
+      };
+      const { data: inserted, error: dbError } = await supabase
+        .from("food_analyses")
+        .insert(insertData)
+        .select("id")
+        .single();
+      if (dbError) {
+        log.error("Error saving analysis to database", { error: dbError });
+      } else {
+        saved = true;
+        finalResult.analysis_id = inserted.id;
+      }
+    } catch (dbCatchError: any) {
+      log.error("CRITICAL error during database insertion attempt", {
+        error: dbCatchError,
+      });
+    }
+  }
+  // Nothing is saved when no food was detected
+  span.end({ saved, analysis_id: finalResult.analysis_id });
+  emit({ type: "saved", data: { saved } });
+
+  return finalResult;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { computePlateTotals, itemCalories } from "./plate";
+
+describe("itemCalories", () => {
+  it("prefers the item's own calories", () => {
+    expect(
+      itemCalories({
+        name: "Dosa",
+        calories: 370,
+        ingredients: [{ name: "Batter", quantity: "150g", calories: 250 }],
+      })
+    ).toBe(370);
+  });
+
+  it("falls back to the ingredients the model gave calories for", () => {
+    expect(
+      itemCalories({
+        name: "Dosa",
+        ingredients: [
+          { name: "Batter", quantity: "150g", calories: 250 },
+          { name: "Ghee", quantity: "1 tsp" },
+          { name: "Potato masala", quantity: "100g", calories: 120 },
+        ],
+      })
+    ).toBe(370);
+    expect(
+      itemCalories({
+        name: "Water",
+        ingredients: [{ name: "Water", quantity: "1 glass" }],
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("computePlateTotals", () => {
+  it("sums the items instead of trusting the model's totals", () => {
+    const result = computePlateTotals({
+      contains_food: true,
+      total_calories: 900,
+      macros: { protein: 40 },
+      allergens: ["Tree nuts"],
+      ingredients: [{ name: "Everything", quantity: "1 plate" }],
+      items: [
+        {
+          name: "Dosa",
+          calories: 370.4,
+          macros: { protein: 8.04, fat: 10 },
+          allergens: ["gluten"],
+          ingredients: [{ name: "Batter", quantity: "150g", calories: 250 }],
+        },
+        {
+          name: "Chutney",
+          calories: 60,
+          macros: { protein: 1.02 },
+          allergens: ["tree nuts"],
+          ingredients: [{ name: "Coconut", quantity: "30g", calories: 60 }],
+        },
+      ],
+    });
+    expect(result.total_calories).toBe(430);
+    expect(result.macros).toMatchObject({ protein: 9.1, fat: 10 });
+    expect(result.macros?.carbs).toBeUndefined();
+    // Merged case-insensitively, the first spelling wins
+    expect(result.allergens).toEqual(["Tree nuts", "gluten"]);
+    expect(result.ingredients?.map((ingredient) => ingredient.name)).toEqual([
+      "Batter",
+      "Coconut",
+    ]);
+  });
+
+  it("keeps the model's values where no item has any", () => {
+    const result = computePlateTotals({
+      contains_food: true,
+      total_calories: 300,
+      macros: { protein: 12 },
+      items: [{ name: "Thali" }],
+    });
+    expect(result.total_calories).toBe(300);
+    expect(result.macros).toEqual({ protein: 12 });
+  });
+
+  it("leaves results without items alone", () => {
+    const result = { contains_food: true, total_calories: 250 };
+    expect(computePlateTotals(result)).toBe(result);
+  });
+});
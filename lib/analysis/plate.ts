@@ -0,0 +1,66 @@
+// lib/analysis/plate.ts
+import type { AnalysisResult, FoodItem, Macros } from "./schema";
+
+export const MACRO_KEYS: (keyof Macros)[] = [
+  "protein",
+  "carbs",
+  "fiber",
+  "fat",
+  "saturated_fat",
+  "unsaturated_fat",
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// An item's calories, falling back to the sum of its ingredients when the model left it out
+export function itemCalories(item: FoodItem): number | undefined {
+  if (typeof item.calories === "number") return item.calories;
+  const known = (item.ingredients || []).filter(
+    (ingredient) => typeof ingredient.calories === "number"
+  );
+  if (known.length === 0) return undefined;
+  return known.reduce((sum, ingredient) => sum + (ingredient.calories || 0), 0);
+}
+
+// Plate-level totals are derived from the detected items rather than trusted
+// from the model: calories and macros are summed, allergens and ingredients merged.
+// Results without items are returned unchanged.
+export function computePlateTotals(result: AnalysisResult): AnalysisResult {
+  const items = result.items || [];
+  if (items.length === 0) return result;
+
+  const calories = items
+    .map(itemCalories)
+    .filter((value): value is number => typeof value === "number");
+
+  const macros: Macros = {};
+  for (const key of MACRO_KEYS) {
+    const values = items
+      .map((item) => item.macros?.[key])
+      .filter((value): value is number => typeof value === "number");
+    macros[key] = values.length
+      ? round1(values.reduce((sum, value) => sum + value, 0))
+      : undefined;
+  }
+
+  const allergens = new Map<string, string>();
+  for (const allergen of [
+    ...(result.allergens || []),
+    ...items.flatMap((item) => item.allergens || []),
+  ]) {
+    const key = allergen.toLowerCase();
+    if (!allergens.has(key)) allergens.set(key, allergen);
+  }
+
+  return {
+    ...result,
+    total_calories: calories.length
+      ? Math.round(calories.reduce((sum, value) => sum + value, 0))
+      : result.total_calories,
+    macros: items.some((item) => item.macros) ? macros : result.macros,
+    allergens: [...allergens.values()],
+    ingredients: items.some((item) => item.ingredients?.length)
+      ? items.flatMap((item) => item.ingredients || [])
+      : result.ingredients,
+  };
+}
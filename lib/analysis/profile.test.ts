@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyDietaryProfile,
+  isPersonalizedFor,
+  listedAllergenIn,
+  type DietaryProfile,
+} from "./profile";
+import type { AnalysisResult } from "./schema";
+
+const profile: DietaryProfile = {
+  allergens: ["Peanuts", "Tree Nuts"],
+  dietaryPreferences: ["Vegetarian"],
+};
+
+const satay: AnalysisResult = {
+  contains_food: true,
+  dish_name: "Chicken satay",
+  ingredients: [
+    { name: "Chicken", quantity: "150g" },
+    { name: "Roasted peanut sauce", quantity: "3 tbsp" },
+  ],
+};
+
+describe("applyDietaryProfile", () => {
+  it("warns about listed allergens the model did not flag", () => {
+    const result = applyDietaryProfile(satay, profile);
+    expect(result.warnings).toEqual([
+      {
+        kind: "allergen",
+        constraint: "Peanuts",
+        message: "Contains peanuts — listed allergen",
+        item: undefined,
+      },
+    ]);
+    expect(result.personalized_for).toEqual({
+      allergens: ["Peanuts", "Tree Nuts"],
+      dietary_preferences: ["Vegetarian"],
+    });
+  });
+
+  it("names the plate item an allergen was found in", () => {
+    const result = applyDietaryProfile(
+      {
+        contains_food: true,
+        items: [
+          { name: "Rice", ingredients: [{ name: "Rice", quantity: "1 cup" }] },
+          { name: "Kheer", allergens: ["cashews"] },
+        ],
+      },
+      { allergens: ["cashew"], dietaryPreferences: [] }
+    );
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ constraint: "cashew", item: "Kheer" }),
+    ]);
+  });
+
+  it("keeps the model's warnings for the profile without duplicating them", () => {
+    const result = applyDietaryProfile(
+      {
+        ...satay,
+        warnings: [
+          {
+            kind: "allergen",
+            constraint: "peanut",
+            message: "Peanut sauce",
+          },
+          {
+            kind: "diet",
+            constraint: "vegetarian",
+            message: "Contains chicken",
+          },
+        ],
+      },
+      profile
+    );
+    expect(result.warnings?.map((warning) => warning.message)).toEqual([
+      "Peanut sauce",
+      "Contains chicken",
+    ]);
+  });
+
+  it("drops warnings for constraints that are not in the profile", () => {
+    const result = applyDietaryProfile(
+      {
+        ...satay,
+        warnings: [
+          { kind: "allergen", constraint: "Shellfish", message: "Prawns" },
+          { kind: "diet", constraint: "Vegan", message: "Contains chicken" },
+        ],
+      },
+      { allergens: [], dietaryPreferences: ["Vegetarian"] }
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("does not look for allergens in results without food", () => {
+    const result = applyDietaryProfile(
+      { contains_food: false, allergens: ["peanuts"] },
+      profile
+    );
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe("listedAllergenIn", () => {
+  it("matches whole words regardless of case and plurals", () => {
+    expect(listedAllergenIn("Mixed tree nut brittle", profile)).toBe(
+      "Tree Nuts"
+    );
+    expect(listedAllergenIn("PEANUT butter", profile)).toBe("Peanuts");
+    expect(listedAllergenIn("Peanutty cookies", profile)).toBeUndefined();
+  });
+});
+
+describe("isPersonalizedFor", () => {
+  it("compares the stored constraints ignoring order and spelling", () => {
+    const result = applyDietaryProfile(satay, profile);
+    expect(
+      isPersonalizedFor(result, {
+        allergens: ["tree nut", "peanut"],
+        dietaryPreferences: ["vegetarian"],
+      })
+    ).toBe(true);
+    expect(
+      isPersonalizedFor(result, { ...profile, dietaryPreferences: [] })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+// lib/analysis/profile.ts
+// The caller's allergens and dietary preferences (edited on the Settings page),
+// used to personalise the prompt and to flag conflicts in the result.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { type Logger, logger } from "../logger";
+import type { AnalysisResult, DietaryWarning } from "./schema";
+
+export interface DietaryProfile {
+  allergens: string[];
+  dietaryPreferences: string[];
+}
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = {
+  allergens: [],
+  dietaryPreferences: [],
+};
+
+// Profile entries are free text typed by the user; keep them short and on one line
+// before they go anywhere near the prompt.
+const cleanEntries = (values: unknown): string[] =>
+  Array.isArray(values)
+    ? values
+        .filter((value): value is string => typeof value === "string")
+        .map((value) => value.replace(/\s+/g, " ").trim().slice(0, 60))
+        .filter(Boolean)
+    : [];
+
+// Missing profiles and lookup failures fall back to an unpersonalised analysis
+export async function loadDietaryProfile(
+  supabase: SupabaseClient<any>,
+  userId: string,
+  log: Logger = logger
+): Promise<DietaryProfile> {
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("allergens, dietary_preferences")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    log.error("Could not load dietary profile", { error });
+    return EMPTY_DIETARY_PROFILE;
+  }
+  return {
+    allergens: cleanEntries(data?.allergens),
+    dietaryPreferences: cleanEntries(data?.dietary_preferences),
+  };
+}
+
+export function hasDietaryConstraints(profile: DietaryProfile): boolean {
+  return profile.allergens.length > 0 || profile.dietaryPreferences.length > 0;
+}
+
+// Lowercase, punctuation-free and roughly singular: "Tree Nuts" -> "tree nut"
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/(\w+?)(es|s)\b/g, "$1");
+
+const sameEntries = (a: string[] = [], b: string[] = []) =>
+  a.map(normalize).sort().join("|") === b.map(normalize).sort().join("|");
+
+// A stored result can only be reused if it was personalised for the same constraints
+export function isPersonalizedFor(
+  result: AnalysisResult,
+  profile: DietaryProfile
+): boolean {
+  return (
+    sameEntries(result.personalized_for?.allergens, profile.allergens) &&
+    sameEntries(
+      result.personalized_for?.dietary_preferences,
+      profile.dietaryPreferences
+    )
+  );
+}
+
+// Whole-word, plural-insensitive match: "peanut" finds "Roasted peanuts"
+const mentions = (haystack: string, needle: string) =>
+  ` ${normalize(haystack)} `.includes(` ${normalize(needle)} `);
+
+// The first of the profile's allergens that `text` mentions, if any
+export function listedAllergenIn(
+  text: string,
+  profile: DietaryProfile
+): string | undefined {
+  return profile.allergens.find((allergen) => mentions(text, allergen));
+}
+
+// Adds the profile to the result and makes sure every listed allergen the
+// result mentions is warned about, whether or not the model flagged it.
+export function applyDietaryProfile(
+  result: AnalysisResult,
+  profile: DietaryProfile
+): AnalysisResult {
+  const warnings: DietaryWarning[] = (result.warnings || []).filter(
+    (warning) =>
+      (warning.kind === "allergen"
+        ? profile.allergens
+        : profile.dietaryPreferences
+      ).some((entry) => normalize(entry) === normalize(warning.constraint))
+  );
+
+  if (result.contains_food) {
+    const sources = [
+      ...(result.items || []).map((item) => ({
+        item: item.name,
+        texts: [
+          item.name,
+          ...(item.allergens || []),
+          ...(item.ingredients || []).map((ingredient) => ingredient.name),
+        ],
+      })),
+      {
+        item: undefined,
+        texts: [
+          ...(result.allergens || []),
+          ...(result.ingredients || []).map((ingredient) => ingredient.name),
+        ],
+      },
+    ];
+
+    for (const allergen of profile.allergens) {
+      const alreadyWarned = warnings.some(
+        (warning) =>
+          warning.kind === "allergen" &&
+          normalize(warning.constraint) === normalize(allergen)
+      );
+      if (alreadyWarned) continue;
+      const source = sources.find(({ texts }) =>
+        texts.some((text) => mentions(text, allergen))
+      );
+      if (source) {
+        warnings.push({
+          kind: "allergen",
+          constraint: allergen,
+          message: `Contains ${allergen.toLowerCase()} — listed allergen`,
+          item: source.item,
+        });
+      }
+    }
+  }
+
+  return {
+    ...result,
+    warnings,
+    personalized_for: {
+      allergens: profile.allergens,
+      dietary_preferences: profile.dietaryPreferences,
+    },
+  };
+}
@@ -0,0 +1,191 @@
+// lib/analysis/providers/gemini.ts
+import {
+  FinishReason,
+  GenerateContentResponse,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import { logger } from "../../logger";
+import { parseAnalysisJson } from "../parse";
+import type { ReplayKey, ReplayStore } from "../replay";
+import { analysisResponseSchema } from "../response-schema";
+import { PROMPT_TEMPLATES } from "../templates";
+import {
+  type AnalysisProvider,
+  AnalysisProviderError,
+  type AnalysisRequest,
+  type AnalysisResponse,
+  type RawAnalysisOutput,
+  type TokenUsage,
+  withUsage,
+} from "../types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash-latest";
+
+export interface GeminiProviderOptions {
+  modelId?: string;
+  // When set, raw responses are recorded to / replayed from disk
+  replay?: ReplayStore<GenerateContentResponse> | null;
+}
+
+// Stops where the model refused to answer
+const SAFETY_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// Checks the candidate/finish reason of a raw Gemini response and parses its JSON
+export function interpretGeminiResponse(
+  response: GenerateContentResponse
+): RawAnalysisOutput {
+  const candidate = response?.candidates?.[0];
+  if (!candidate) {
+    const blockReason = response?.promptFeedback?.blockReason;
+    throw new AnalysisProviderError(
+      blockReason
+        ? `AI analysis blocked: ${blockReason}`
+        : "AI analysis failed: No candidates returned.",
+      { retryable: !blockReason, reason: blockReason ? "safety" : undefined }
+    );
+  }
+  if (
+    candidate.finishReason &&
+    ![FinishReason.STOP, FinishReason.MAX_TOKENS].includes(
+      candidate.finishReason
+    )
+  ) {
+    // SAFETY / RECITATION stops won't change on retry; let the chain try another model
+    throw new AnalysisProviderError(
+      `AI analysis stopped unexpectedly (finish reason: ${candidate.finishReason}).`,
+      {
+        retryable: false,
+        reason: SAFETY_FINISH_REASONS.includes(candidate.finishReason)
+          ? "safety"
+          : undefined,
+      }
+    );
+  }
+
+  const text = candidate.content?.parts?.[0]?.text;
+  if (!text) {
+    throw new AnalysisProviderError(
+      "AI analysis failed: Response format unexpected (missing text content).",
+      { retryable: false, reason: "bad_json" }
+    );
+  }
+  return parseAnalysisJson(text);
+}
+
+function geminiTokenUsage(
+  usage: UsageMetadata | undefined
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    input_tokens: usage.promptTokenCount ?? 0,
+    output_tokens: usage.candidatesTokenCount ?? 0,
+    total_tokens: usage.totalTokenCount,
+  };
+}
+
+export class GeminiProvider implements AnalysisProvider {
+  readonly name = "gemini";
+  readonly modelId: string;
+  private model: GenerativeModel;
+  private replay: ReplayStore<GenerateContentResponse> | null;
+
+  constructor(apiKey: string, options: GeminiProviderOptions = {}) {
+    this.modelId = options.modelId || DEFAULT_GEMINI_MODEL;
+    this.replay = options.replay ?? null;
+    const genAI = new GoogleGenerativeAI(apiKey);
+    this.model = genAI.getGenerativeModel({
+      model: this.modelId,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: analysisResponseSchema,
+      },
+    });
+  }
+
+  async analyze(request: AnalysisRequest): Promise<AnalysisResponse> {
+    const response = await this.generate(request);
+    const usage = geminiTokenUsage(response.usageMetadata);
+    try {
+      return { output: interpretGeminiResponse(response), usage };
+    } catch (error) {
+      throw withUsage(error, usage);
+    }
+  }
+
+  // Fetches the raw response: from a fixture in replay mode, otherwise from the API
+  private async generate({
+    promptText,
+    promptVersion,
+    promptId,
+    image,
+    timeoutMs,
+  }: AnalysisRequest): Promise<GenerateContentResponse> {
+    const replayKey: ReplayKey = {
+      image: image?.data,
+      promptText,
+      promptVersion,
+      modelId: this.modelId,
+    };
+    if (this.replay?.mode === "replay") {
+      logger.info("Replaying recorded Gemini response", {
+        prompt_version: promptVersion,
+        model: this.modelId,
+      });
+      return this.replay.load(replayKey);
+    }
+
+    const result = await this.model.generateContent(
+      {
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: promptText },
+              ...(image
+                ? [
+                    {
+                      inlineData: {
+                        mimeType: image.mimeType,
+                        data: image.data,
+                      },
+                    },
+                  ]
+                : []),
+            ],
+          },
+        ],
+        // The model defaults to the meal schema; use the template's instead
+        ...(promptId && {
+          generationConfig: {
+            responseMimeType: "application/json",
+            responseSchema: PROMPT_TEMPLATES[promptId].responseSchema,
+          },
+        }),
+      },
+      { timeout: timeoutMs }
+    );
+    // `result.response` carries SDK helper methods; keep only the plain data
+    const response: GenerateContentResponse = JSON.parse(
+      JSON.stringify(result.response)
+    );
+
+    if (this.replay?.mode === "record") {
+      try {
+        await this.replay.save(replayKey, response);
+      } catch (recordError: any) {
+        logger.error("Failed to record Gemini response", {
+          error: recordError,
+        });
+      }
+    }
+    return response;
+  }
+}
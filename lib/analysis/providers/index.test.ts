@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createAnalysisProvider,
+  createAnalysisProvidersFromEnv,
+  MockProvider,
+} from ".";
+
+const env = (values: Record<string, string>) =>
+  ({ NODE_ENV: "test", ...values }) as NodeJS.ProcessEnv;
+
+describe("createAnalysisProvider", () => {
+  it("builds the named provider with its configured model", () => {
+    const provider = createAnalysisProvider(
+      "openai-compatible",
+      env({
+        OPENAI_COMPAT_BASE_URL: "http://localhost:11434/v1",
+        OPENAI_COMPAT_MODEL: "llava",
+      })
+    );
+    expect(provider.name).toBe("openai-compatible");
+    expect(provider.modelId).toBe("llava");
+  });
+
+  it("lets a fallback entry override the model", () => {
+    const provider = createAnalysisProvider(
+      "gemini",
+      env({ GOOGLE_API_KEY: "key", GEMINI_MODEL: "gemini-1.5-flash" }),
+      "gemini-1.5-pro"
+    );
+    expect(provider.modelId).toBe("gemini-1.5-pro");
+  });
+
+  it("refuses providers that are unknown or not configured", () => {
+    expect(() => createAnalysisProvider("gemini", env({}))).toThrow(
+      "GOOGLE_API_KEY"
+    );
+    expect(() => createAnalysisProvider("openai-compatible", env({}))).toThrow(
+      "OPENAI_COMPAT_BASE_URL"
+    );
+    expect(() => createAnalysisProvider("claude", env({}))).toThrow(
+      'Unknown analysis provider: "claude".'
+    );
+  });
+});
+
+describe("createAnalysisProvidersFromEnv", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const chain = (values: Record<string, string>) =>
+    createAnalysisProvidersFromEnv(env(values)).map(
+      (provider) => `${provider.name}:${provider.modelId}`
+    );
+
+  it("puts the primary first, then the fallbacks in order", () => {
+    expect(
+      chain({
+        ANALYSIS_PROVIDER: "mock",
+        ANALYSIS_FALLBACKS: " mock:mock-v2 ,, gemini:gemini-1.5-pro",
+        GOOGLE_API_KEY: "key",
+      })
+    ).toEqual(["mock:mock-v1", "mock:mock-v2", "gemini:gemini-1.5-pro"]);
+  });
+
+  it("defaults to Gemini", () => {
+    expect(chain({ GOOGLE_API_KEY: "key" })).toEqual([
+      "gemini:gemini-1.5-flash-latest",
+    ]);
+  });
+
+  it("skips fallbacks that can't be configured", () => {
+    expect(
+      chain({ ANALYSIS_PROVIDER: "mock", ANALYSIS_FALLBACKS: "gemini,mock" })
+    ).toEqual(["mock:mock-v1", "mock:mock-v1"]);
+  });
+
+  it("returns no providers when the primary can't be configured", () => {
+    expect(chain({ ANALYSIS_FALLBACKS: "mock" })).toEqual([]);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe("MockProvider", () => {
+  const image = (data: string) => ({
+    mimeType: "image/jpeg",
+    data: Buffer.from(data).toString("base64"),
+  });
+
+  it("answers the same image with the same result", async () => {
+    const provider = new MockProvider();
+    const request = { promptText: "Analyze", promptVersion: "test" };
+    const first = await provider.analyze({ ...request, image: image("a") });
+    const again = await provider.analyze({ ...request, image: image("a") });
+    expect(again.output).toEqual(first.output);
+    expect(first.output).toHaveProperty("contains_food");
+    expect(first.usage?.input_tokens).toBeGreaterThan(258);
+  });
+
+  it("answers other tasks in their own shape", async () => {
+    const { output } = await new MockProvider().analyze({
+      promptText: "Write a recipe",
+      promptVersion: "test",
+      task: "recipe",
+    });
+    expect(output).toMatchObject({ title: expect.any(String), servings: 2 });
+  });
+
+  it("hands out copies of its fixtures", async () => {
+    const provider = new MockProvider();
+    const request = { promptText: "Soup", promptVersion: "test" };
+    const first = await provider.analyze(request);
+    (first.output as Record<string, unknown>).dish_name = "Changed";
+    const again = await provider.analyze(request);
+    expect(again.output).not.toHaveProperty("dish_name", "Changed");
+  });
+});
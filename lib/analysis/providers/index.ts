@@ -0,0 +1,99 @@
+// lib/analysis/providers/index.ts
+import type { GenerateContentResponse } from "@google/generative-ai";
+import { logger } from "../../logger";
+import { createReplayStoreFromEnv } from "../replay";
+import type { AnalysisProvider } from "../types";
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+export { GeminiProvider, MockProvider, OpenAICompatibleProvider };
+
+export type AnalysisProviderName = "gemini" | "openai-compatible" | "mock";
+
+// Builds a provider by name, reading its settings from the environment.
+// `modelId` overrides the provider's configured model (used by fallback entries).
+// Throws if the selected provider is missing required configuration.
+export function createAnalysisProvider(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env,
+  modelId?: string
+): AnalysisProvider {
+  switch (name) {
+    case "gemini": {
+      const replay = createReplayStoreFromEnv<GenerateContentResponse>(env);
+      // Replaying recorded responses never reaches the API, so no key is needed
+      if (!env.GOOGLE_API_KEY && replay?.mode !== "replay") {
+        throw new Error("GOOGLE_API_KEY environment variable not set.");
+      }
+      return new GeminiProvider(env.GOOGLE_API_KEY || "replay-only", {
+        modelId: modelId || env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+        replay,
+      });
+    }
+    case "openai-compatible": {
+      const compatModel = modelId || env.OPENAI_COMPAT_MODEL;
+      if (!env.OPENAI_COMPAT_BASE_URL || !compatModel) {
+        throw new Error(
+          "OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_MODEL environment variables must be set."
+        );
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: env.OPENAI_COMPAT_BASE_URL,
+        modelId: compatModel,
+        apiKey: env.OPENAI_COMPAT_API_KEY,
+      });
+    }
+    case "mock":
+      return new MockProvider(modelId);
+    default:
+      throw new Error(`Unknown analysis provider: "${name}".`);
+  }
+}
+
+// Ordered provider chain: ANALYSIS_PROVIDER (defaults to Gemini) first, then the
+// comma-separated "provider[:model]" entries of ANALYSIS_FALLBACKS, e.g.
+// "gemini:gemini-1.5-pro-latest,openai-compatible".
+// Returns an empty list and logs if the primary can't be configured, so routes
+// can answer 503; fallbacks that fail to configure are skipped.
+export function createAnalysisProvidersFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AnalysisProvider[] {
+  const entries = [
+    env.ANALYSIS_PROVIDER || "gemini",
+    ...(env.ANALYSIS_FALLBACKS || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+  ];
+
+  const providers: AnalysisProvider[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const [name, ...modelParts] = entry.split(":");
+    try {
+      const provider = createAnalysisProvider(
+        name,
+        env,
+        modelParts.join(":") || undefined
+      );
+      logger.info("Analysis provider initialized", {
+        provider: provider.name,
+        model: provider.modelId,
+        fallback: index > 0,
+      });
+      providers.push(provider);
+    } catch (initError: any) {
+      if (index === 0) {
+        logger.error(
+          `CRITICAL SERVER CONFIG ERROR: Could not initialize analysis provider "${name}". The /api/analyze endpoint WILL NOT WORK.`,
+          { error: initError }
+        );
+        return [];
+      }
+      logger.error(`Skipping fallback analysis provider "${entry}"`, {
+        error: initError,
+      });
+    }
+  }
+  return providers;
+}
@@ -0,0 +1,276 @@
+// lib/analysis/providers/mock.ts
+// Deterministic provider for offline development and CI. No network calls:
+// the same image always maps to the same canned result.
+import { createHash } from "crypto";
+import type {
+  AnalysisProvider,
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisResult,
+  RawAnalysisOutput,
+} from "../types";
+
+const MOCK_RESULTS: AnalysisResult[] = [
+  {
+    contains_food: true,
+    dish_name: "Masala Dosa Plate",
+    cuisine: "South Indian",
+    serving_size: "1 dosa with chutney and sambar",
+    cooking_method: "Pan-fried",
+    ingredients: [
+      { name: "Dosa batter", quantity: "150g", calories: 250 },
+      { name: "Potato masala", quantity: "100g", calories: 120 },
+      { name: "Coconut chutney", quantity: "30g", calories: 60 },
+      { name: "Sambar", quantity: "100ml", calories: 70 },
+    ],
+    items: [
+      {
+        name: "Masala Dosa",
+        portion: "1 dosa",
+        calories: 370,
+        ingredients: [
+          { name: "Dosa batter", quantity: "150g", calories: 250 },
+          { name: "Potato masala", quantity: "100g", calories: 120 },
+        ],
+        macros: { protein: 8, carbs: 62, fiber: 4, fat: 10, saturated_fat: 3 },
+        allergens: [],
+        bounding_box: { x: 0.1, y: 0.2, width: 0.55, height: 0.6 },
+      },
+      {
+        name: "Coconut Chutney",
+        portion: "2 tbsp",
+        calories: 60,
+        ingredients: [
+          { name: "Coconut chutney", quantity: "30g", calories: 60 },
+        ],
+        macros: { protein: 1, carbs: 3, fiber: 1, fat: 5, saturated_fat: 2 },
+        allergens: ["tree nuts"],
+        bounding_box: { x: 0.7, y: 0.15, width: 0.2, height: 0.2 },
+      },
+      {
+        name: "Sambar",
+        portion: "1 small bowl",
+        calories: 70,
+        ingredients: [{ name: "Sambar", quantity: "100ml", calories: 70 }],
+        macros: { protein: 3, carbs: 11, fiber: 2, fat: 1, saturated_fat: 0 },
+        allergens: [],
+        bounding_box: { x: 0.7, y: 0.5, width: 0.25, height: 0.3 },
+      },
+    ],
+    portion_size: "Medium",
+    total_calories: 500,
+    macros: {
+      protein: 12,
+      carbs: 76,
+      fiber: 7,
+      fat: 16,
+      saturated_fat: 5,
+      unsaturated_fat: 10,
+    },
+    micronutrients: {
+      sodium: 1150,
+      sugars: 9,
+      added_sugars: 2,
+      cholesterol: 5,
+      potassium: 820,
+      calcium: 90,
+      iron: 3.2,
+      vitamin_c: 18,
+    },
+    contains_caffeine: false,
+    contains_alcohol: false,
+    portion_comparison: "About the size of a dinner plate",
+    allergens: ["tree nuts"],
+    confidence_score: 0.85,
+  },
+  {
+    contains_food: true,
+    dish_name: "Chicken Caesar Salad",
+    cuisine: "American",
+    serving_size: "1 bowl",
+    cooking_method: "Grilled",
+    ingredients: [
+      { name: "Romaine lettuce", quantity: "100g", calories: 17 },
+      { name: "Grilled chicken breast", quantity: "120g", calories: 200 },
+      { name: "Caesar dressing", quantity: "2 tbsp", calories: 150 },
+      { name: "Parmesan", quantity: "15g", calories: 60 },
+      { name: "Croutons", quantity: "20g", calories: 80 },
+    ],
+    portion_size: "Large",
+    total_calories: 507,
+    macros: {
+      protein: 42,
+      carbs: 16,
+      fiber: 3,
+      fat: 30,
+      saturated_fat: 7,
+      unsaturated_fat: 21,
+    },
+    // Deliberately incomplete, like real model output often is
+    micronutrients: {
+      sodium: 980,
+      sugars: 4,
+      cholesterol: 110,
+      calcium: 240,
+    },
+    contains_caffeine: false,
+    contains_alcohol: false,
+    portion_comparison: "Roughly two cupped hands",
+    allergens: ["dairy", "gluten", "egg", "fish"],
+    // Unsure enough to ask, so the clarifying-question flow works offline
+    confidence_score: 0.55,
+    clarifying_questions: [
+      {
+        id: "dressing",
+        question: "Is the dressing regular or light?",
+        options: ["Regular", "Light", "No dressing"],
+      },
+      {
+        id: "chicken",
+        question: "Was the chicken grilled or fried?",
+        options: ["Grilled", "Fried"],
+      },
+    ],
+  },
+];
+
+// Returned for label scans (task "label"), shaped like LabelFactsSchema
+const MOCK_LABEL: RawAnalysisOutput = {
+  is_label: true,
+  product_name: "Roasted Salted Peanuts",
+  serving_size: "30 g (about 1/4 cup)",
+  serving_size_grams: 30,
+  servings_per_container: 6.5,
+  per_serving: {
+    calories: 176,
+    protein: 7.3,
+    carbs: 4.8,
+    fiber: 2.5,
+    sugars: 1.3,
+    added_sugars: 0,
+    fat: 14.9,
+    saturated_fat: 2.1,
+    trans_fat: 0,
+    cholesterol: 0,
+    sodium: 120,
+  },
+  per_100g: {
+    calories: 587,
+    protein: 24.3,
+    carbs: 16,
+    fiber: 8.3,
+    sugars: 4.3,
+    added_sugars: 0,
+    fat: 49.7,
+    saturated_fat: 7,
+    trans_fat: 0,
+    cholesterol: 0,
+    sodium: 400,
+  },
+  ingredients: ["Peanuts", "Vegetable oil", "Salt"],
+  allergens: ["peanuts"],
+};
+
+// Returned for leftovers photos (task "leftovers"): a quarter of the first
+// item is left, everything else was finished
+const MOCK_LEFTOVERS: RawAnalysisOutput = {
+  items: [{ index: 0, remaining_fraction: 0.25 }],
+  notes: "About a quarter of the first item is left.",
+};
+
+// Returned for recipes (task "recipe"), shaped like RecipeSchema
+const MOCK_RECIPE: RawAnalysisOutput = {
+  title: "Chicken Curry with Basmati Rice",
+  servings: 2,
+  prep_minutes: 15,
+  cook_minutes: 35,
+  ingredients: [
+    { name: "Chicken thighs, boneless", quantity: 300, unit: "g" },
+    { name: "Basmati rice", quantity: 150, unit: "g" },
+    { name: "Onion", quantity: 1, unit: "medium", note: "finely chopped" },
+    { name: "Tomato puree", quantity: 120, unit: "ml" },
+    { name: "Vegetable oil", quantity: 1, unit: "tbsp" },
+    { name: "Curry powder", quantity: 2, unit: "tsp" },
+    { name: "Salt", note: "to taste" },
+  ],
+  steps: [
+    "Rinse the rice and cook it in twice its volume of salted water.",
+    "Fry the onion in the oil until golden, then stir in the curry powder.",
+    "Add the chicken and brown it on all sides.",
+    "Pour in the tomato puree, cover and simmer for 20 minutes.",
+    "Season with salt and serve over the rice.",
+  ],
+};
+
+// Returned for healthier swaps (task "suggestions"), shaped like
+// SwapCandidatesSchema. The rice swap adds calories, so it is dropped unless
+// the user's goal is more protein.
+const MOCK_SWAPS: RawAnalysisOutput = {
+  swaps: [
+    {
+      item: "Fried paneer",
+      replacement: "Grilled paneer",
+      reason: "Grilling needs a fraction of the oil that frying soaks up.",
+      before: { protein: 18, carbs: 6, fat: 32, saturated_fat: 18 },
+      after: { protein: 18, carbs: 4, fat: 14, saturated_fat: 9 },
+    },
+    {
+      item: "Sweetened lassi",
+      replacement: "Salted buttermilk (chaas)",
+      reason: "Same cooling drink without the added sugar.",
+      before: { protein: 8, carbs: 40, fat: 8, saturated_fat: 5 },
+      after: { protein: 5, carbs: 8, fat: 2, saturated_fat: 1 },
+    },
+    {
+      item: "White rice (1 cup)",
+      replacement: "Brown rice (1 cup)",
+      reason: "More fiber for about the same amount of rice.",
+      before: { protein: 4, carbs: 45, fat: 0.4, fiber: 0.6 },
+      after: { protein: 5, carbs: 45, fat: 1.8, fiber: 3.5 },
+    },
+  ],
+};
+
+export class MockProvider implements AnalysisProvider {
+  readonly name = "mock";
+  readonly modelId: string;
+
+  constructor(modelId: string = "mock-v1") {
+    this.modelId = modelId;
+  }
+
+  async analyze({
+    promptText,
+    task,
+    image,
+  }: AnalysisRequest): Promise<AnalysisResponse> {
+    const output = this.fixtureFor(task, image?.data ?? promptText);
+    // Rough token counts (about 4 characters per token, a flat cost per
+    // image), so usage accounting can be exercised offline
+    return {
+      output,
+      usage: {
+        input_tokens: Math.ceil(promptText.length / 4) + (image ? 258 : 0),
+        output_tokens: Math.ceil(JSON.stringify(output).length / 4),
+      },
+    };
+  }
+
+  private fixtureFor(
+    task: AnalysisRequest["task"],
+    input: string
+  ): RawAnalysisOutput {
+    if (task === "label") return JSON.parse(JSON.stringify(MOCK_LABEL));
+    if (task === "leftovers") {
+      return JSON.parse(JSON.stringify(MOCK_LEFTOVERS));
+    }
+    if (task === "recipe") return JSON.parse(JSON.stringify(MOCK_RECIPE));
+    if (task === "suggestions") return JSON.parse(JSON.stringify(MOCK_SWAPS));
+
+    // Text-only requests pick a fixture by their prompt instead
+    const digest = createHash("sha256").update(input).digest();
+    const fixture = MOCK_RESULTS[digest[0] % MOCK_RESULTS.length];
+    // Hand out a copy so callers can't mutate the fixtures
+    return JSON.parse(JSON.stringify(fixture));
+  }
+}
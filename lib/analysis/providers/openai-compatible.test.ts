@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnalysisProviderError, usageOf } from "../types";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+const provider = new OpenAICompatibleProvider({
+  baseUrl: "http://localhost:11434/v1/",
+  modelId: "llava",
+  apiKey: "secret",
+});
+const request = {
+  promptText: "Analyze",
+  promptVersion: "test",
+  image: { mimeType: "image/png", data: "aW1hZ2U=" },
+};
+
+// Answers the next fetch with `body` as JSON
+function respondWith(body: unknown, status = 200) {
+  const fetchMock = vi.fn(
+    async () =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const completion = (content: string, finishReason = "stop") => ({
+  choices: [{ message: { content }, finish_reason: finishReason }],
+  usage: { prompt_tokens: 900, completion_tokens: 120, total_tokens: 1020 },
+});
+
+describe("OpenAICompatibleProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends the prompt and image to the chat completions endpoint", async () => {
+    const fetchMock = respondWith(completion('{"contains_food": true}'));
+    const { output, usage } = await provider.analyze(request);
+
+    expect(output).toEqual({ contains_food: true });
+    expect(usage).toEqual({
+      input_tokens: 900,
+      output_tokens: 120,
+      total_tokens: 1020,
+    });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer secret" });
+    const body = JSON.parse(String(init.body));
+    expect(body.model).toBe("llava");
+    expect(body.messages[0].content[1].image_url.url).toBe(
+      "data:image/png;base64,aW1hZ2U="
+    );
+  });
+
+  it("reports HTTP failures with their status", async () => {
+    respondWith({ error: "overloaded" }, 503);
+    const error = await provider.analyze(request).catch((error) => error);
+    expect(error).toBeInstanceOf(AnalysisProviderError);
+    expect(error.status).toBe(503);
+  });
+
+  it("treats a filtered completion as a safety block, keeping its usage", async () => {
+    respondWith(completion("", "content_filter"));
+    const error = await provider.analyze(request).catch((error) => error);
+    expect(error).toMatchObject({ reason: "safety", retryable: false });
+    expect(usageOf(error)?.input_tokens).toBe(900);
+  });
+
+  it("rejects text that isn't a JSON object", async () => {
+    respondWith(completion("Sorry, I can't tell what this is."));
+    await expect(provider.analyze(request)).rejects.toMatchObject({
+      reason: "bad_json",
+    });
+  });
+});
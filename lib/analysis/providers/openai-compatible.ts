@@ -0,0 +1,131 @@
+// lib/analysis/providers/openai-compatible.ts
+// Talks to any server exposing the OpenAI Chat Completions API with image input
+// (e.g. a locally hosted vision model behind vLLM, Ollama or LM Studio).
+import { parseAnalysisJson } from "../parse";
+import {
+  type AnalysisProvider,
+  AnalysisProviderError,
+  type AnalysisRequest,
+  type AnalysisResponse,
+  type TokenUsage,
+  withUsage,
+} from "../types";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  modelId: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export class OpenAICompatibleProvider implements AnalysisProvider {
+  readonly name = "openai-compatible";
+  readonly modelId: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+
+  constructor({
+    baseUrl,
+    modelId,
+    apiKey,
+    timeoutMs,
+  }: OpenAICompatibleConfig) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.modelId = modelId;
+    this.apiKey = apiKey;
+    this.timeoutMs = timeoutMs ?? 60000;
+  }
+
+  async analyze({
+    promptText,
+    image,
+    timeoutMs,
+  }: AnalysisRequest): Promise<AnalysisResponse> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: AbortSignal.timeout(
+        Math.min(this.timeoutMs, timeoutMs ?? Infinity)
+      ),
+      body: JSON.stringify({
+        model: this.modelId,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: promptText },
+              ...(image
+                ? [
+                    {
+                      type: "image_url",
+                      image_url: {
+                        url: `data:${image.mimeType};base64,${image.data}`,
+                      },
+                    },
+                  ]
+                : []),
+            ],
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response
+        .text()
+        .catch(() => "Could not read error body");
+      throw new AnalysisProviderError(
+        `AI analysis failed: ${response.status} ${response.statusText} - ${errorBody}`,
+        { status: response.status }
+      );
+    }
+
+    const body = await response.json();
+    const usage: TokenUsage | undefined = body?.usage && {
+      input_tokens: body.usage.prompt_tokens ?? 0,
+      output_tokens: body.usage.completion_tokens ?? 0,
+      total_tokens: body.usage.total_tokens,
+    };
+    const choice = body?.choices?.[0];
+    if (
+      choice?.finish_reason &&
+      !["stop", "length"].includes(choice.finish_reason)
+    ) {
+      throw withUsage(
+        new AnalysisProviderError(
+          `AI analysis stopped unexpectedly (finish reason: ${choice.finish_reason}).`,
+          {
+            retryable: false,
+            reason:
+              choice.finish_reason === "content_filter" ? "safety" : undefined,
+          }
+        ),
+        usage
+      );
+    }
+    const text = choice?.message?.content;
+    if (typeof text !== "string" || !text) {
+      throw withUsage(
+        new AnalysisProviderError(
+          "AI analysis failed: Response format unexpected (missing text content).",
+          { retryable: false, reason: "bad_json" }
+        ),
+        usage
+      );
+    }
+    try {
+      return { output: parseAnalysisJson(text), usage };
+    } catch (error) {
+      throw withUsage(error, usage);
+    }
+  }
+}
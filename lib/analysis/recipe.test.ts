@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  completeRecipe,
+  formatQuantity,
+  recipeNutrition,
+  scaleRecipe,
+} from "./recipe";
+import type { AnalysisResult } from "./schema";
+
+const analysis: AnalysisResult = {
+  contains_food: true,
+  dish_name: "Palak paneer",
+  total_calories: 410.4,
+  macros: { protein: 18.26, fat: 28 },
+};
+
+describe("scaleRecipe", () => {
+  it("multiplies every quantity for the servings picked", () => {
+    const recipe = completeRecipe(
+      {
+        servings: 2,
+        ingredients: [
+          { name: "Paneer", quantity: 200, unit: "g" },
+          { name: "Salt" },
+        ],
+      },
+      analysis
+    );
+    const scaled = scaleRecipe(recipe, 3);
+    expect(scaled.servings).toBe(3);
+    expect(scaled.ingredients).toEqual([
+      { name: "Paneer", quantity: 300, unit: "g" },
+      { name: "Salt" },
+    ]);
+  });
+
+  it("fills in the title and servings the model left out", () => {
+    const recipe = completeRecipe({ ingredients: [] }, analysis, 4);
+    expect(recipe).toMatchObject({
+      title: "Palak paneer",
+      servings: 4,
+      steps: [],
+    });
+  });
+});
+
+describe("formatQuantity", () => {
+  it("rounds to kitchen-friendly amounts", () => {
+    expect(formatQuantity(12.4)).toBe("12");
+    expect(formatQuantity(1.5)).toBe("1½");
+    expect(formatQuantity(0.7)).toBe("¾");
+    expect(formatQuantity(2.1)).toBe("2");
+    expect(formatQuantity(0.125)).toBe("0.1");
+  });
+});
+
+describe("recipeNutrition", () => {
+  it("uses the analysis totals per serving", () => {
+    expect(recipeNutrition(analysis, 3)).toEqual({
+      perServing: { calories: 410, macros: { protein: 18.3, fat: 28 } },
+      total: { calories: 1231, macros: { protein: 54.8, fat: 84 } },
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// lib/analysis/recipe.ts
+// Cook-at-home recipes for analysed dishes (POST /api/analyze/recipe). One
+// serving of the recipe is the plate as analysed, so its nutrition is the
+// analysis' own totals rather than a second estimate. Safe to import on the
+// client, where History rescales the recipe to the servings selected.
+import { MACRO_KEYS } from "./plate";
+import type { AnalysisResult, Macros, Recipe } from "./schema";
+
+// Servings the model is asked to write the recipe for
+export const DEFAULT_RECIPE_SERVINGS = 2;
+
+// Upper bound of the servings selector
+export const MAX_RECIPE_SERVINGS = 12;
+
+// A validated recipe with the fields the UI relies on filled in
+export type CompleteRecipe = Recipe & {
+  title: string;
+  servings: number;
+  steps: string[];
+};
+
+// A row of analysis_recipes, as returned by the route
+export interface AnalysisRecipe {
+  analysis_id: string;
+  recipe: CompleteRecipe;
+  // The analysis revision the recipe was written for (0 for the original)
+  analysis_revision: number;
+  prompt_version: string | null;
+  model_id: string | null;
+  created_at: string;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Label scans are packaged foods, not dishes
+export function supportsRecipe(result: AnalysisResult): boolean {
+  return result.contains_food && result.source !== "label";
+}
+
+export function completeRecipe(
+  recipe: Recipe,
+  analysis: AnalysisResult,
+  servings: number = DEFAULT_RECIPE_SERVINGS
+): CompleteRecipe {
+  return {
+    ...recipe,
+    title: recipe.title || analysis.dish_name || "Recipe",
+    servings: recipe.servings ?? servings,
+    steps: recipe.steps ?? [],
+  };
+}
+
+// The recipe with every quantity multiplied for `servings` servings
+export function scaleRecipe(
+  recipe: CompleteRecipe,
+  servings: number
+): CompleteRecipe {
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      ingredient.quantity === undefined
+        ? ingredient
+        : { ...ingredient, quantity: ingredient.quantity * factor }
+    ),
+  };
+}
+
+const FRACTIONS: Record<number, string> = { 0.25: "¼", 0.5: "½", 0.75: "¾" };
+
+// Kitchen-friendly amounts: whole numbers from 10 up, quarters below that
+// (e.g. "1½"), and one significant digit for pinches
+export function formatQuantity(quantity: number): string {
+  if (quantity >= 10) return String(Math.round(quantity));
+  if (quantity < 0.25) return String(Number(quantity.toPrecision(1)));
+  const quarters = Math.round(quantity * 4) / 4;
+  const whole = Math.floor(quarters);
+  const fraction = FRACTIONS[quarters - whole];
+  if (!fraction) return String(whole);
+  return whole > 0 ? `${whole}${fraction}` : fraction;
+}
+
+// Per serving: the analysed plate's totals. `total` is for all `servings`.
+export function recipeNutrition(
+  analysis: AnalysisResult,
+  servings: number
+): {
+  perServing: { calories?: number; macros: Macros };
+  total: { calories?: number; macros: Macros };
+} {
+  const perServing: Macros = {};
+  const total: Macros = {};
+  for (const key of MACRO_KEYS) {
+    const value = analysis.macros?.[key];
+    if (typeof value !== "number") continue;
+    perServing[key] = round1(value);
+    total[key] = round1(value * servings);
+  }
+  const calories = analysis.total_calories;
+  return {
+    perServing: {
+      calories: calories === undefined ? undefined : Math.round(calories),
+      macros: perServing,
+    },
+    total: {
+      calories:
+        calories === undefined ? undefined : Math.round(calories * servings),
+      macros: total,
+    },
+  };
+}
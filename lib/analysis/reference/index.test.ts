@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { findReferenceFood, quantityToGrams } from ".";
+
+describe("findReferenceFood", () => {
+  it.each([
+    ["Whole milk", "milk-whole"],
+    ["Grilled chicken breast", "chicken-breast-cooked"],
+    ["chicken breast 120 g", "chicken-breast-cooked"],
+    ["1 cup steamed basmati rice", "rice-white-cooked"],
+    ["Hard-boiled egg", "egg-boiled"],
+    ["Rotis", "chapati"],
+    ["Cottage cheese (paneer)", "paneer"],
+  ])("matches %j", (name, id) => {
+    expect(findReferenceFood(name)?.id).toBe(id);
+  });
+
+  // Another word changes what the food is; the model's values stand
+  it.each([
+    "milk chocolate 50 g",
+    "peanut butter",
+    "rice flour",
+    "potato chips",
+    "butter chicken",
+    "coconut milk",
+    "egg noodles",
+    "Sugar-free syrup",
+  ])("leaves %j to the model", (name) => {
+    expect(findReferenceFood(name)).toBeUndefined();
+  });
+});
+
+describe("quantityToGrams", () => {
+  const food = (name: string) => findReferenceFood(name)!;
+
+  it("converts metric units, household units and ranges", () => {
+    expect(quantityToGrams("150g", food("rice"))).toBe(150);
+    expect(quantityToGrams("1 1/2 cups", food("rice"))).toBe(237);
+    expect(quantityToGrams("100-150 g", food("rice"))).toBe(125);
+  });
+
+  it("counts pieces of the food itself", () => {
+    expect(quantityToGrams("2 eggs", food("egg"))).toBe(100);
+    expect(quantityToGrams("2", food("egg"))).toBe(100);
+    expect(quantityToGrams("2 bananas", food("egg"))).toBeUndefined();
+  });
+});
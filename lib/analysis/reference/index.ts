@@ -0,0 +1,230 @@
+// lib/analysis/reference/index.ts
+// Offline food composition lookup: matches a free-text ingredient name and
+// quantity (as the model writes them) to a per-100g reference entry.
+import foods from "./foods.json";
+
+export interface ReferenceNutrients {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  saturated_fat?: number;
+}
+
+export interface ReferenceFood {
+  id: string;
+  name: string;
+  aliases: string[];
+  source: string;
+  per_100g: ReferenceNutrients;
+  // Household units ("cup", "slice", "medium", ...) to grams
+  portions?: Partial<Record<string, number>>;
+}
+
+export const REFERENCE_DB_VERSION: string = foods.version;
+
+const referenceFoods: ReferenceFood[] = foods.foods;
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const aliasIndex = new Map<string, ReferenceFood>();
+for (const food of referenceFoods) {
+  for (const alias of food.aliases) {
+    const key = normalize(alias);
+    if (!aliasIndex.has(key)) aliasIndex.set(key, food);
+  }
+}
+
+// Words that say how much there is or how it was prepared, without changing
+// what the food is. Any other word may ("peanut butter", "rice flour",
+// "butter chicken"), so names containing one are left to the model.
+const NEUTRAL_WORDS = new Set([
+  "a",
+  "an",
+  "of",
+  "some",
+  "x",
+  "g",
+  "gm",
+  "gram",
+  "kg",
+  "mg",
+  "oz",
+  "ml",
+  "l",
+  "cup",
+  "tbsp",
+  "tablespoon",
+  "tsp",
+  "teaspoon",
+  "slice",
+  "piece",
+  "pc",
+  "serving",
+  "portion",
+  "bowl",
+  "katori",
+  "glass",
+  "small",
+  "medium",
+  "large",
+  "cooked",
+  "boiled",
+  "steamed",
+  "grilled",
+  "roasted",
+  "baked",
+  "raw",
+  "fresh",
+  "plain",
+  "chopped",
+  "sliced",
+  "diced",
+  "cubed",
+  "shredded",
+  "grated",
+  "ripe",
+  "warm",
+  "hot",
+  "cold",
+  "homemade",
+]);
+
+const isNeutral = (word: string) =>
+  /^\d/.test(word) ||
+  NEUTRAL_WORDS.has(word) ||
+  NEUTRAL_WORDS.has(word.replace(/s$/, ""));
+
+// The whole name must be an alias, once amounts and preparation words are
+// set aside: "Grilled chicken breast" and "1 cup steamed rice" match, but
+// "peanut butter" doesn't match butter. A trailing plural "s" is ignored.
+export function findReferenceFood(name: string): ReferenceFood | undefined {
+  const normalized = normalize(name);
+  const core = normalized
+    .split(" ")
+    .filter((word) => word && !isNeutral(word))
+    .join(" ");
+  return (
+    aliasIndex.get(normalized) ??
+    aliasIndex.get(core) ??
+    aliasIndex.get(core.replace(/s$/, ""))
+  );
+}
+
+// Metric and imperial units; ml is treated as 1 g/ml
+const UNIT_GRAMS: Record<string, number> = {
+  g: 1,
+  gm: 1,
+  gram: 1,
+  kg: 1000,
+  kilogram: 1000,
+  mg: 0.001,
+  oz: 28.35,
+  ounce: 28.35,
+  lb: 453.6,
+  pound: 453.6,
+  ml: 1,
+  milliliter: 1,
+  millilitre: 1,
+  l: 1000,
+  liter: 1000,
+  litre: 1000,
+};
+
+// Spellings of the household units used as keys in `portions`
+const PORTION_UNITS: Record<string, string> = {
+  cup: "cup",
+  tbsp: "tbsp",
+  tablespoon: "tbsp",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  slice: "slice",
+  piece: "piece",
+  pc: "piece",
+  whole: "piece",
+  medium: "medium",
+  small: "small",
+  large: "large",
+  serving: "serving",
+  portion: "serving",
+};
+
+// Sizes fall back to the "medium" portion when the entry doesn't list them
+const SIZE_FACTORS: Record<string, number> = { small: 0.75, large: 1.25 };
+
+const parseNumber = (value: string): number => {
+  const [whole, fraction] = value.trim().split(/\s+(?=\d+\/)/);
+  const parse = (part: string) => {
+    const [numerator, denominator] = part.split("/").map(Number);
+    return denominator ? numerator / denominator : numerator;
+  };
+  return fraction ? parse(whole) + parse(fraction) : parse(whole);
+};
+
+// "cups" -> "cup", "lbs" -> "lb"; words that are already known are kept as is
+const singular = (word: string) =>
+  word in UNIT_GRAMS || word in PORTION_UNITS ? word : word.replace(/s$/, "");
+
+// Converts a quantity such as "150g", "1 1/2 cups", "2 medium" or "100-150 g"
+// to grams. Returns undefined when the amount or unit can't be resolved.
+export function quantityToGrams(
+  quantity: string | undefined,
+  food: ReferenceFood
+): number | undefined {
+  if (!quantity) return undefined;
+  const match = quantity
+    .toLowerCase()
+    .replace(/,/g, "")
+    .match(
+      /(\d+(?:\.\d+)?(?:\s+\d+\/\d+|\/\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*([a-z]+)?/
+    );
+  if (!match) return undefined;
+
+  const low = parseNumber(match[1]);
+  const count = match[2] ? (low + Number(match[2])) / 2 : low;
+  if (!Number.isFinite(count) || count <= 0) return undefined;
+
+  const unit = match[3] ? singular(match[3]) : undefined;
+  if (unit && unit in UNIT_GRAMS) return count * UNIT_GRAMS[unit];
+
+  // Household units, or a bare count ("2") of the food's natural piece
+  const portions = food.portions || {};
+  const portion = unit ? PORTION_UNITS[unit] : undefined;
+  // Any other word must name the food itself ("2 eggs"), which counts pieces
+  if (unit && !portion && findReferenceFood(unit)?.id !== food.id) {
+    return undefined;
+  }
+  const key = portion || "piece";
+  const grams =
+    portions[key] ??
+    (key in SIZE_FACTORS && portions.medium
+      ? portions.medium * SIZE_FACTORS[key]
+      : undefined) ??
+    (portion ? undefined : portions.medium ?? portions.serving);
+  return grams !== undefined ? count * grams : undefined;
+}
+
+// Nutrients for `grams` of a reference food, rounded for display
+export function scaleReferenceNutrients(
+  food: ReferenceFood,
+  grams: number
+): ReferenceNutrients {
+  const scale = (value: number) => Math.round((value * grams) / 10) / 10;
+  const per100 = food.per_100g;
+  return {
+    calories: Math.round((per100.calories * grams) / 100),
+    protein: scale(per100.protein),
+    carbs: scale(per100.carbs),
+    fat: scale(per100.fat),
+    fiber: per100.fiber !== undefined ? scale(per100.fiber) : undefined,
+    saturated_fat:
+      per100.saturated_fat !== undefined
+        ? scale(per100.saturated_fat)
+        : undefined,
+  };
+}
@@ -0,0 +1,106 @@
+import type { GenerateContentResponse } from "@google/generative-ai";
+import { describe, expect, it } from "vitest";
+import { GeminiProvider } from "./providers/gemini";
+import { DEFAULT_REPLAY_DIR, ReplayStore } from "./replay";
+import { validateAnalysisResult } from "./schema";
+import { standardizeAnalysisResult } from "./standardize";
+
+// Recorded in fixtures/analysis-replay/test-v1/gemini-1.5-flash-latest/
+const image = {
+  mimeType: "image/jpeg",
+  data: Buffer.from("replay fixture: idli and sambar").toString("base64"),
+};
+const request = {
+  promptText: "Analyze the meal in this photo and reply with the nutrition JSON.",
+  promptVersion: "test-v1",
+  image,
+};
+
+const replayingProvider = (modelId?: string) =>
+  new GeminiProvider("replay-only", {
+    modelId,
+    replay: new ReplayStore<GenerateContentResponse>(
+      "replay",
+      DEFAULT_REPLAY_DIR
+    ),
+  });
+
+describe("Gemini replay", () => {
+  it("serves the recorded response without calling the API", async () => {
+    const { output, usage } = await replayingProvider().analyze(request);
+    expect(output).toMatchObject({
+      contains_food: true,
+      dish_name: "Idli with sambar",
+      total_calories: "320 kcal",
+    });
+    expect(usage).toEqual({
+      input_tokens: 1290,
+      output_tokens: 142,
+      total_tokens: 1432,
+    });
+  });
+
+  it("does not replay a response recorded for another prompt", async () => {
+    await expect(
+      replayingProvider().analyze({
+        ...request,
+        promptText: `${request.promptText} Include micronutrients.`,
+      })
+    ).rejects.toThrow("Replay fixture not found");
+  });
+
+  it("does not replay a response recorded for another model", async () => {
+    await expect(
+      replayingProvider("gemini-2.0-flash").analyze(request)
+    ).rejects.toThrow("Replay fixture not found");
+  });
+});
+
+// The parsing and standardisation steps of /api/analyze, run on a recording
+async function replayedResult(promptText: string) {
+  const { output } = await replayingProvider().analyze({
+    ...request,
+    promptText,
+  });
+  const validation = validateAnalysisResult(output);
+  if (!validation.success) throw new Error("Recorded output is invalid");
+  return {
+    result: standardizeAnalysisResult({
+      ...validation.data,
+      validation_issues: validation.issues,
+    }),
+    issues: validation.issues.map((issue) => issue.path),
+  };
+}
+
+describe("Replayed analysis", () => {
+  it("standardises a clean recording", async () => {
+    const { result, issues } = await replayedResult(request.promptText);
+    expect(issues).toEqual([]);
+    expect(result).toMatchObject({
+      contains_food: true,
+      total_calories: 320,
+      macros: { protein: 11, carbs: 58, fat: 4.5, fiber: 7 },
+      confidence_score: 0.82,
+    });
+    expect(result.ingredients).toHaveLength(2);
+  });
+
+  it("repairs what it can of a messy recording and drops the rest", async () => {
+    // Recorded with text values, percentages and an unnamed ingredient
+    const { result, issues } = await replayedResult(
+      "Analyze the meal in this photo and list every ingredient with its " +
+        "calories as JSON."
+    );
+    expect(issues).toEqual(["ingredients[1].name", "total_calories"]);
+    expect(result).toMatchObject({
+      contains_food: true,
+      dish_name: "Idli with sambar",
+      cuisine: "Unknown",
+      total_calories: undefined,
+      macros: { protein: 11, carbs: 58, fat: undefined },
+      ingredients: [{ name: "Idli", quantity: "3 pieces", calories: 174 }],
+      confidence_score: 0.82,
+    });
+  });
+});
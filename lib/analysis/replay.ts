@@ -0,0 +1,94 @@
+// lib/analysis/replay.ts
+// Record/replay of raw model responses, so the parsing and standardisation
+// steps of /api/analyze can be exercised without calling the network.
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { logger } from "../logger";
+import { hashImageBuffer } from "./cache";
+
+export type ReplayMode = "off" | "record" | "replay";
+
+export const DEFAULT_REPLAY_DIR = "fixtures/analysis-replay";
+
+// SHA-256 of the decoded image bytes (not of the base64 text)
+export function imageContentHash(imageBase64: string) {
+  return hashImageBuffer(Buffer.from(imageBase64, "base64"));
+}
+
+// What a recorded response depends on: the same image asked with a reworded
+// prompt, or sent to another model, must not replay the old answer
+export interface ReplayKey {
+  // Base64-encoded image bytes; absent for text-only requests
+  image?: string;
+  promptText: string;
+  promptVersion: string;
+  modelId: string;
+}
+
+// Versions and model ids become directory names, so keep them path-safe
+const pathSafe = (value: string) => value.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+export class ReplayStore<T = unknown> {
+  readonly mode: ReplayMode;
+  private dir: string;
+
+  constructor(mode: ReplayMode, dir: string = DEFAULT_REPLAY_DIR) {
+    this.mode = mode;
+    this.dir = path.resolve(dir);
+  }
+
+  // <prompt version>/<model id>/<image sha256>-<prompt text sha256>.json,
+  // with "text" in place of the image hash for text-only requests
+  private fixturePath({ image, promptText, promptVersion, modelId }: ReplayKey) {
+    const imageHash = image ? imageContentHash(image) : "text";
+    const promptHash = createHash("sha256")
+      .update(promptText)
+      .digest("hex")
+      .slice(0, 16);
+    return path.join(
+      this.dir,
+      pathSafe(promptVersion),
+      pathSafe(modelId),
+      `${imageHash}-${promptHash}.json`
+    );
+  }
+
+  // Returns the recorded response, or throws if none exists (replay never hits the network)
+  async load(key: ReplayKey): Promise<T> {
+    const file = this.fixturePath(key);
+    let contents: string;
+    try {
+      contents = await readFile(file, "utf8");
+    } catch (readError: any) {
+      throw new Error(
+        `Replay fixture not found for this request to ${key.modelId} with prompt version ${key.promptVersion} (${file}): ${readError.message}`
+      );
+    }
+    return JSON.parse(contents) as T;
+  }
+
+  async save(key: ReplayKey, response: T) {
+    const file = this.fixturePath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(response, null, 2) + "\n", "utf8");
+    logger.info("Recorded model response fixture", { file });
+  }
+}
+
+// Reads ANALYSIS_REPLAY_MODE / ANALYSIS_REPLAY_DIR; null when replay is off
+export function createReplayStoreFromEnv<T>(
+  env: NodeJS.ProcessEnv = process.env
+): ReplayStore<T> | null {
+  const mode = (env.ANALYSIS_REPLAY_MODE || "off") as ReplayMode;
+  if (mode === "off") return null;
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `Invalid ANALYSIS_REPLAY_MODE "${mode}" (expected off, record or replay).`
+    );
+  }
+  return new ReplayStore<T>(
+    mode,
+    env.ANALYSIS_REPLAY_DIR || DEFAULT_REPLAY_DIR
+  );
+}
@@ -0,0 +1,294 @@
+// lib/analysis/response-schema.ts
+import { type ResponseSchema, SchemaType } from "@google/generative-ai";
+
+const ingredientSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    name: { type: SchemaType.STRING },
+    quantity: { type: SchemaType.STRING },
+    calories: { type: SchemaType.NUMBER },
+  },
+  required: ["name", "quantity"],
+};
+
+const macrosSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    protein: { type: SchemaType.NUMBER },
+    carbs: { type: SchemaType.NUMBER },
+    fiber: { type: SchemaType.NUMBER },
+    fat: { type: SchemaType.NUMBER },
+    saturated_fat: { type: SchemaType.NUMBER },
+    unsaturated_fat: { type: SchemaType.NUMBER },
+  },
+};
+
+const micronutrientsSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  description: "Whole-meal amounts; sugars in grams, the rest in milligrams.",
+  properties: {
+    sodium: { type: SchemaType.NUMBER, description: "Sodium (mg)." },
+    sugars: { type: SchemaType.NUMBER, description: "Total sugars (g)." },
+    added_sugars: {
+      type: SchemaType.NUMBER,
+      description: "Added sugars (g).",
+    },
+    cholesterol: { type: SchemaType.NUMBER, description: "Cholesterol (mg)." },
+    potassium: { type: SchemaType.NUMBER, description: "Potassium (mg)." },
+    calcium: { type: SchemaType.NUMBER, description: "Calcium (mg)." },
+    iron: { type: SchemaType.NUMBER, description: "Iron (mg)." },
+    vitamin_c: { type: SchemaType.NUMBER, description: "Vitamin C (mg)." },
+  },
+};
+
+const foodItemSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    name: { type: SchemaType.STRING, description: "Item name." },
+    portion: { type: SchemaType.STRING, description: "Portion estimate." },
+    calories: { type: SchemaType.NUMBER, description: "Item calories." },
+    ingredients: { type: SchemaType.ARRAY, items: ingredientSchema },
+    macros: macrosSchema,
+    allergens: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+    bounding_box: {
+      type: SchemaType.OBJECT,
+      description: "Item location, normalized 0-1, (x, y) = top-left corner.",
+      properties: {
+        x: { type: SchemaType.NUMBER },
+        y: { type: SchemaType.NUMBER },
+        width: { type: SchemaType.NUMBER },
+        height: { type: SchemaType.NUMBER },
+      },
+      required: ["x", "y", "width", "height"],
+    },
+  },
+  required: ["name"],
+};
+
+// JSON schema handed to the model so it returns an AnalysisResult-shaped object
+export const analysisResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    contains_food: {
+      type: SchemaType.BOOLEAN,
+      description: "True if food detected.",
+    },
+    dish_name: { type: SchemaType.STRING, description: "Dish name." },
+    cuisine: { type: SchemaType.STRING, description: "Cuisine style." },
+    serving_size: {
+      type: SchemaType.STRING,
+      description: "Serving size estimate.",
+    },
+    cooking_method: {
+      type: SchemaType.STRING,
+      description: "Cooking method.",
+    },
+    ingredients: { type: SchemaType.ARRAY, items: ingredientSchema },
+    items: {
+      type: SchemaType.ARRAY,
+      description: "Each distinct food item detected on the plate.",
+      items: foodItemSchema,
+    },
+    portion_size: {
+      type: SchemaType.STRING,
+      description: "Portion size description.",
+    },
+    total_calories: {
+      type: SchemaType.NUMBER,
+      description: "Total calories.",
+    },
+    macros: macrosSchema,
+    micronutrients: micronutrientsSchema,
+    contains_caffeine: {
+      type: SchemaType.BOOLEAN,
+      description: "True if any item contains caffeine.",
+    },
+    contains_alcohol: {
+      type: SchemaType.BOOLEAN,
+      description: "True if any item contains alcohol.",
+    },
+    portion_comparison: {
+      type: SchemaType.STRING,
+      description: "Portion comparison.",
+    },
+    allergens: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+    confidence_score: {
+      type: SchemaType.NUMBER,
+      description: "Confidence score 0-1.",
+    },
+    warnings: {
+      type: SchemaType.ARRAY,
+      description: "Conflicts with the user's allergens or dietary preferences.",
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          kind: {
+            type: SchemaType.STRING,
+            format: "enum",
+            enum: ["allergen", "diet"],
+          },
+          constraint: {
+            type: SchemaType.STRING,
+            description: "The allergen or preference, as listed.",
+          },
+          message: { type: SchemaType.STRING },
+          item: { type: SchemaType.STRING },
+        },
+        required: ["kind", "constraint", "message"],
+      },
+    },
+    clarifying_questions: {
+      type: SchemaType.ARRAY,
+      description: "Up to three questions that would most change the estimate.",
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          id: { type: SchemaType.STRING },
+          question: { type: SchemaType.STRING },
+          options: {
+            type: SchemaType.ARRAY,
+            description: "Two to four short answers.",
+            items: { type: SchemaType.STRING },
+          },
+        },
+        required: ["id", "question", "options"],
+      },
+    },
+  },
+  required: ["contains_food"],
+};
+
+const labelNutrientsSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    calories: { type: SchemaType.NUMBER, description: "kcal." },
+    protein: { type: SchemaType.NUMBER },
+    carbs: { type: SchemaType.NUMBER },
+    fiber: { type: SchemaType.NUMBER },
+    sugars: { type: SchemaType.NUMBER },
+    added_sugars: { type: SchemaType.NUMBER },
+    fat: { type: SchemaType.NUMBER },
+    saturated_fat: { type: SchemaType.NUMBER },
+    trans_fat: { type: SchemaType.NUMBER },
+    cholesterol: { type: SchemaType.NUMBER, description: "mg." },
+    sodium: { type: SchemaType.NUMBER, description: "mg." },
+  },
+};
+
+// JSON schema for label scanning mode, matching LabelFactsSchema
+export const labelResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    is_label: {
+      type: SchemaType.BOOLEAN,
+      description: "True if a readable nutrition label is visible.",
+    },
+    product_name: { type: SchemaType.STRING },
+    brand: { type: SchemaType.STRING },
+    serving_size: {
+      type: SchemaType.STRING,
+      description: "Serving size as printed.",
+    },
+    serving_size_grams: { type: SchemaType.NUMBER },
+    servings_per_container: { type: SchemaType.NUMBER },
+    per_serving: labelNutrientsSchema,
+    per_100g: labelNutrientsSchema,
+    ingredients: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+    allergens: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+  },
+  required: ["is_label"],
+};
+
+// JSON schema for leftovers photos, matching LeftoversEstimateSchema
+export const leftoversResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    items: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          index: {
+            type: SchemaType.INTEGER,
+            description: "Number of the item in the plate list.",
+          },
+          name: { type: SchemaType.STRING },
+          remaining_fraction: {
+            type: SchemaType.NUMBER,
+            description: "Share still on the plate, 0 (finished) to 1 (untouched).",
+          },
+        },
+        required: ["index", "remaining_fraction"],
+      },
+    },
+    notes: { type: SchemaType.STRING },
+  },
+  required: ["items"],
+};
+
+// JSON schema for recipes, matching RecipeSchema
+export const recipeResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    title: { type: SchemaType.STRING },
+    servings: { type: SchemaType.INTEGER },
+    prep_minutes: { type: SchemaType.NUMBER },
+    cook_minutes: { type: SchemaType.NUMBER },
+    ingredients: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: { type: SchemaType.STRING },
+          quantity: {
+            type: SchemaType.NUMBER,
+            description: "Amount for all servings; omit for \"to taste\".",
+          },
+          unit: { type: SchemaType.STRING },
+          note: { type: SchemaType.STRING },
+        },
+        required: ["name"],
+      },
+    },
+    steps: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+    notes: { type: SchemaType.STRING },
+  },
+  required: ["title", "servings", "ingredients", "steps"],
+};
+
+// JSON schema for healthier swaps, matching SwapCandidatesSchema
+export const suggestionsResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    swaps: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          item: { type: SchemaType.STRING },
+          replacement: { type: SchemaType.STRING },
+          reason: { type: SchemaType.STRING },
+          before: macrosSchema,
+          after: macrosSchema,
+        },
+        required: ["item", "replacement", "before", "after"],
+      },
+    },
+  },
+  required: ["swaps"],
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { Logger } from "../logger";
+import {
+  analyzeWithFallback,
+  backoffDelay,
+  isRetryableError,
+  ProviderChainError,
+  type RetryPolicy,
+  retryPolicyFromEnv,
+} from "./retry";
+import type { AnalysisProvider, AnalysisResponse } from "./types";
+
+const log = new Logger({}, { level: "error", sampleRate: 1 });
+const policy: RetryPolicy = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+const request = { promptText: "Analyze", promptVersion: "test" };
+
+// A provider that plays back `outcomes` in order: errors are thrown, anything
+// else is returned as the model output
+function scriptedProvider(
+  name: string,
+  outcomes: unknown[]
+): AnalysisProvider & { calls: number } {
+  return {
+    name,
+    modelId: `${name}-model`,
+    calls: 0,
+    async analyze(): Promise<AnalysisResponse> {
+      const outcome = outcomes[Math.min(this.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return { output: outcome as AnalysisResponse["output"] };
+    },
+  };
+}
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe("isRetryableError", () => {
+  it("retries throttling, server errors and timeouts", () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    const timeout = Object.assign(new Error("slow"), { name: "TimeoutError" });
+    expect(isRetryableError(timeout)).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  it("moves on after client errors and unusable responses", () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new Error("Unexpected token"))).toBe(false);
+  });
+
+  it("lets an explicit retryable flag win over the status", () => {
+    const error = Object.assign(httpError(503), { retryable: false });
+    expect(isRetryableError(error)).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays below the exponential ceiling and the maximum", () => {
+    const jittered = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 300 };
+    for (let retry = 0; retry < 5; retry++) {
+      const delay = backoffDelay(retry, jittered);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(300, 100 * 2 ** retry));
+    }
+  });
+});
+
+describe("retryPolicyFromEnv", () => {
+  it("reads overrides and ignores invalid values", () => {
+    expect(
+      retryPolicyFromEnv({
+        NODE_ENV: "test",
+        ANALYSIS_MAX_RETRIES: "0",
+        ANALYSIS_RETRY_BASE_DELAY_MS: "-1",
+      } as NodeJS.ProcessEnv)
+    ).toEqual({ maxRetries: 0, baseDelayMs: 500, maxDelayMs: 8000 });
+  });
+});
+
+describe("analyzeWithFallback", () => {
+  const deadline = () => Date.now() + 10_000;
+
+  it("retries a transient failure on the same provider", async () => {
+    const primary = scriptedProvider("primary", [httpError(503), { ok: 1 }]);
+    const result = await analyzeWithFallback([primary], request, {
+      policy,
+      deadline: deadline(),
+      log,
+    });
+    expect(result.output).toEqual({ ok: 1 });
+    expect(primary.calls).toBe(2);
+    expect(result.attempts.map((attempt) => attempt.error)).toEqual([
+      "HTTP 503",
+      undefined,
+    ]);
+  });
+
+  it("falls back to the next provider on a non-retryable failure", async () => {
+    const primary = scriptedProvider("primary", [httpError(400)]);
+    const backup = scriptedProvider("backup", [{ ok: 2 }]);
+    const result = await analyzeWithFallback([primary, backup], request, {
+      policy,
+      deadline: deadline(),
+      log,
+    });
+    expect(primary.calls).toBe(1);
+    expect(result.provider).toBe(backup);
+    expect(result.attempts.map((attempt) => attempt.provider)).toEqual([
+      "primary",
+      "backup",
+    ]);
+  });
+
+  it("gives up after the retries of every provider", async () => {
+    const primary = scriptedProvider("primary", [httpError(503)]);
+    const backup = scriptedProvider("backup", [httpError(500)]);
+    const error = await analyzeWithFallback([primary, backup], request, {
+      policy,
+      deadline: deadline(),
+      log,
+    }).catch((error) => error);
+    expect(error).toBeInstanceOf(ProviderChainError);
+    expect(error.attempts).toHaveLength(6);
+    expect(error.message).toBe("HTTP 500");
+  });
+
+  it("starts no attempt once the deadline has passed", async () => {
+    const primary = scriptedProvider("primary", [{ ok: 3 }]);
+    await expect(
+      analyzeWithFallback([primary], request, {
+        policy,
+        deadline: Date.now() - 1,
+        log,
+      })
+    ).rejects.toThrow("time budget exhausted");
+    expect(primary.calls).toBe(0);
+  });
+});
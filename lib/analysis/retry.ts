@@ -0,0 +1,187 @@
+// lib/analysis/retry.ts
+// Retries transient provider failures with jittered exponential backoff and
+// falls through an ordered chain of providers, all within a fixed time budget.
+import { type Logger, logger } from "../logger";
+import {
+  type AnalysisProvider,
+  type AnalysisRequest,
+  type RawAnalysisOutput,
+  type TokenUsage,
+  usageOf,
+} from "./types";
+
+export interface RetryPolicy {
+  maxRetries: number; // retries per provider, on top of the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export function retryPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): RetryPolicy {
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && Number.isFinite(parsed) && parsed >= 0
+      ? parsed
+      : fallback;
+  };
+  return {
+    maxRetries: read(env.ANALYSIS_MAX_RETRIES, DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: read(
+      env.ANALYSIS_RETRY_BASE_DELAY_MS,
+      DEFAULT_RETRY_POLICY.baseDelayMs
+    ),
+    maxDelayMs: read(
+      env.ANALYSIS_RETRY_MAX_DELAY_MS,
+      DEFAULT_RETRY_POLICY.maxDelayMs
+    ),
+  };
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Transient failures are worth retrying on the same model. Anything else
+// (safety/recitation stops, bad JSON, 4xx) moves on to the next provider.
+export function isRetryableError(error: any): boolean {
+  if (typeof error?.retryable === "boolean") return error.retryable;
+  if (typeof error?.status === "number") {
+    return RETRYABLE_STATUSES.includes(error.status);
+  }
+  // Per-attempt timeouts and dropped connections
+  return (
+    error?.name === "TimeoutError" ||
+    error?.name === "AbortError" ||
+    (error instanceof TypeError && /fetch failed/i.test(error.message))
+  );
+}
+
+// "Full jitter": a random delay between 0 and the exponential ceiling
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, retry)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface AnalysisAttempt {
+  provider: string;
+  model: string;
+  error?: string;
+  // Failed calls can be billed too (e.g. a blocked or unparseable response)
+  usage?: TokenUsage;
+  latencyMs: number;
+}
+
+export interface ChainResult {
+  output: RawAnalysisOutput;
+  // Token usage of the successful call, when the provider reports it
+  usage?: TokenUsage;
+  provider: AnalysisProvider;
+  attempts: AnalysisAttempt[];
+  // Wall time of the whole chain, including failed attempts and backoff
+  latencyMs: number;
+}
+
+// Thrown when every provider in the chain failed or the budget ran out
+export class ProviderChainError extends Error {
+  readonly attempts: AnalysisAttempt[];
+  readonly lastError: unknown;
+
+  constructor(
+    message: string,
+    attempts: AnalysisAttempt[],
+    lastError: unknown
+  ) {
+    super(message);
+    this.name = "ProviderChainError";
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+// Tries each provider in order. `deadline` is an epoch-ms cutoff: no attempt
+// or backoff is started that would run past it, and each attempt's timeout is
+// capped to the time remaining. Each attempt is logged as a model_attempt span.
+export async function analyzeWithFallback(
+  providers: AnalysisProvider[],
+  request: Omit<AnalysisRequest, "timeoutMs">,
+  {
+    policy,
+    deadline,
+    log = logger,
+  }: { policy: RetryPolicy; deadline: number; log?: Logger }
+): Promise<ChainResult> {
+  const attempts: AnalysisAttempt[] = [];
+  let lastError: unknown = null;
+  const startedAt = Date.now();
+
+  for (const provider of providers) {
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new ProviderChainError(
+          "AI analysis time budget exhausted.",
+          attempts,
+          lastError
+        );
+      }
+
+      const span = log.span("model_attempt", {
+        attempt: attempts.length + 1,
+        provider: provider.name,
+        model: provider.modelId,
+        budget_left_ms: remaining,
+      });
+      try {
+        const { output, usage } = await provider.analyze({
+          ...request,
+          timeoutMs: remaining,
+        });
+        attempts.push({
+          provider: provider.name,
+          model: provider.modelId,
+          usage,
+          latencyMs: span.end({ usage }),
+        });
+        return {
+          output,
+          usage,
+          provider,
+          attempts,
+          latencyMs: Date.now() - startedAt,
+        };
+      } catch (error: any) {
+        lastError = error;
+        attempts.push({
+          provider: provider.name,
+          model: provider.modelId,
+          error: error?.message || String(error),
+          usage: usageOf(error),
+          latencyMs: span.fail(error, { retryable: isRetryableError(error) }),
+        });
+
+        if (!isRetryableError(error) || retry === policy.maxRetries) break;
+        const delay = backoffDelay(retry, policy);
+        if (Date.now() + delay >= deadline) break;
+        log.info("Retrying model", { model: provider.modelId, delay_ms: delay });
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw new ProviderChainError(
+    (lastError as any)?.message || "All analysis providers failed.",
+    attempts,
+    lastError
+  );
+}
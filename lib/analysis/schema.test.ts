@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { validateAnalysisResult, validateRecipe } from "./schema";
+
+describe("validateAnalysisResult", () => {
+  it("coerces numeric strings, string flags and nulls", () => {
+    const validation = validateAnalysisResult({
+      contains_food: "true",
+      dish_name: "Dal tadka",
+      total_calories: "1,250 kcal",
+      macros: { protein: "18g", fat: null },
+      confidence_score: 85,
+    });
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+    expect(validation.data.total_calories).toBe(1250);
+    expect(validation.data.macros).toEqual({ protein: 18 });
+    expect(validation.data.confidence_score).toBe(0.85);
+    expect(validation.issues).toEqual([]);
+  });
+
+  it("drops invalid optional fields and reports them", () => {
+    const validation = validateAnalysisResult({
+      contains_food: true,
+      total_calories: "a lot",
+      cuisine: "Indian",
+    });
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+    expect(validation.data.total_calories).toBeUndefined();
+    expect(validation.data.cuisine).toBe("Indian");
+    expect(validation.issues.map((issue) => issue.path)).toEqual([
+      "total_calories",
+    ]);
+  });
+
+  it("drops array elements that miss a required field", () => {
+    const validation = validateAnalysisResult({
+      contains_food: true,
+      ingredients: [
+        { name: "Rice", quantity: "1 cup" },
+        { quantity: "2 tbsp" },
+        { name: "Dal", calories: -5 },
+      ],
+    });
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+    expect(validation.data.ingredients).toEqual([
+      { name: "Rice", quantity: "1 cup" },
+      { name: "Dal", quantity: "N/A" },
+    ]);
+    expect(validation.issues.map((issue) => issue.path)).toEqual([
+      "ingredients[1].name",
+      "ingredients[1].calories",
+    ]);
+  });
+
+  it("ignores fields only the server sets", () => {
+    const validation = validateAnalysisResult({
+      contains_food: true,
+      dish_name: "Chips",
+      analysis_id: "someone-elses-analysis",
+      label: { facts: { is_label: true }, servings: 10 },
+      source: "label",
+      cached: true,
+      ingredients: [
+        { name: "Potato", quantity: "1", source: "reference", grams: 900 },
+      ],
+      items: [{ name: "Chips", consumed_fraction: 0.1 }],
+    });
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+    expect(validation.data).toEqual({
+      contains_food: true,
+      dish_name: "Chips",
+      ingredients: [{ name: "Potato", quantity: "1" }],
+      items: [{ name: "Chips" }],
+    });
+  });
+
+  it("rejects output without a usable contains_food", () => {
+    expect(validateAnalysisResult({ dish_name: "Soup" }).success).toBe(false);
+    expect(validateAnalysisResult([]).success).toBe(false);
+    expect(validateAnalysisResult("not json").success).toBe(false);
+  });
+});
+
+describe("validateRecipe", () => {
+  it("drops ingredients without a name but keeps the recipe", () => {
+    const validation = validateRecipe({
+      title: "Dal",
+      ingredients: [{ name: "Toor dal", quantity: "1", unit: "cup" }, {}],
+    });
+    expect(validation.success).toBe(true);
+    if (!validation.success) return;
+    expect(validation.data.ingredients).toEqual([
+      { name: "Toor dal", quantity: 1, unit: "cup" },
+    ]);
+  });
+});
@@ -0,0 +1,583 @@
+// lib/analysis/schema.ts
+// Single source of truth for the AnalysisResult shape, shared by the analyze
+// route, the dashboard and NutritionDisplay. Safe to import on the client.
+import { z } from "zod";
+
+// --- Coercion helpers ---
+
+// Accepts numbers and numeric strings such as "250", "250 kcal" or "1,200"
+const toNumber = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : value;
+};
+
+const amount = z.preprocess(toNumber, z.number().finite().nonnegative());
+
+const text = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  z.string().trim()
+);
+
+const flag = z.preprocess((value) => {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return value;
+}, z.boolean());
+
+// A share between 0 and 1 (confidence, fraction eaten). Models sometimes
+// answer 0-100 instead of 0-1.
+const fraction = z.preprocess(
+  toNumber,
+  z
+    .number()
+    .finite()
+    .nonnegative()
+    .transform((score) => Math.min(1, score > 1 ? score / 100 : score))
+);
+
+// --- Schema ---
+
+export const MacrosSchema = z.object({
+  protein: amount.optional(),
+  carbs: amount.optional(),
+  fiber: amount.optional(),
+  fat: amount.optional(),
+  saturated_fat: amount.optional(),
+  unsaturated_fat: amount.optional(),
+});
+
+// Amounts per whole meal: sugars in grams, everything else in milligrams
+export const MicronutrientsSchema = z.object({
+  sodium: amount.optional(),
+  sugars: amount.optional(),
+  added_sugars: amount.optional(),
+  cholesterol: amount.optional(),
+  potassium: amount.optional(),
+  calcium: amount.optional(),
+  iron: amount.optional(),
+  vitamin_c: amount.optional(),
+});
+
+// Where a number came from: the model's estimate or the bundled reference table
+export const NutritionSourceSchema = z.enum(["model", "reference", "mixed"]);
+
+export const IngredientSchema = z.object({
+  name: text.pipe(z.string().min(1, "Ingredient name is required")),
+  quantity: text.optional().default("N/A"),
+  calories: amount.optional(),
+  // Set by the server when the ingredient matched the nutrient reference database
+  grams: amount.optional(),
+  macros: MacrosSchema.optional(),
+  source: z.enum(["model", "reference"]).optional(),
+  reference_id: z.string().optional(),
+});
+
+// Normalized to the image size: (x, y) is the top-left corner, all values 0-1
+export const BoundingBoxSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  })
+  .transform((box) => ({
+    ...box,
+    width: Math.min(box.width, 1 - box.x),
+    height: Math.min(box.height, 1 - box.y),
+  }));
+
+// One distinct food on the plate (e.g. each katori of a thali)
+export const FoodItemSchema = z.object({
+  name: text.pipe(z.string().min(1, "Item name is required")),
+  portion: text.optional(),
+  calories: amount.optional(),
+  ingredients: z.array(IngredientSchema).optional(),
+  macros: MacrosSchema.optional(),
+  allergens: z.array(text).optional(),
+  bounding_box: BoundingBoxSchema.optional(),
+  nutrition_source: NutritionSourceSchema.optional(),
+  // Set by the server from a leftovers photo: the share of the item that was eaten
+  consumed_fraction: fraction.optional(),
+});
+
+// Summary of how much of the result was grounded in the reference database
+export const NutritionProvenanceSchema = z.object({
+  calories: NutritionSourceSchema,
+  macros: NutritionSourceSchema,
+  matched_ingredients: z.number(),
+  total_ingredients: z.number(),
+  database_version: z.string(),
+});
+
+// Server-side cross-check of total_calories against macros and ingredients
+export const ConsistencyReportSchema = z.object({
+  status: z.enum(["ok", "warning", "corrected"]),
+  reported_calories: z.number().optional(),
+  macro_calories: z.number().optional(),
+  ingredient_calories: z.number().optional(),
+  // Relative differences against reported_calories, e.g. 0.25 = 25%
+  macro_deviation: z.number().optional(),
+  ingredient_deviation: z.number().optional(),
+  corrected_calories: z.number().optional(),
+  warnings: z.array(z.string()),
+});
+
+// A conflict between the meal and the caller's profile, e.g. "Contains peanuts — listed allergen"
+export const DietaryWarningSchema = z.object({
+  kind: z.enum(["allergen", "diet"]),
+  // The profile allergen or dietary preference that is violated, as listed
+  constraint: text.pipe(z.string().min(1, "Warning constraint is required")),
+  message: text.pipe(z.string().min(1, "Warning message is required")),
+  item: text.optional(),
+});
+
+export const ValidationIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+// Values as printed on a Nutrition Facts / FSSAI label. Cholesterol and sodium in mg, the rest in g.
+export const LabelNutrientsSchema = z.object({
+  calories: amount.optional(),
+  protein: amount.optional(),
+  carbs: amount.optional(),
+  fiber: amount.optional(),
+  sugars: amount.optional(),
+  added_sugars: amount.optional(),
+  fat: amount.optional(),
+  saturated_fat: amount.optional(),
+  trans_fat: amount.optional(),
+  cholesterol: amount.optional(),
+  sodium: amount.optional(),
+});
+
+// What the model reads off a packaged-food label (label scanning mode)
+export const LabelFactsSchema = z.object({
+  is_label: flag,
+  product_name: text.optional(),
+  brand: text.optional(),
+  // As printed, e.g. "30 g (about 15 chips)"
+  serving_size: text.optional(),
+  serving_size_grams: amount.optional(),
+  servings_per_container: amount.optional(),
+  per_serving: LabelNutrientsSchema.optional(),
+  per_100g: LabelNutrientsSchema.optional(),
+  ingredients: z.array(text).optional(),
+  allergens: z.array(text).optional(),
+});
+
+// What the model reports for a leftovers photo: how much of each item of the
+// original analysis is still on the plate. Items are referred to by index.
+export const LeftoversEstimateSchema = z.object({
+  items: z.array(
+    z.object({
+      index: z.preprocess(toNumber, z.number().int().nonnegative()),
+      name: text.optional(),
+      remaining_fraction: fraction,
+    })
+  ),
+  notes: text.optional(),
+});
+
+// What the model returns for /api/analyze/recipe: a cook-at-home version of an
+// analysed dish. Quantities are plain numbers so the recipe can be rescaled.
+export const RecipeIngredientSchema = z.object({
+  name: text.pipe(z.string().min(1, "Ingredient name is required")),
+  // Absent for "to taste" (see `note`)
+  quantity: amount.optional(),
+  unit: text.optional(),
+  note: text.optional(),
+});
+
+export const RecipeSchema = z.object({
+  title: text.optional(),
+  servings: z.preprocess(toNumber, z.number().int().positive()).optional(),
+  prep_minutes: amount.optional(),
+  cook_minutes: amount.optional(),
+  ingredients: z.array(RecipeIngredientSchema),
+  steps: z.array(text.pipe(z.string().min(1))).optional(),
+  notes: text.optional(),
+});
+
+// What the model proposes for /api/analyze/suggestions: healthier swaps for
+// parts of the meal, with the macros of the part before and after the swap.
+// The server works out the deltas (see lib/analysis/suggestions.ts).
+export const SwapCandidatesSchema = z.object({
+  swaps: z.array(
+    z.object({
+      item: text.pipe(z.string().min(1, "Swap item is required")),
+      replacement: text.pipe(
+        z.string().min(1, "Swap replacement is required")
+      ),
+      reason: text.optional(),
+      before: MacrosSchema,
+      after: MacrosSchema,
+    })
+  ),
+});
+
+// The user's goals the swaps are ranked by, read from their dietary preferences
+export const SwapGoalSchema = z.enum([
+  "fewer_calories",
+  "more_protein",
+  "fewer_carbs",
+  "less_fat",
+]);
+
+// A swap as shown to the user: the change in calories (from the macros, as in
+// NutritionDisplay) and grams of each macro, after minus before
+export const SwapSuggestionSchema = z.object({
+  item: z.string(),
+  replacement: z.string(),
+  reason: z.string().optional(),
+  delta: z.object({
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    fiber: z.number().optional(),
+    saturated_fat: z.number().optional(),
+  }),
+});
+
+// Set by the server once a leftovers photo was analysed: what was actually eaten.
+// The top-level totals keep describing the plate as served.
+export const ConsumptionSchema = z.object({
+  // Share of the plate's calories that was eaten
+  fraction: z.number().min(0).max(1),
+  total_calories: z.number().optional(),
+  macros: MacrosSchema,
+  leftovers_image_url: z.string().optional(),
+  notes: z.string().optional(),
+  estimated_at: z.string(),
+});
+
+// A user's edit of a stored analysis (/api/analyze/correct). Validated as
+// is, without repair: it is user input, not model output.
+const correctedText = text.pipe(z.string().min(1).max(100));
+
+export const CorrectedIngredientSchema = z.object({
+  name: correctedText,
+  quantity: text.pipe(z.string().max(100)).optional().default("N/A"),
+});
+
+export const AnalysisCorrectionSchema = z.object({
+  dish_name: correctedText,
+  portion_size: text.pipe(z.string().max(100)).optional(),
+  // Multi-item plates are corrected per item; otherwise the dish-level list
+  items: z
+    .array(
+      z.object({
+        name: correctedText,
+        portion: text.pipe(z.string().max(100)).optional(),
+        ingredients: z.array(CorrectedIngredientSchema).max(50),
+      })
+    )
+    .max(20)
+    .optional(),
+  ingredients: z.array(CorrectedIngredientSchema).max(50).optional(),
+});
+
+// A multiple-choice question the model asks about a low-confidence estimate,
+// e.g. "Was this fried or baked?"
+export const ClarifyingQuestionSchema = z.object({
+  id: text,
+  question: text.pipe(z.string().min(1)),
+  options: z.array(text).min(2),
+});
+
+// The user's choice for one of them (/api/analyze/clarify). Like corrections,
+// validated without repair.
+export const ClarificationAnswerSchema = z.object({
+  question_id: correctedText,
+  answer: correctedText,
+});
+
+// What the analysis was made from
+export const AnalysisSourceSchema = z.enum(["photo", "text", "label"]);
+
+export const AnalysisResultSchema = z.object({
+  contains_food: flag,
+  dish_name: text.optional(),
+  cuisine: text.optional(),
+  serving_size: text.optional(),
+  cooking_method: text.optional(),
+  ingredients: z.array(IngredientSchema).optional(),
+  items: z.array(FoodItemSchema).optional(),
+  portion_size: text.optional(),
+  total_calories: amount.optional(),
+  macros: MacrosSchema.optional(),
+  micronutrients: MicronutrientsSchema.optional(),
+  contains_caffeine: flag.optional(),
+  contains_alcohol: flag.optional(),
+  portion_comparison: text.optional(),
+  allergens: z.array(text).optional(),
+  confidence_score: fraction.optional(),
+  warnings: z.array(DietaryWarningSchema).optional(),
+  // Set by the server: the profile constraints the result was checked against
+  personalized_for: z
+    .object({
+      allergens: z.array(z.string()),
+      dietary_preferences: z.array(z.string()),
+    })
+    .optional(),
+  consistency: ConsistencyReportSchema.optional(),
+  nutrition_provenance: NutritionProvenanceSchema.optional(),
+  consumed: ConsumptionSchema.optional(),
+  // Set by the server on request (/api/analyze/suggestions), best swap first
+  suggestions: z
+    .object({
+      goals: z.array(SwapGoalSchema),
+      swaps: z.array(SwapSuggestionSchema),
+      suggested_at: z.string(),
+    })
+    .optional(),
+  // Only kept when confidence_score is low, see selectClarifyingQuestions()
+  clarifying_questions: z.array(ClarifyingQuestionSchema).optional(),
+  // Set by the server once the questions were answered and the meal re-analysed
+  clarification: z
+    .object({
+      answers: z.array(
+        z.object({
+          question_id: z.string(),
+          question: z.string(),
+          answer: z.string(),
+        })
+      ),
+      clarified_at: z.string(),
+    })
+    .optional(),
+  // Set by the server when the user corrected the analysis. Revision 0, the
+  // original, and every correction are kept in food_analysis_revisions.
+  revision: z
+    .object({
+      number: z.number().int().positive(),
+      // How the totals were recomputed
+      method: z.enum(["reference", "model"]),
+      corrected_at: z.string(),
+    })
+    .optional(),
+  // Set by the server
+  source: AnalysisSourceSchema.optional(),
+  // Label scans only: the label as read, and how many servings were eaten
+  label: z
+    .object({
+      facts: LabelFactsSchema,
+      servings: z.number().positive(),
+    })
+    .optional(),
+  // Set by the server: id of the stored food_analyses row, and whether it was reused
+  analysis_id: z.string().optional(),
+  cached: z.boolean().optional(),
+  // Provider/model that produced the result, how many calls it took, and the
+  // prompt template, latency and token usage of the call (see PROMPT_TEMPLATES)
+  analyzed_by: z
+    .object({
+      provider: z.string(),
+      model: z.string(),
+      attempts: z.number(),
+      prompt_id: z.string().optional(),
+      prompt_version: z.string().optional(),
+      latency_ms: z.number().optional(),
+      usage: z
+        .object({
+          input_tokens: z.number(),
+          output_tokens: z.number(),
+          total_tokens: z.number().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  // Fields dropped or rejected while repairing the model output
+  validation_issues: z.array(ValidationIssueSchema).optional(),
+  error: z.string().optional(), // Optional field to propagate errors to the client
+});
+
+export type Ingredient = z.infer<typeof IngredientSchema>;
+export type Macros = z.infer<typeof MacrosSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type FoodItem = z.infer<typeof FoodItemSchema>;
+export type Micronutrients = z.infer<typeof MicronutrientsSchema>;
+export type NutritionSource = z.infer<typeof NutritionSourceSchema>;
+export type NutritionProvenance = z.infer<typeof NutritionProvenanceSchema>;
+export type ConsistencyReport = z.infer<typeof ConsistencyReportSchema>;
+export type DietaryWarning = z.infer<typeof DietaryWarningSchema>;
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+export type LabelNutrients = z.infer<typeof LabelNutrientsSchema>;
+export type LabelFacts = z.infer<typeof LabelFactsSchema>;
+export type LeftoversEstimate = z.infer<typeof LeftoversEstimateSchema>;
+export type RecipeIngredient = z.infer<typeof RecipeIngredientSchema>;
+export type Recipe = z.infer<typeof RecipeSchema>;
+export type SwapCandidates = z.infer<typeof SwapCandidatesSchema>;
+export type SwapGoal = z.infer<typeof SwapGoalSchema>;
+export type SwapSuggestion = z.infer<typeof SwapSuggestionSchema>;
+export type Consumption = z.infer<typeof ConsumptionSchema>;
+export type AnalysisCorrection = z.infer<typeof AnalysisCorrectionSchema>;
+export type ClarifyingQuestion = z.infer<typeof ClarifyingQuestionSchema>;
+export type ClarificationAnswer = z.infer<typeof ClarificationAnswerSchema>;
+export type AnalysisSource = z.infer<typeof AnalysisSourceSchema>;
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+
+// --- Validation with partial-output repair ---
+
+export type Validation<T> =
+  | { success: true; data: T; issues: ValidationIssue[] }
+  | { success: false; issues: ValidationIssue[] };
+
+export type AnalysisValidation = Validation<AnalysisResult>;
+
+const formatPath = (path: (string | number)[]) =>
+  path
+    .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+    .join("")
+    .replace(/^\./, "");
+
+// Removes the value an issue points at. When a required field is missing
+// inside an array element (e.g. an ingredient without a name), the whole
+// element is dropped instead (also inside the required field, when that is an
+// array). Returns false when the issue can't be repaired.
+function dropAt(target: any, issue: z.ZodIssue, requiredKey: string): boolean {
+  const path = issue.path;
+  if (path.length === 0 || (path.length === 1 && path[0] === requiredKey)) {
+    return false;
+  }
+
+  const missing =
+    issue.code === "invalid_type" && issue.received === "undefined";
+  const elementIndex = path.findLastIndex((key) => typeof key === "number");
+  const dropPath =
+    missing && elementIndex >= 0 ? path.slice(0, elementIndex + 1) : path;
+  if (missing && dropPath === path) return false;
+
+  let parent = target;
+  for (const key of dropPath.slice(0, -1)) {
+    parent = parent?.[key];
+    if (parent === null || typeof parent !== "object") return false;
+  }
+  const leaf = dropPath[dropPath.length - 1];
+  if (Array.isArray(parent) && typeof leaf === "number") {
+    parent.splice(leaf, 1);
+  } else {
+    delete parent[leaf];
+  }
+  return true;
+}
+
+// Coerces what can be fixed, drops optional fields that can't, and rejects
+// the result only when the one required field (`requiredKey`) is unusable.
+function validateWithRepair<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  raw: unknown,
+  requiredKey: string
+): Validation<T> {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      success: false,
+      issues: [{ path: "", message: "Expected a JSON object" }],
+    };
+  }
+
+  // Work on a copy; models often send explicit nulls for "unknown", treat those as absent
+  const working = JSON.parse(
+    JSON.stringify(raw, (_key, value) => (value === null ? undefined : value))
+  );
+  const issues: ValidationIssue[] = [];
+  // Each pass drops at least one bad value, so this terminates; the cap is a safety net
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const parsed = schema.safeParse(working);
+    if (parsed.success) {
+      return { success: true, data: parsed.data, issues };
+    }
+
+    // Only repair the first issue per pass: dropping an array element shifts the indexes after it
+    const issue = parsed.error.issues[0];
+    issues.push({ path: formatPath(issue.path), message: issue.message });
+    if (!dropAt(working, issue, requiredKey)) {
+      return { success: false, issues };
+    }
+  }
+  return {
+    success: false,
+    issues: [...issues, { path: "", message: "Too many invalid fields" }],
+  };
+}
+
+// Fields of AnalysisResult that only the server sets, after validation. A
+// model that sends any of them (e.g. a `label` or an `analysis_id`) must not
+// get them stored, so they are removed before the output is validated.
+const SERVER_RESULT_FIELDS = [
+  "personalized_for",
+  "consistency",
+  "nutrition_provenance",
+  "consumed",
+  "suggestions",
+  "clarification",
+  "revision",
+  "source",
+  "label",
+  "analysis_id",
+  "cached",
+  "analyzed_by",
+  "validation_issues",
+  "error",
+];
+const SERVER_ITEM_FIELDS = ["nutrition_source", "consumed_fraction"];
+// Set by grounding when the ingredient matched the reference database
+const SERVER_INGREDIENT_FIELDS = ["grams", "source", "reference_id"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const omit = (value: unknown, fields: string[]) =>
+  isObject(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter(([key]) => !fields.includes(key))
+      )
+    : value;
+
+function withoutServerFields(raw: unknown): unknown {
+  const withoutIngredientFields = (value: unknown) => {
+    if (!isObject(value) || !Array.isArray(value.ingredients)) return value;
+    const ingredients = value.ingredients.map((ingredient) =>
+      omit(ingredient, SERVER_INGREDIENT_FIELDS)
+    );
+    return { ...value, ingredients };
+  };
+
+  const result = withoutIngredientFields(omit(raw, SERVER_RESULT_FIELDS));
+  if (!isObject(result) || !Array.isArray(result.items)) return result;
+  const items = result.items.map((item) =>
+    withoutIngredientFields(omit(item, SERVER_ITEM_FIELDS))
+  );
+  return { ...result, items };
+}
+
+// Validates model output; see SERVER_RESULT_FIELDS
+export function validateAnalysisResult(raw: unknown): AnalysisValidation {
+  return validateWithRepair(
+    AnalysisResultSchema,
+    withoutServerFields(raw),
+    "contains_food"
+  );
+}
+
+export function validateLabelFacts(raw: unknown): Validation<LabelFacts> {
+  return validateWithRepair(LabelFactsSchema, raw, "is_label");
+}
+
+export function validateLeftoversEstimate(
+  raw: unknown
+): Validation<LeftoversEstimate> {
+  return validateWithRepair(LeftoversEstimateSchema, raw, "items");
+}
+
+export function validateRecipe(raw: unknown): Validation<Recipe> {
+  return validateWithRepair(RecipeSchema, raw, "ingredients");
+}
+
+export function validateSwapCandidates(
+  raw: unknown
+): Validation<SwapCandidates> {
+  return validateWithRepair(SwapCandidatesSchema, raw, "swaps");
+}
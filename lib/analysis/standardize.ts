@@ -0,0 +1,53 @@
+// lib/analysis/standardize.ts
+import type { AnalysisResult } from "./schema";
+
+// Step 6 of /api/analyze: fill in defaults and clamp values on a parsed model result
+export function standardizeAnalysisResult(raw: AnalysisResult): AnalysisResult {
+  return {
+    contains_food: raw.contains_food,
+    dish_name: raw.dish_name || (raw.contains_food ? "Unknown Dish" : "N/A"),
+    cuisine: raw.cuisine || "Unknown",
+    serving_size: raw.serving_size || "N/A",
+    cooking_method: raw.cooking_method ?? undefined,
+    ingredients: raw.ingredients || [],
+    items: raw.items || [],
+    portion_size: raw.portion_size ?? undefined,
+    total_calories: raw.total_calories ?? undefined,
+    macros: {
+      protein: raw.macros?.protein ?? undefined,
+      carbs: raw.macros?.carbs ?? undefined,
+      fiber: raw.macros?.fiber ?? undefined,
+      fat: raw.macros?.fat ?? undefined,
+      saturated_fat: raw.macros?.saturated_fat ?? undefined,
+      unsaturated_fat: raw.macros?.unsaturated_fat ?? undefined,
+    },
+    // Left undefined when not estimated, so the UI can tell "unknown" from zero
+    micronutrients: {
+      sodium: raw.micronutrients?.sodium ?? undefined,
+      sugars: raw.micronutrients?.sugars ?? undefined,
+      added_sugars: raw.micronutrients?.added_sugars ?? undefined,
+      cholesterol: raw.micronutrients?.cholesterol ?? undefined,
+      potassium: raw.micronutrients?.potassium ?? undefined,
+      calcium: raw.micronutrients?.calcium ?? undefined,
+      iron: raw.micronutrients?.iron ?? undefined,
+      vitamin_c: raw.micronutrients?.vitamin_c ?? undefined,
+    },
+    contains_caffeine: raw.contains_caffeine ?? undefined,
+    contains_alcohol: raw.contains_alcohol ?? undefined,
+    portion_comparison: raw.portion_comparison ?? undefined,
+    allergens: raw.allergens || [],
+    confidence_score:
+      typeof raw.confidence_score === "number"
+        ? Math.max(0, Math.min(1, raw.confidence_score))
+        : raw.contains_food
+        ? 0.7
+        : 0.1,
+    warnings: raw.warnings || [],
+    clarifying_questions: raw.clarifying_questions,
+    source: raw.source,
+    label: raw.label,
+    validation_issues: raw.validation_issues ?? [],
+    analyzed_by: raw.analyzed_by,
+    error: raw.error,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_DIETARY_PROFILE } from "./profile";
+import type { SwapCandidates } from "./schema";
+import {
+  formatSwapDelta,
+  rankSwaps,
+  swapDelta,
+  swapGoalsFor,
+} from "./suggestions";
+
+const candidates: SwapCandidates = {
+  swaps: [
+    {
+      item: "White rice",
+      replacement: "Brown rice",
+      before: { protein: 4, carbs: 45, fat: 0.5 },
+      after: { protein: 5, carbs: 42, fat: 1.5 },
+    },
+    {
+      item: "Paneer",
+      replacement: "Tofu",
+      before: { protein: 18, carbs: 3, fat: 20 },
+      after: { protein: 16, carbs: 3, fat: 8 },
+    },
+    {
+      item: "Raita",
+      replacement: "Peanut chutney",
+      before: { protein: 3, carbs: 5, fat: 3 },
+      after: { protein: 4, carbs: 4, fat: 1 },
+    },
+  ],
+};
+
+describe("swapGoalsFor", () => {
+  it("reads goals from the dietary preferences", () => {
+    expect(
+      swapGoalsFor({
+        allergens: [],
+        dietaryPreferences: ["High protein", "Low-carb"],
+      })
+    ).toEqual(["more_protein", "fewer_carbs"]);
+  });
+
+  it("defaults to fewer calories", () => {
+    expect(swapGoalsFor(EMPTY_DIETARY_PROFILE)).toEqual(["fewer_calories"]);
+  });
+});
+
+describe("swapDelta", () => {
+  it("computes calories from the macros", () => {
+    expect(
+      swapDelta({ protein: 18, carbs: 3, fat: 20 }, { protein: 16, fat: 8 })
+    ).toEqual({
+      calories: -128,
+      protein: -2,
+      carbs: -3,
+      fat: -12,
+      fiber: undefined,
+      saturated_fat: undefined,
+    });
+  });
+});
+
+describe("rankSwaps", () => {
+  it("puts the swap that helps the goals most first", () => {
+    const ranked = rankSwaps(
+      candidates,
+      ["fewer_calories"],
+      EMPTY_DIETARY_PROFILE
+    );
+    expect(ranked.map((swap) => swap.replacement)).toEqual([
+      "Tofu",
+      "Peanut chutney",
+    ]);
+  });
+
+  it("leaves out swaps that don't help", () => {
+    const ranked = rankSwaps(
+      candidates,
+      ["more_protein"],
+      EMPTY_DIETARY_PROFILE
+    );
+    expect(ranked.map((swap) => swap.replacement)).toEqual([
+      "Brown rice",
+      "Peanut chutney",
+    ]);
+  });
+
+  it("leaves out replacements with a listed allergen", () => {
+    const ranked = rankSwaps(candidates, ["fewer_calories"], {
+      allergens: ["Peanuts"],
+      dietaryPreferences: [],
+    });
+    expect(ranked.map((swap) => swap.replacement)).toEqual(["Tofu"]);
+  });
+});
+
+describe("formatSwapDelta", () => {
+  it("signs the change and hides changes that round to nothing", () => {
+    expect(formatSwapDelta(-180.4, "kcal")).toBe("−180 kcal");
+    expect(formatSwapDelta(6, "g", "protein")).toBe("+6g protein");
+    expect(formatSwapDelta(0.04, "g", "fat")).toBeNull();
+  });
+});
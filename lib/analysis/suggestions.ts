@@ -0,0 +1,121 @@
+// lib/analysis/suggestions.ts
+// Healthier swaps for an analysed meal (POST /api/analyze/suggestions). The
+// model proposes the swaps with the macros of each part before and after;
+// the deltas are computed here with the same energy math as NutritionDisplay,
+// then ranked by the user's goals. Safe to import on the client.
+import { KCAL_PER_GRAM, macroCalories } from "./nutrition";
+import { type DietaryProfile, listedAllergenIn } from "./profile";
+import type {
+  Macros,
+  SwapCandidates,
+  SwapGoal,
+  SwapSuggestion,
+} from "./schema";
+
+// Swaps kept per meal, best first; the model is asked for a few more
+export const MAX_SWAPS = 3;
+
+export const SWAP_GOAL_LABELS: Record<SwapGoal, string> = {
+  fewer_calories: "Fewer calories",
+  more_protein: "More protein",
+  fewer_carbs: "Fewer carbs",
+  less_fat: "Less fat",
+};
+
+// Dietary preferences (free text on the Settings page) that name a goal
+const GOAL_PATTERNS: [SwapGoal, RegExp][] = [
+  ["fewer_calories", /weight|calorie|\bcut/i],
+  ["more_protein", /protein|muscle|\bbulk/i],
+  ["fewer_carbs", /keto|low[- ]?carb|diabet/i],
+  ["less_fat", /low[- ]?fat|heart|cholesterol/i],
+];
+
+// The user's goals; fewer calories when their preferences don't name any
+export function swapGoalsFor(profile: DietaryProfile): SwapGoal[] {
+  const goals = GOAL_PATTERNS.filter(([, pattern]) =>
+    profile.dietaryPreferences.some((preference) => pattern.test(preference))
+  ).map(([goal]) => goal);
+  return goals.length > 0 ? goals : ["fewer_calories"];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// after - before, with calories from the macros (4/4/9 kcal per gram)
+export function swapDelta(
+  before: Macros,
+  after: Macros
+): SwapSuggestion["delta"] {
+  const difference = (key: keyof Macros) =>
+    round1((after[key] || 0) - (before[key] || 0));
+  const optional = (key: keyof Macros) =>
+    after[key] === undefined && before[key] === undefined
+      ? undefined
+      : difference(key);
+  return {
+    calories: Math.round(
+      macroCalories(after).total - macroCalories(before).total
+    ),
+    protein: difference("protein"),
+    carbs: difference("carbs"),
+    fat: difference("fat"),
+    fiber: optional("fiber"),
+    saturated_fat: optional("saturated_fat"),
+  };
+}
+
+// How far a swap moves the meal towards a goal, in kcal-equivalents
+const GOAL_SCORES: Record<
+  SwapGoal,
+  (delta: SwapSuggestion["delta"]) => number
+> = {
+  fewer_calories: (delta) => -delta.calories,
+  more_protein: (delta) => delta.protein * KCAL_PER_GRAM.protein,
+  fewer_carbs: (delta) => -delta.carbs * KCAL_PER_GRAM.carbs,
+  less_fat: (delta) => -delta.fat * KCAL_PER_GRAM.fat,
+};
+
+export function swapScore(
+  delta: SwapSuggestion["delta"],
+  goals: SwapGoal[]
+): number {
+  return goals.reduce((score, goal) => score + GOAL_SCORES[goal](delta), 0);
+}
+
+// The model's swaps with their deltas, best for the goals first. Swaps that
+// don't help or bring in a listed allergen are left out.
+export function rankSwaps(
+  candidates: SwapCandidates,
+  goals: SwapGoal[],
+  profile: DietaryProfile
+): SwapSuggestion[] {
+  return candidates.swaps
+    .filter((swap) => !listedAllergenIn(swap.replacement, profile))
+    .map((swap) => {
+      const delta = swapDelta(swap.before, swap.after);
+      const suggestion: SwapSuggestion = {
+        item: swap.item,
+        replacement: swap.replacement,
+        ...(swap.reason && { reason: swap.reason }),
+        delta,
+      };
+      return { suggestion, score: swapScore(delta, goals) };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SWAPS)
+    .map(({ suggestion }) => suggestion);
+}
+
+// "−180 kcal", "+6g protein"; null when the change rounds to nothing
+export function formatSwapDelta(
+  value: number,
+  unit: string,
+  label = ""
+): string | null {
+  const rounded = unit === "kcal" ? Math.round(value) : round1(value);
+  if (rounded === 0) return null;
+  const sign = rounded > 0 ? "+" : "−";
+  const separator = unit === "kcal" ? " " : "";
+  const amount = `${sign}${Math.abs(rounded)}${separator}${unit}`;
+  return label ? `${amount} ${label}` : amount;
+}
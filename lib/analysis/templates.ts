@@ -0,0 +1,121 @@
+// lib/analysis/templates.ts
+// Versioned prompt templates. Every model call is rendered from one of these,
+// and its id and version are saved with the analysis so results can be traced
+// back to the instructions and response schema that produced them.
+import type { ResponseSchema } from "@google/generative-ai";
+import {
+  ANALYSIS_PROMPT_TEXT,
+  ANALYSIS_PROMPT_VERSION,
+  CLARIFICATION_PROMPT_TEXT,
+  CLARIFICATION_PROMPT_VERSION,
+  CORRECTION_PROMPT_TEXT,
+  CORRECTION_PROMPT_VERSION,
+  LABEL_PROMPT_TEXT,
+  LABEL_PROMPT_VERSION,
+  LEFTOVERS_PROMPT_TEXT,
+  LEFTOVERS_PROMPT_VERSION,
+  RECIPE_PROMPT_TEXT,
+  RECIPE_PROMPT_VERSION,
+  SUGGESTIONS_PROMPT_TEXT,
+  SUGGESTIONS_PROMPT_VERSION,
+  TEXT_ANALYSIS_PROMPT_TEXT,
+} from "./prompt";
+import {
+  analysisResponseSchema,
+  labelResponseSchema,
+  leftoversResponseSchema,
+  recipeResponseSchema,
+  suggestionsResponseSchema,
+} from "./response-schema";
+import type {
+  AnalysisRequest,
+  AnalysisTask,
+  PromptTemplateId,
+} from "./types";
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  // Bump (in prompt.ts) whenever the text or the response schema changes
+  version: string;
+  task: AnalysisTask;
+  // Base instructions; the builders in prompt.ts add the per-request context
+  text: string;
+  responseSchema: ResponseSchema;
+}
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  "meal-photo": {
+    id: "meal-photo",
+    version: ANALYSIS_PROMPT_VERSION,
+    task: "meal",
+    text: ANALYSIS_PROMPT_TEXT,
+    responseSchema: analysisResponseSchema,
+  },
+  "meal-text": {
+    id: "meal-text",
+    version: ANALYSIS_PROMPT_VERSION,
+    task: "meal",
+    text: TEXT_ANALYSIS_PROMPT_TEXT,
+    responseSchema: analysisResponseSchema,
+  },
+  label: {
+    id: "label",
+    version: LABEL_PROMPT_VERSION,
+    task: "label",
+    text: LABEL_PROMPT_TEXT,
+    responseSchema: labelResponseSchema,
+  },
+  leftovers: {
+    id: "leftovers",
+    version: LEFTOVERS_PROMPT_VERSION,
+    task: "leftovers",
+    text: LEFTOVERS_PROMPT_TEXT,
+    responseSchema: leftoversResponseSchema,
+  },
+  correction: {
+    id: "correction",
+    version: CORRECTION_PROMPT_VERSION,
+    task: "meal",
+    text: CORRECTION_PROMPT_TEXT,
+    responseSchema: analysisResponseSchema,
+  },
+  // Re-analysis with the user's answers; the text is appended to the
+  // meal-photo or meal-text prompt, see buildClarificationPrompt()
+  clarification: {
+    id: "clarification",
+    version: CLARIFICATION_PROMPT_VERSION,
+    task: "meal",
+    text: CLARIFICATION_PROMPT_TEXT,
+    responseSchema: analysisResponseSchema,
+  },
+  recipe: {
+    id: "recipe",
+    version: RECIPE_PROMPT_VERSION,
+    task: "recipe",
+    text: RECIPE_PROMPT_TEXT,
+    responseSchema: recipeResponseSchema,
+  },
+  suggestions: {
+    id: "suggestions",
+    version: SUGGESTIONS_PROMPT_VERSION,
+    task: "suggestions",
+    text: SUGGESTIONS_PROMPT_TEXT,
+    responseSchema: suggestionsResponseSchema,
+  },
+};
+
+// The provider request for a prompt rendered from template `id`
+export function templateRequest(
+  id: PromptTemplateId,
+  promptText: string,
+  image?: AnalysisRequest["image"]
+): Omit<AnalysisRequest, "timeoutMs"> {
+  const template = PROMPT_TEMPLATES[id];
+  return {
+    promptText,
+    promptId: template.id,
+    promptVersion: template.version,
+    task: template.task,
+    image,
+  };
+}
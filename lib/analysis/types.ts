@@ -0,0 +1,119 @@
+// lib/analysis/types.ts
+// Shared types for the food analysis pipeline (used by /api/analyze and the providers).
+
+import type { AnalysisResult } from "./schema";
+
+export type { AnalysisResult };
+
+// Parsed but not yet validated JSON object returned by a model
+export type RawAnalysisOutput = Record<string, unknown>;
+
+// "label" reads a nutrition label, "leftovers" compares a leftovers photo
+// with an earlier analysis, "recipe" writes a recipe for an analysed dish and
+// "suggestions" proposes healthier swaps for it
+export type AnalysisTask =
+  | "meal"
+  | "label"
+  | "leftovers"
+  | "recipe"
+  | "suggestions";
+
+// The versioned prompt templates, see PROMPT_TEMPLATES
+export type PromptTemplateId =
+  | "meal-photo"
+  | "meal-text"
+  | "label"
+  | "leftovers"
+  | "correction"
+  | "clarification"
+  | "recipe"
+  | "suggestions";
+
+// The prompts that make a new analysis of a meal or label. The others refine
+// an existing one (corrections, clarifications, leftovers) or build on it
+// (recipes, suggestions), so they don't count as analyses in usage totals.
+export const ANALYSIS_PROMPT_IDS: PromptTemplateId[] = [
+  "meal-photo",
+  "meal-text",
+  "label",
+];
+
+// What every provider receives: the prompt plus the fetched image, if any
+// (meals logged from a text description have none)
+export interface AnalysisRequest {
+  promptText: string;
+  // The template the prompt was rendered from; selects the response schema
+  promptId?: PromptTemplateId;
+  promptVersion: string;
+  // The other tasks ask for LabelFacts-, LeftoversEstimate-, Recipe- and
+  // SwapCandidates-shaped JSON instead of an AnalysisResult
+  task?: AnalysisTask;
+  image?: {
+    mimeType: string;
+    data: string; // base64-encoded image bytes
+  };
+  // Upper bound for this call; set by the retry loop from the remaining time budget
+  timeoutMs?: number;
+}
+
+// Why a response was unusable: the model refused (safety, recitation) or
+// returned something that isn't the requested JSON
+export type ProviderFailureReason = "safety" | "bad_json";
+
+// Provider failure with enough detail for the retry loop to classify it.
+// Without an explicit `retryable`, the HTTP status decides (see isRetryableError).
+export class AnalysisProviderError extends Error {
+  readonly status?: number;
+  readonly retryable?: boolean;
+  readonly reason?: ProviderFailureReason;
+
+  constructor(
+    message: string,
+    {
+      status,
+      retryable,
+      reason,
+    }: { status?: number; retryable?: boolean; reason?: ProviderFailureReason }
+  ) {
+    super(message);
+    this.name = "AnalysisProviderError";
+    this.status = status;
+    this.retryable = retryable;
+    this.reason = reason;
+  }
+}
+
+// Tokens billed for one model call, as reported by the backend
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  // When the backend reports it (it may include e.g. cached or thinking tokens)
+  total_tokens?: number;
+}
+
+// Attaches the usage of a billed but unusable response (blocked, bad JSON) to
+// the error, so the failed attempt is still accounted for (see usageOf)
+export function withUsage(error: unknown, usage: TokenUsage | undefined) {
+  if (usage && error instanceof Error) Object.assign(error, { usage });
+  return error;
+}
+
+export function usageOf(error: unknown): TokenUsage | undefined {
+  return (error as { usage?: TokenUsage } | null)?.usage;
+}
+
+export interface AnalysisResponse {
+  output: RawAnalysisOutput;
+  // Missing when the backend doesn't report it
+  usage?: TokenUsage;
+}
+
+// A vision backend capable of turning an image + prompt into AnalysisResult-shaped JSON.
+// Validation happens in the route (see validateAnalysisResult), not in the provider.
+export interface AnalysisProvider {
+  /** Short identifier used in config and logs, e.g. "gemini". */
+  readonly name: string;
+  /** Model identifier as understood by the backend. */
+  readonly modelId: string;
+  analyze(request: AnalysisRequest): Promise<AnalysisResponse>;
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_PRICE_TABLE,
+  priceTableFromEnv,
+  recordUsageEvents,
+  sumUsage,
+  type UsageDailyRow,
+  usageCost,
+} from "./usage";
+
+const insert = vi.fn(async (_rows: unknown[]) => ({ error: null }));
+vi.mock("../supabase-service", () => ({
+  createServiceRoleClient: () => ({ from: () => ({ insert }) }),
+}));
+
+const env = (vars: Record<string, string>) =>
+  ({ NODE_ENV: "test", ...vars }) as NodeJS.ProcessEnv;
+
+describe("usageCost", () => {
+  it("prices input and output tokens per million", () => {
+    expect(
+      usageCost("gemini-1.5-pro", { input_tokens: 2_000, output_tokens: 500 })
+    ).toBeCloseTo(0.005);
+    expect(
+      usageCost("mock-v1", { input_tokens: 1_000, output_tokens: 1_000 })
+    ).toBe(0);
+  });
+
+  it("prices -latest and -00x aliases like the base model", () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000 };
+    expect(usageCost("gemini-1.5-flash-latest", usage)).toBeCloseTo(0.375);
+    expect(usageCost("gemini-1.5-flash-002", usage)).toBeCloseTo(0.375);
+  });
+
+  it("returns null for models missing from the price table", () => {
+    expect(
+      usageCost("llava", { input_tokens: 10, output_tokens: 10 })
+    ).toBeNull();
+  });
+});
+
+describe("priceTableFromEnv", () => {
+  it("adds and overrides entries from ANALYSIS_PRICE_TABLE", () => {
+    const prices = priceTableFromEnv(
+      env({
+        ANALYSIS_PRICE_TABLE:
+          '{"llava":{"input":0,"output":0},"gemini-1.5-pro":{"input":1,"output":4}}',
+      })
+    );
+    expect(prices.llava).toEqual({ input: 0, output: 0 });
+    expect(prices["gemini-1.5-pro"]).toEqual({ input: 1, output: 4 });
+    expect(prices["gemini-1.5-flash"]).toEqual(
+      DEFAULT_PRICE_TABLE["gemini-1.5-flash"]
+    );
+  });
+
+  it("falls back to the defaults on invalid JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(priceTableFromEnv(env({ ANALYSIS_PRICE_TABLE: "{llava" }))).toBe(
+      DEFAULT_PRICE_TABLE
+    );
+  });
+});
+
+describe("recordUsageEvents", () => {
+  afterEach(() => insert.mockClear());
+
+  it("saves one row per attempt with its tokens and cost", async () => {
+    await recordUsageEvents(
+      { userId: "user-1", analysisId: "analysis-1" },
+      { promptId: "meal-photo", promptVersion: "v3" },
+      [
+        {
+          provider: "gemini",
+          model: "gemini-1.5-pro",
+          error: "AI returned invalid JSON",
+          usage: { input_tokens: 1_000, output_tokens: 200 },
+          latencyMs: 900,
+        },
+        {
+          provider: "gemini",
+          model: "gemini-1.5-flash-latest",
+          usage: {
+            input_tokens: 1_000,
+            output_tokens: 200,
+            total_tokens: 1_250,
+          },
+          latencyMs: 400,
+        },
+        { provider: "local", model: "llava", error: "timeout", latencyMs: 50 },
+      ]
+    );
+
+    expect(insert).toHaveBeenCalledTimes(1);
+    const rows = insert.mock.calls[0][0] as any[];
+    expect(rows.map((row) => row.status)).toEqual([
+      "error",
+      "success",
+      "error",
+    ]);
+    expect(rows[0]).toMatchObject({
+      user_id: "user-1",
+      analysis_id: "analysis-1",
+      prompt_id: "meal-photo",
+      prompt_version: "v3",
+      total_tokens: 1_200,
+      latency_ms: 900,
+    });
+    expect(rows[0].cost_usd).toBeCloseTo(0.00225);
+    expect(rows[1].total_tokens).toBe(1_250);
+    expect(rows[1].cost_usd).toBeCloseTo(0.000135);
+    expect(rows[2]).toMatchObject({
+      input_tokens: null,
+      total_tokens: null,
+      cost_usd: null,
+    });
+  });
+
+  it("does nothing without attempts", async () => {
+    await recordUsageEvents({ userId: "user-1" }, { promptVersion: "v3" }, []);
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("sumUsage", () => {
+  it("adds up the days, counting unpriced rows as free", () => {
+    const row = (overrides: Partial<UsageDailyRow>): UsageDailyRow => ({
+      day: "2026-10-18",
+      user_id: "user-1",
+      model_id: "gemini-1.5-flash",
+      prompt_id: "meal-photo",
+      requests: 1,
+      failed_requests: 0,
+      input_tokens: 100,
+      output_tokens: 20,
+      total_tokens: 120,
+      cost_usd: 0.5,
+      ...overrides,
+    });
+    expect(
+      sumUsage([
+        row({}),
+        row({ day: "2026-10-19", failed_requests: 2, cost_usd: 0.25 }),
+        row({ model_id: "llava", cost_usd: null }),
+      ])
+    ).toEqual({
+      requests: 3,
+      failed_requests: 2,
+      input_tokens: 300,
+      output_tokens: 60,
+      total_tokens: 360,
+      cost_usd: 0.75,
+    });
+  });
+});
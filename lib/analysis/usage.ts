@@ -0,0 +1,188 @@
+// lib/analysis/usage.ts
+// Token usage and cost accounting: every model call, failed attempts
+// included, is saved as a usage_events row with its cost from the price table.
+// The usage_daily view aggregates them by day, user, model and prompt.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { logger } from "../logger";
+import { createServiceRoleClient } from "../supabase-service";
+import type { AnalysisAttempt } from "./retry";
+import type { AnalysisRequest, TokenUsage } from "./types";
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override with ANALYSIS_PRICE_TABLE
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-flash-8b": { input: 0.0375, output: 0.15 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "mock-v1": { input: 0, output: 0 },
+};
+
+// ANALYSIS_PRICE_TABLE is JSON like {"llava": {"input": 0, "output": 0}};
+// its entries are added to (and override) the defaults
+export function priceTableFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, ModelPrice> {
+  if (!env.ANALYSIS_PRICE_TABLE) return DEFAULT_PRICE_TABLE;
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(env.ANALYSIS_PRICE_TABLE) };
+  } catch (parseError: any) {
+    logger.error("Invalid ANALYSIS_PRICE_TABLE; using the default prices", {
+      error: parseError.message,
+    });
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+const priceTable = priceTableFromEnv();
+
+// Cost of one call in USD, or null for a model missing from the price table.
+// "-latest" and "-00x" aliases are priced like the base model.
+export function usageCost(
+  modelId: string,
+  usage: TokenUsage,
+  prices: Record<string, ModelPrice> = priceTable
+): number | null {
+  const price =
+    prices[modelId] ?? prices[modelId.replace(/-(latest|\d{3})$/, "")];
+  if (!price) return null;
+  return (
+    (usage.input_tokens * price.input + usage.output_tokens * price.output) /
+    1_000_000
+  );
+}
+
+export interface UsageContext {
+  userId: string;
+  // The analysis the calls were made for, if it has (or will get) an id
+  analysisId?: string;
+}
+
+// Users can read their usage_events but not write them, so they are inserted
+// as the service role; kept across requests
+let serviceClient: SupabaseClient<any> | null | undefined;
+
+// Saves one usage_events row per attempt. Failures are logged and ignored:
+// accounting must never fail an analysis.
+export async function recordUsageEvents(
+  { userId, analysisId }: UsageContext,
+  request: Pick<AnalysisRequest, "promptId" | "promptVersion">,
+  attempts: AnalysisAttempt[]
+): Promise<void> {
+  if (attempts.length === 0) return;
+  const rows = attempts.map((attempt) => ({
+    user_id: userId,
+    analysis_id: analysisId ?? null,
+    prompt_id: request.promptId ?? null,
+    prompt_version: request.promptVersion,
+    provider: attempt.provider,
+    model_id: attempt.model,
+    status: attempt.error ? "error" : "success",
+    error: attempt.error?.slice(0, 500) ?? null,
+    input_tokens: attempt.usage?.input_tokens ?? null,
+    output_tokens: attempt.usage?.output_tokens ?? null,
+    total_tokens: attempt.usage
+      ? attempt.usage.total_tokens ??
+        attempt.usage.input_tokens + attempt.usage.output_tokens
+      : null,
+    cost_usd: attempt.usage ? usageCost(attempt.model, attempt.usage) : null,
+    latency_ms: attempt.latencyMs,
+  }));
+
+  serviceClient ??= createServiceRoleClient();
+  if (!serviceClient) {
+    logger.error(
+      "Usage events not recorded: SUPABASE_SERVICE_ROLE_KEY is not set"
+    );
+    return;
+  }
+  const { error } = await serviceClient.from("usage_events").insert(rows);
+  if (error) {
+    logger.error("Error recording usage events", { error });
+  }
+}
+
+// One row of the usage_daily view
+export interface UsageDailyRow {
+  day: string; // YYYY-MM-DD (UTC)
+  user_id: string;
+  model_id: string;
+  // The template of the calls (see PROMPT_TEMPLATES); null for old events
+  prompt_id: string | null;
+  // Successful calls; failed attempts are counted apart
+  requests: number;
+  failed_requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failed_requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export function sumUsage(rows: UsageDailyRow[]): UsageTotals {
+  return rows.reduce<UsageTotals>(
+    (totals, row) => ({
+      requests: totals.requests + row.requests,
+      failed_requests: totals.failed_requests + row.failed_requests,
+      input_tokens: totals.input_tokens + row.input_tokens,
+      output_tokens: totals.output_tokens + row.output_tokens,
+      total_tokens: totals.total_tokens + row.total_tokens,
+      cost_usd: totals.cost_usd + (row.cost_usd ?? 0),
+    }),
+    {
+      requests: 0,
+      failed_requests: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+    }
+  );
+}
+
+// usage_daily rows between two UTC days (inclusive), optionally for one user.
+// What the client can see is decided by RLS.
+export async function loadUsageDaily(
+  supabase: SupabaseClient<any>,
+  { from, to, userId }: { from: string; to: string; userId?: string }
+): Promise<UsageDailyRow[]> {
+  let query = supabase
+    .from("usage_daily")
+    .select("*")
+    .gte("day", from)
+    .lte("day", to);
+  if (userId) query = query.eq("user_id", userId);
+  const { data, error } = await query
+    .order("day", { ascending: true })
+    .order("model_id", { ascending: true })
+    .order("prompt_id", { ascending: true });
+  if (error) {
+    throw new Error(`Could not load usage: ${error.message}`);
+  }
+  // bigint and numeric columns may arrive as strings
+  return (data || []).map((row: any) => ({
+    day: row.day,
+    user_id: row.user_id,
+    model_id: row.model_id,
+    prompt_id: row.prompt_id,
+    requests: Number(row.requests),
+    failed_requests: Number(row.failed_requests),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    total_tokens: Number(row.total_tokens),
+    cost_usd: row.cost_usd === null ? null : Number(row.cost_usd),
+  }));
+}
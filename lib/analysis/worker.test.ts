@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { type AnalysisJob, STALE_JOB_MS } from "./jobs";
+import { jobWorkerModeFromEnv, loadAnalysisJob } from "./worker";
+
+const env = (vars: Record<string, string>) =>
+  ({ NODE_ENV: "test", ...vars }) as NodeJS.ProcessEnv;
+
+describe("jobWorkerModeFromEnv", () => {
+  it("defaults to an external worker in production", () => {
+    expect(
+      jobWorkerModeFromEnv(
+        env({ NODE_ENV: "production", ANALYSIS_WORKER_SECRET: "secret" })
+      )
+    ).toBe("external");
+    expect(jobWorkerModeFromEnv(env({}))).toBe("inline");
+    expect(
+      jobWorkerModeFromEnv(
+        env({ NODE_ENV: "production", ANALYSIS_JOB_WORKER: "inline" })
+      )
+    ).toBe("inline");
+  });
+
+  it("refuses an external worker without its secret", () => {
+    expect(() =>
+      jobWorkerModeFromEnv(env({ NODE_ENV: "production" }))
+    ).toThrow("ANALYSIS_WORKER_SECRET is not set");
+    expect(() =>
+      jobWorkerModeFromEnv(env({ ANALYSIS_JOB_WORKER: "external" }))
+    ).toThrow("ANALYSIS_WORKER_SECRET is not set");
+  });
+
+  it("rejects unknown modes", () => {
+    expect(() =>
+      jobWorkerModeFromEnv(env({ ANALYSIS_JOB_WORKER: "cron" }))
+    ).toThrow('Unknown analysis job worker: "cron".');
+  });
+});
+
+// Answers each query with the next of `results` and records its filters
+function fakeClient(results: (AnalysisJob | null)[]) {
+  const queries: { update?: unknown; filters: [string, unknown][] }[] = [];
+  const client = {
+    from: () => {
+      const query = { update: undefined as unknown, filters: [] as any[] };
+      queries.push(query);
+      const builder: any = {
+        select: () => builder,
+        update: (changes: unknown) => {
+          query.update = changes;
+          return builder;
+        },
+        eq: (column: string, value: unknown) => {
+          query.filters.push([column, value]);
+          return builder;
+        },
+        maybeSingle: async () => ({
+          data: results.shift() ?? null,
+          error: null,
+        }),
+      };
+      return builder;
+    },
+  };
+  return { client: client as unknown as SupabaseClient<any>, queries };
+}
+
+const longAgo = new Date(Date.now() - STALE_JOB_MS - 60_000).toISOString();
+
+const job = (overrides: Partial<AnalysisJob>): AnalysisJob => ({
+  id: "6f1c2a9e-8b0d-4a57-9c3e-2d4b5a6c7e8f",
+  user_id: "user-1",
+  status: "running",
+  image_url: "https://example.com/photo.jpg",
+  image_key: null,
+  mode: "meal",
+  force: false,
+  servings: 1,
+  stage: "image_fetched",
+  preview: null,
+  result: null,
+  analysis_id: null,
+  error: null,
+  correlation_id: "corr-1",
+  created_at: longAgo,
+  started_at: longAgo,
+  finished_at: null,
+  ...overrides,
+});
+
+describe("loadAnalysisJob", () => {
+  it("returns a live job as it is", async () => {
+    const running = job({ started_at: new Date().toISOString() });
+    const user = fakeClient([running]);
+    const service = fakeClient([]);
+    expect(
+      await loadAnalysisJob(user.client, service.client, running.id)
+    ).toBe(running);
+    expect(service.queries).toHaveLength(0);
+  });
+
+  it("fails a stale job only while it is unchanged", async () => {
+    const stale = job({});
+    const failed = job({ status: "failed" });
+    const service = fakeClient([failed]);
+    expect(
+      await loadAnalysisJob(
+        fakeClient([stale]).client,
+        service.client,
+        stale.id
+      )
+    ).toBe(failed);
+    expect(service.queries[0].update).toMatchObject({ status: "failed" });
+    expect(service.queries[0].filters).toEqual([
+      ["id", stale.id],
+      ["status", "running"],
+      ["started_at", longAgo],
+    ]);
+  });
+
+  it("matches a stale queued job by when it was queued", async () => {
+    const stale = job({ status: "queued", started_at: null });
+    const service = fakeClient([job({ status: "failed" })]);
+    await loadAnalysisJob(fakeClient([stale]).client, service.client, stale.id);
+    expect(service.queries[0].update).toMatchObject({
+      error: {
+        message: "The analysis could not be started. Please try again.",
+      },
+    });
+    expect(service.queries[0].filters).toEqual([
+      ["id", stale.id],
+      ["status", "queued"],
+      ["created_at", longAgo],
+    ]);
+  });
+
+  it("reads the job again when it changed in the meantime", async () => {
+    const stale = job({});
+    const finished = job({ status: "succeeded", analysis_id: "analysis-1" });
+    const user = fakeClient([stale, finished]);
+    expect(
+      await loadAnalysisJob(user.client, fakeClient([null]).client, stale.id)
+    ).toBe(finished);
+    expect(user.queries).toHaveLength(2);
+  });
+});
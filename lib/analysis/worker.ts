@@ -0,0 +1,320 @@
+// lib/analysis/worker.ts
+// Creates and runs analysis jobs (see ./jobs.ts). With ANALYSIS_JOB_WORKER
+// "inline" the server that accepted the job runs it once the response is
+// sent; with "external" jobs stay queued until POST /api/analyze/jobs/run
+// claims them (from a cron or a queue consumer), outside any user request.
+// Job rows are only written here, as the service role: users can read and
+// dismiss their jobs but not change what is run or what it returned.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { API_ERROR_CODES } from "../api-errors/envelope";
+import { type Logger, logger } from "../logger";
+import { imageKeyFromUrl } from "../s3";
+import { isOwnUploadKey } from "./batch";
+import type { AnalysisStreamEvent } from "./events";
+import { type AnalysisJob, type AnalysisJobError, isJobStale } from "./jobs";
+import {
+  AnalysisPipelineError,
+  analysisDeadline,
+  runAnalysisPipeline,
+  storedImageUrl,
+} from "./pipeline";
+import { loadDietaryProfile } from "./profile";
+import type { AnalysisProvider, AnalysisTask } from "./types";
+
+export type JobWorkerMode = "inline" | "external";
+
+// Defaults to "external" in production and "inline" otherwise. Inline is for
+// development only: serverless hosts may stop the function once the response
+// is sent, and the job with it. External throws without ANALYSIS_WORKER_SECRET,
+// which the run endpoint needs: jobs would be queued that nothing can run.
+export function jobWorkerModeFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): JobWorkerMode {
+  const mode =
+    env.ANALYSIS_JOB_WORKER ||
+    (env.NODE_ENV === "production" ? "external" : "inline");
+  if (mode !== "inline" && mode !== "external") {
+    throw new Error(`Unknown analysis job worker: "${mode}".`);
+  }
+  if (mode === "external" && !env.ANALYSIS_WORKER_SECRET) {
+    throw new Error(
+      "Analysis jobs are left to an external worker, but ANALYSIS_WORKER_SECRET is not set."
+    );
+  }
+  return mode;
+}
+
+export interface NewAnalysisJob {
+  userId: string;
+  imageUrl: string;
+  force: boolean;
+  mode: AnalysisTask;
+  servings: number;
+  correlationId: string;
+}
+
+// Queues a job for `job.userId`. The photo's S3 key is kept when it is one of
+// the user's uploads, so the job can sign it again when it runs: queued jobs
+// and retries would otherwise be stuck with an expired URL.
+export async function createAnalysisJob(
+  serviceClient: SupabaseClient<any>,
+  job: NewAnalysisJob
+): Promise<AnalysisJob> {
+  const imageKey = imageKeyFromUrl(job.imageUrl);
+  const { data, error } = await serviceClient
+    .from("analysis_jobs")
+    .insert({
+      user_id: job.userId,
+      image_url: job.imageUrl,
+      image_key:
+        imageKey && isOwnUploadKey(imageKey, job.userId) ? imageKey : null,
+      force: job.force,
+      mode: job.mode,
+      servings: job.servings,
+      correlation_id: job.correlationId,
+    })
+    .select("*")
+    .single();
+  if (error) {
+    throw new Error(`Could not queue the analysis: ${error.message}`);
+  }
+  return data as AnalysisJob;
+}
+
+// The caller's job, or null when there is no such job (RLS hides other
+// users' jobs). A job whose worker died, or that no worker picked up, is
+// marked failed on the way.
+export async function loadAnalysisJob(
+  supabase: SupabaseClient<any>,
+  serviceClient: SupabaseClient<any>,
+  jobId: string
+): Promise<AnalysisJob | null> {
+  const job = await selectJob(supabase, jobId);
+  if (!job || !isJobStale(job)) return job;
+
+  // Only while the job is as it was read: a worker may have claimed or
+  // finished it since, or a retry queued it again
+  const stale = serviceClient
+    .from("analysis_jobs")
+    .update({
+      status: "failed",
+      error: jobError(
+        "INTERNAL_ERROR",
+        job.status === "queued"
+          ? "The analysis could not be started. Please try again."
+          : "The analysis was interrupted. Please try again.",
+        job.correlation_id
+      ),
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", job.status);
+  const { data: failed, error } = await (job.status === "queued"
+    ? stale.eq("created_at", job.created_at)
+    : stale.eq("started_at", job.started_at)
+  )
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Could not update the analysis job: ${error.message}`);
+  }
+  // No row matched: it changed in the meantime, so report it as it is now
+  return (failed as AnalysisJob | null) ?? selectJob(supabase, jobId);
+}
+
+async function selectJob(
+  supabase: SupabaseClient<any>,
+  jobId: string
+): Promise<AnalysisJob | null> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Could not load the analysis job: ${error.message}`);
+  }
+  return data as AnalysisJob | null;
+}
+
+// Queues a failed job again, with the same photo and options, under the
+// correlation id of the retry request. Null when the job is not failed.
+export async function requeueAnalysisJob(
+  serviceClient: SupabaseClient<any>,
+  job: AnalysisJob,
+  correlationId: string
+): Promise<AnalysisJob | null> {
+  const { data, error } = await serviceClient
+    .from("analysis_jobs")
+    .update({
+      status: "queued",
+      stage: null,
+      preview: null,
+      result: null,
+      analysis_id: null,
+      error: null,
+      correlation_id: correlationId,
+      // Stale is measured from here (see isJobStale)
+      created_at: new Date().toISOString(),
+      started_at: null,
+      finished_at: null,
+    })
+    .eq("id", job.id)
+    .eq("status", "failed")
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Could not queue the analysis again: ${error.message}`);
+  }
+  return data as AnalysisJob | null;
+}
+
+// Hands the oldest queued job to the calling worker, marked running. Needs
+// the service role: claimable jobs belong to any user.
+export async function claimAnalysisJob(
+  serviceClient: SupabaseClient<any>
+): Promise<AnalysisJob | null> {
+  const { data, error } = await serviceClient.rpc("claim_analysis_job");
+  if (error) {
+    throw new Error(`Could not claim an analysis job: ${error.message}`);
+  }
+  return ((data as AnalysisJob[] | null) ?? [])[0] ?? null;
+}
+
+export interface RunAnalysisJobInput {
+  providers: AnalysisProvider[];
+  // For the pipeline: the submitter's session (inline) or the service role
+  // (external)
+  supabase: SupabaseClient<any>;
+  // For the job's own row
+  serviceClient: SupabaseClient<any>;
+  job: AnalysisJob;
+  log?: Logger;
+}
+
+// Runs the photo pipeline for `job`, recording each stage as it is reached
+// and the outcome at the end. Never throws: failures end up in the job.
+export async function runAnalysisJob({
+  providers,
+  supabase,
+  serviceClient,
+  job,
+  log = logger,
+}: RunAnalysisJobInput): Promise<AnalysisJob> {
+  const jobLog = log.child({ job_id: job.id });
+  const span = jobLog.span("analysis_job", { mode: job.mode });
+  const startTime = Date.now();
+
+  // Progress updates are written in order, without holding up the pipeline
+  let progress: Promise<unknown> = Promise.resolve();
+  const record = (changes: Partial<AnalysisJob>) => {
+    progress = progress
+      .then(() => updateJob(serviceClient, job.id, changes))
+      .catch((error) =>
+        jobLog.warn("Could not record job progress", { error })
+      );
+  };
+  const emit = (event: AnalysisStreamEvent) => {
+    switch (event.type) {
+      case "image_fetched":
+      case "model_responded":
+      case "saved":
+        record({ stage: event.type });
+        break;
+      case "partial":
+        record({ preview: event.data });
+        break;
+      case "validated":
+        record({ stage: event.type, result: event.data });
+        break;
+    }
+  };
+  record({
+    status: "running",
+    started_at: job.started_at ?? new Date(startTime).toISOString(),
+  });
+
+  let outcome: Partial<AnalysisJob>;
+  try {
+    const imageUrl = await storedImageUrl(job, job.user_id, jobLog);
+    if (imageUrl !== job.image_url) record({ image_url: imageUrl });
+    const profile = await loadDietaryProfile(supabase, job.user_id, jobLog);
+    const result = await runAnalysisPipeline(
+      {
+        providers,
+        supabase,
+        // The job's owner, also when the worker runs as the service role
+        userId: job.user_id,
+        imageUrl,
+        force: job.force,
+        mode: job.mode,
+        servings: Number(job.servings) || 1,
+        deadline: analysisDeadline(startTime),
+        profile,
+        log: jobLog,
+      },
+      emit
+    );
+    outcome = {
+      status: "succeeded",
+      result,
+      analysis_id: result.analysis_id ?? null,
+    };
+    span.end({ status: "succeeded" });
+  } catch (error: any) {
+    span.fail(error, { status: "failed" });
+    outcome = {
+      status: "failed",
+      error: jobError(
+        error instanceof AnalysisPipelineError ? error.code : "INTERNAL_ERROR",
+        error?.message || "An unexpected server error occurred.",
+        job.correlation_id,
+        error instanceof AnalysisPipelineError
+          ? error.validationIssues
+          : undefined
+      ),
+    };
+  }
+
+  await progress;
+  const finished = { ...outcome, finished_at: new Date().toISOString() };
+  try {
+    return { ...job, ...(await updateJob(serviceClient, job.id, finished)) };
+  } catch (error: any) {
+    // The job stays "running" until it goes stale
+    jobLog.error("Could not record the analysis job outcome", { error });
+    return { ...job, ...finished };
+  }
+}
+
+async function updateJob(
+  supabase: SupabaseClient<any>,
+  jobId: string,
+  changes: Partial<AnalysisJob>
+): Promise<AnalysisJob> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .update(changes)
+    .eq("id", jobId)
+    .select("*")
+    .single();
+  if (error) {
+    throw new Error(`Could not update the analysis job: ${error.message}`);
+  }
+  return data as AnalysisJob;
+}
+
+function jobError(
+  code: AnalysisJobError["code"],
+  message: string,
+  correlationId: string | null,
+  validationIssues?: AnalysisJobError["validation_issues"]
+): AnalysisJobError {
+  return {
+    code,
+    message,
+    retryable: API_ERROR_CODES[code].retryable,
+    correlation_id: correlationId ?? "",
+    ...(validationIssues && { validation_issues: validationIssues }),
+  };
+}
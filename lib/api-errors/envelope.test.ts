@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApiError,
+  apiErrorAction,
+  apiErrorFromBody,
+  readApiError,
+  withCorrelationRef,
+} from "./envelope";
+
+describe("apiErrorFromBody", () => {
+  it("reads an envelope body", () => {
+    const error = apiErrorFromBody(
+      {
+        error: "Daily limit reached",
+        code: "QUOTA_EXCEEDED",
+        retryable: true,
+        correlation_id: "1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed",
+        retry_after_seconds: 120,
+      },
+      429
+    );
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      message: "Daily limit reached",
+      code: "QUOTA_EXCEEDED",
+      status: 429,
+      retryable: true,
+      correlationId: "1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed",
+      retryAfterSeconds: 120,
+    });
+  });
+
+  it("keeps the body's retryable over the code's default", () => {
+    const error = apiErrorFromBody(
+      { error: "Try later", code: "AI_SAFETY_BLOCK", retryable: true },
+      422
+    );
+    expect(error.retryable).toBe(true);
+    expect(
+      apiErrorFromBody({ error: "Blocked", code: "AI_SAFETY_BLOCK" }, 422)
+        .retryable
+    ).toBe(false);
+  });
+
+  it("classifies bodies without a known code by status", () => {
+    expect(apiErrorFromBody({ error: "Nope" }, 401).code).toBe(
+      "AUTH_REQUIRED"
+    );
+    expect(apiErrorFromBody({ code: "TEAPOT" }, 418).code).toBe(
+      "INVALID_REQUEST"
+    );
+    expect(apiErrorFromBody(null, 504).code).toBe("AI_TIMEOUT");
+    expect(apiErrorFromBody("<html>", 502)).toMatchObject({
+      code: "INTERNAL_ERROR",
+      retryable: true,
+      message: "Request failed with status 502",
+    });
+  });
+
+  it("falls back to a message field", () => {
+    expect(apiErrorFromBody({ message: "Gateway timeout" }, 504).message).toBe(
+      "Gateway timeout"
+    );
+  });
+});
+
+describe("readApiError", () => {
+  it("takes the correlation id from the header when the body has none", async () => {
+    const error = await readApiError(
+      new Response("Bad gateway", {
+        status: 502,
+        headers: { "X-Correlation-Id": "abc12345-0000" },
+      })
+    );
+    expect(error).toMatchObject({
+      code: "INTERNAL_ERROR",
+      correlationId: "abc12345-0000",
+    });
+    expect(withCorrelationRef(error)).toBe(
+      "Request failed with status 502 (ref abc12345)"
+    );
+  });
+});
+
+describe("apiErrorAction", () => {
+  const action = (code: ApiError["code"], retryable?: boolean) =>
+    apiErrorAction(new ApiError("failed", { code, status: 400, retryable }));
+
+  it("maps codes to what the user can do", () => {
+    expect(action("AUTH_REQUIRED")).toBe("sign_in");
+    expect(action("FILE_TOO_LARGE")).toBe("choose_file");
+    expect(action("UNSUPPORTED_MEDIA")).toBe("choose_file");
+    expect(action("IMAGE_FETCH_FAILED")).toBe("reupload");
+    expect(action("QUOTA_EXCEEDED")).toBe("wait");
+  });
+
+  it("offers a retry only for retryable errors", () => {
+    expect(action("AI_TIMEOUT")).toBe("retry");
+    expect(action("AI_SAFETY_BLOCK")).toBe("none");
+    expect(action("INTERNAL_ERROR", false)).toBe("none");
+  });
+});
@@ -0,0 +1,198 @@
+// lib/api-errors/envelope.ts
+// The error body every API route returns, and the stable codes in it. Shared
+// with the dashboard and components, so it must stay free of server-only
+// imports.
+import type { AnalysisErrorCode } from "../analysis/events";
+import type { ValidationIssue } from "../analysis/schema";
+
+export type ApiErrorCode =
+  | AnalysisErrorCode
+  | "AUTH_REQUIRED"
+  | "FORBIDDEN"
+  | "INVALID_REQUEST"
+  | "FILE_TOO_LARGE"
+  | "UNSUPPORTED_MEDIA"
+  | "QUOTA_EXCEEDED"
+  | "UPLOAD_FAILED"
+  | "SERVICE_UNAVAILABLE";
+
+// Default HTTP status of each code, and whether sending the same request
+// again later can succeed
+export const API_ERROR_CODES: Record<
+  ApiErrorCode,
+  { status: number; retryable: boolean }
+> = {
+  AUTH_REQUIRED: { status: 401, retryable: false },
+  FORBIDDEN: { status: 403, retryable: false },
+  INVALID_REQUEST: { status: 400, retryable: false },
+  FILE_TOO_LARGE: { status: 413, retryable: false },
+  UNSUPPORTED_MEDIA: { status: 415, retryable: false },
+  QUOTA_EXCEEDED: { status: 429, retryable: true },
+  UPLOAD_FAILED: { status: 502, retryable: true },
+  SERVICE_UNAVAILABLE: { status: 503, retryable: false },
+  IMAGE_FETCH_TIMEOUT: { status: 400, retryable: true },
+  // Usually an expired pre-signed URL: uploading again is the fix
+  IMAGE_FETCH_FAILED: { status: 400, retryable: false },
+  AI_PROVIDER_ERROR: { status: 500, retryable: true },
+  AI_TIMEOUT: { status: 504, retryable: true },
+  AI_SAFETY_BLOCK: { status: 422, retryable: false },
+  AI_BAD_JSON: { status: 502, retryable: true },
+  AI_VALIDATION_FAILED: { status: 500, retryable: true },
+  ANALYSIS_NOT_FOUND: { status: 404, retryable: false },
+  CORRECTION_NOT_SUPPORTED: { status: 400, retryable: false },
+  // Another correction was saved first; sending it again applies it on top
+  ANALYSIS_CHANGED: { status: 409, retryable: true },
+  INVALID_CLARIFICATION: { status: 400, retryable: false },
+  RECIPE_NOT_SUPPORTED: { status: 400, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: true },
+};
+
+// Sent with every error response, and matched by the server logs
+export const CORRELATION_ID_HEADER = "X-Correlation-Id";
+
+export interface ApiErrorBody {
+  error: string; // human-readable message
+  code: ApiErrorCode;
+  retryable: boolean;
+  correlation_id: string;
+  // QUOTA_EXCEEDED only (also sent as Retry-After)
+  retry_after_seconds?: number;
+  // AI_VALIDATION_FAILED only
+  validation_issues?: ValidationIssue[];
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === "string" && value in API_ERROR_CODES;
+}
+
+// Codes for responses that predate the envelope or never reached a route
+// (proxies, platform timeouts)
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 401:
+      return "AUTH_REQUIRED";
+    case 403:
+      return "FORBIDDEN";
+    case 413:
+      return "FILE_TOO_LARGE";
+    case 415:
+      return "UNSUPPORTED_MEDIA";
+    case 429:
+      return "QUOTA_EXCEEDED";
+    case 503:
+      return "SERVICE_UNAVAILABLE";
+    case 504:
+      return "AI_TIMEOUT";
+    default:
+      return status >= 400 && status < 500
+        ? "INVALID_REQUEST"
+        : "INTERNAL_ERROR";
+  }
+}
+
+// A failed API call, as seen by the client
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly correlationId?: string;
+  readonly retryAfterSeconds?: number;
+  readonly validationIssues?: ValidationIssue[];
+
+  constructor(
+    message: string,
+    {
+      code,
+      status,
+      retryable,
+      correlationId,
+      retryAfterSeconds,
+      validationIssues,
+    }: {
+      code: ApiErrorCode;
+      status: number;
+      retryable?: boolean;
+      correlationId?: string;
+      retryAfterSeconds?: number;
+      validationIssues?: ValidationIssue[];
+    }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable ?? API_ERROR_CODES[code].retryable;
+    this.correlationId = correlationId;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.validationIssues = validationIssues;
+  }
+}
+
+// Builds an ApiError from an envelope-shaped body (a JSON response or a
+// stream error event); anything else is classified by its status
+export function apiErrorFromBody(body: any, status: number): ApiError {
+  const code = isApiErrorCode(body?.code) ? body.code : codeForStatus(status);
+  const message =
+    (typeof body?.error === "string" && body.error) ||
+    (typeof body?.message === "string" && body.message) ||
+    `Request failed with status ${status}`;
+  return new ApiError(message, {
+    code,
+    status,
+    retryable:
+      typeof body?.retryable === "boolean" ? body.retryable : undefined,
+    correlationId: body?.correlation_id,
+    retryAfterSeconds: body?.retry_after_seconds,
+    validationIssues: body?.validation_issues,
+  });
+}
+
+// Reads the error of a non-OK response; never throws
+export async function readApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  return apiErrorFromBody(
+    {
+      correlation_id: response.headers.get(CORRELATION_ID_HEADER) ?? undefined,
+      ...body,
+    },
+    response.status
+  );
+}
+
+// What the UI should offer for an error:
+// - "sign_in": the session is missing or expired
+// - "choose_file": the file itself was refused; pick another one
+// - "reupload": the uploaded image can no longer be read; upload it again
+// - "wait": over quota; retry after retryAfterSeconds
+// - "retry": a transient failure; the same request may succeed
+// - "none": retrying won't help (e.g. a safety block or a bad request)
+export type ApiErrorAction =
+  | "sign_in"
+  | "choose_file"
+  | "reupload"
+  | "wait"
+  | "retry"
+  | "none";
+
+export function apiErrorAction(error: ApiError): ApiErrorAction {
+  switch (error.code) {
+    case "AUTH_REQUIRED":
+      return "sign_in";
+    case "FILE_TOO_LARGE":
+    case "UNSUPPORTED_MEDIA":
+      return "choose_file";
+    case "IMAGE_FETCH_FAILED":
+      return "reupload";
+    case "QUOTA_EXCEEDED":
+      return "wait";
+    default:
+      return error.retryable ? "retry" : "none";
+  }
+}
+
+// "... (ref 1b9d6bcd)": lets users quote the failure to support
+export function withCorrelationRef(error: ApiError): string {
+  return error.correlationId
+    ? `${error.message} (ref ${error.correlationId.slice(0, 8)})`
+    : error.message;
+}
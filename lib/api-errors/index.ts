@@ -0,0 +1,87 @@
+// lib/api-errors/index.ts
+// Builds the shared error envelope (see ./envelope.ts) for the API routes.
+// Each request gets a correlation id, returned in the body and the
+// X-Correlation-Id header and logged with the failure.
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import type { ValidationIssue } from "../analysis/schema";
+import { type Logger, logger } from "../logger";
+import {
+  API_ERROR_CODES,
+  type ApiErrorBody,
+  type ApiErrorCode,
+  CORRELATION_ID_HEADER,
+} from "./envelope";
+
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{8,64}$/;
+
+// Reuses a well-formed X-Correlation-Id sent by the caller (or a proxy in
+// front of the app), otherwise starts a new one
+export function correlationIdFor(request: Request): string {
+  const incoming = request.headers.get(CORRELATION_ID_HEADER);
+  return incoming && CORRELATION_ID_PATTERN.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+export interface ApiErrorOptions {
+  correlationId: string;
+  // The request's logger (see requestLogger); the failure is logged with it
+  log?: Logger;
+  // Defaults to the code's status in API_ERROR_CODES
+  status?: number;
+  headers?: Record<string, string>;
+  retryAfterSeconds?: number;
+  validationIssues?: ValidationIssue[];
+  // Route-specific fields kept for older clients, e.g. contains_food: false
+  extra?: Record<string, unknown>;
+}
+
+export function apiErrorBody(
+  code: ApiErrorCode,
+  message: string,
+  {
+    correlationId,
+    retryAfterSeconds,
+    validationIssues,
+  }: Pick<
+    ApiErrorOptions,
+    "correlationId" | "retryAfterSeconds" | "validationIssues"
+  >
+): ApiErrorBody {
+  return {
+    error: message,
+    code,
+    retryable: API_ERROR_CODES[code].retryable,
+    correlation_id: correlationId,
+    ...(retryAfterSeconds !== undefined && {
+      retry_after_seconds: retryAfterSeconds,
+    }),
+    ...(validationIssues && { validation_issues: validationIssues }),
+  };
+}
+
+export function apiErrorResponse(
+  code: ApiErrorCode,
+  message: string,
+  options: ApiErrorOptions
+): NextResponse {
+  const status = options.status ?? API_ERROR_CODES[code].status;
+  const log =
+    options.log ?? logger.child({ correlation_id: options.correlationId });
+  log[status >= 500 ? "error" : "warn"]("API error response", {
+    code,
+    status,
+    error: message,
+  });
+  return NextResponse.json(
+    { ...options.extra, ...apiErrorBody(code, message, options) },
+    {
+      status,
+      headers: {
+        ...options.headers,
+        [CORRELATION_ID_HEADER]: options.correlationId,
+      },
+    }
+  );
+}
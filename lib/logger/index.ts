@@ -0,0 +1,169 @@
+// lib/logger/index.ts
+// Structured logging for the API routes and the analysis pipeline: one JSON
+// object per line, redacted (see ./redact.ts), tagged with the request's
+// correlation id. Pipeline stages are logged as timed spans, so latency per
+// stage can be queried from the `span` and `duration_ms` fields.
+import { randomUUID } from "crypto";
+import { redact, redactString } from "./redact";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // Share of requests (0-1) whose debug and info lines are written;
+  // warnings and errors always are
+  sampleRate: number;
+}
+
+// LOG_LEVEL defaults to "info" in production and "debug" otherwise;
+// LOG_SAMPLE_RATE to 1 (every request)
+export function loggerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): LoggerOptions {
+  const level =
+    env.LOG_LEVEL && env.LOG_LEVEL in LEVELS
+      ? (env.LOG_LEVEL as LogLevel)
+      : env.NODE_ENV === "production"
+      ? "info"
+      : "debug";
+  const rate = Number(env.LOG_SAMPLE_RATE);
+  return {
+    level,
+    sampleRate:
+      env.LOG_SAMPLE_RATE !== undefined && Number.isFinite(rate)
+        ? Math.min(1, Math.max(0, rate))
+        : 1,
+  };
+}
+
+const defaultOptions = loggerOptionsFromEnv();
+
+export interface Span {
+  // Logs the span and its duration; returns the duration in ms
+  end(fields?: LogFields): number;
+  // The same for a stage that threw, at warn level
+  fail(error: unknown, fields?: LogFields): number;
+}
+
+export class Logger {
+  private readonly bindings: LogFields;
+  private readonly options: LoggerOptions;
+  // Whether the debug and info lines of this request are written
+  private readonly sampled: boolean;
+
+  constructor(
+    bindings: LogFields = {},
+    options: LoggerOptions = defaultOptions,
+    sampled = true
+  ) {
+    this.bindings = bindings;
+    this.options = options;
+    this.sampled = sampled;
+  }
+
+  // A logger that adds `bindings` to every line
+  child(bindings: LogFields): Logger {
+    return new Logger(
+      { ...this.bindings, ...bindings },
+      this.options,
+      this.sampled
+    );
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.write("error", msg, fields);
+  }
+
+  // Starts timing a stage; nothing is written until it ends
+  span(name: string, fields?: LogFields): Span {
+    const startedAt = Date.now();
+    return {
+      end: (endFields) => {
+        const durationMs = Date.now() - startedAt;
+        this.write("info", `${name} done`, {
+          span: name,
+          duration_ms: durationMs,
+          ...fields,
+          ...endFields,
+        });
+        return durationMs;
+      },
+      fail: (error, endFields) => {
+        const durationMs = Date.now() - startedAt;
+        this.write("warn", `${name} failed`, {
+          span: name,
+          duration_ms: durationMs,
+          ...fields,
+          ...endFields,
+          error,
+        });
+        return durationMs;
+      },
+    };
+  }
+
+  // Runs `fn` inside a span that ends (or fails) when it settles
+  async time<T>(
+    name: string,
+    fn: () => Promise<T>,
+    fields?: LogFields
+  ): Promise<T> {
+    const span = this.span(name, fields);
+    try {
+      const result = await fn();
+      span.end();
+      return result;
+    } catch (error) {
+      span.fail(error);
+      throw error;
+    }
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields) {
+    if (LEVELS[level] < LEVELS[this.options.level]) return;
+    if (!this.sampled && LEVELS[level] < LEVELS.warn) return;
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: redactString(msg),
+      ...(redact({ ...this.bindings, ...fields }) as LogFields),
+    });
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  }
+}
+
+// For code that runs outside a request (provider setup, shared helpers)
+export const logger = new Logger();
+
+// The logger of one API request. `correlationId` comes from correlationIdFor(),
+// so a flow like upload -> analyze shares it; request_id is unique per request.
+// Sampling is decided once, keeping a request's lines all-or-nothing.
+export function requestLogger(route: string, correlationId: string): Logger {
+  return new Logger(
+    { route, correlation_id: correlationId, request_id: randomUUID() },
+    defaultOptions,
+    Math.random() < defaultOptions.sampleRate
+  );
+}
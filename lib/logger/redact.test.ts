@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { REDACTED, redact, redactString } from "./redact";
+
+describe("redactString", () => {
+  it("strips S3 signatures and temporary credentials", () => {
+    const url =
+      "https://bucket.s3.amazonaws.com/uploads/a.jpg?X-Amz-Credential=AKIA123&X-Amz-Signature=abc123&X-Amz-Expires=3600";
+    expect(redactString(url)).toBe(
+      `https://bucket.s3.amazonaws.com/uploads/a.jpg?X-Amz-Credential=${REDACTED}&X-Amz-Signature=${REDACTED}&X-Amz-Expires=3600`
+    );
+  });
+
+  it("strips API keys, bearer tokens, JWTs and email addresses", () => {
+    expect(redactString("GET /v1/models?key=AIzaSecret")).toBe(
+      `GET /v1/models?key=${REDACTED}`
+    );
+    expect(redactString("Authorization: Bearer abc.def")).toBe(
+      `Authorization: Bearer ${REDACTED}`
+    );
+    expect(redactString("token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl")).toBe(
+      `token ${REDACTED}`
+    );
+    expect(redactString("No profile for asha@example.com")).toBe(
+      "No profile for [EMAIL]"
+    );
+  });
+});
+
+describe("redact", () => {
+  it("drops secret fields and keeps usage counters", () => {
+    expect(
+      redact({
+        Authorization: "Basic xyz",
+        usage: { input_tokens: 120 },
+        nested: [{ password: "hunter2", note: "mail me at a@b.co" }],
+      })
+    ).toEqual({
+      Authorization: REDACTED,
+      usage: { input_tokens: 120 },
+      nested: [{ password: REDACTED, note: "mail me at [EMAIL]" }],
+    });
+  });
+
+  it("makes errors and buffers safe to serialize", () => {
+    const error = Object.assign(
+      new Error("upload to https://x.test/?token=abc failed"),
+      { code: "ECONNRESET" }
+    );
+    const redacted = redact(error) as Record<string, unknown>;
+    expect(redacted).toMatchObject({
+      name: "Error",
+      message: `upload to https://x.test/?token=${REDACTED} failed`,
+      code: "ECONNRESET",
+    });
+    expect(redact(Buffer.alloc(3))).toBe("[Buffer 3 bytes]");
+  });
+});
@@ -0,0 +1,78 @@
+// lib/logger/redact.ts
+// Strips secrets and personal data from anything about to be logged: S3 URL
+// signatures, bearer tokens and JWTs, API keys in query strings, and email
+// addresses. Fields whose name marks them as secret are dropped outright.
+
+export const REDACTED = "[REDACTED]";
+
+// Compared against lower-cased field names; deliberately exact, so usage
+// fields like input_tokens are kept
+const SECRET_FIELDS = new Set([
+  "password",
+  "secret",
+  "token",
+  "access_token",
+  "refresh_token",
+  "authorization",
+  "cookie",
+  "apikey",
+  "api_key",
+  "signature",
+  "credentials",
+]);
+
+const STRING_PATTERNS: [RegExp, string][] = [
+  // Pre-signed S3 URLs: the signature and the temporary credentials
+  [
+    /(X-Amz-(?:Signature|Credential|Security-Token)=)[^&\s"']+/gi,
+    `$1${REDACTED}`,
+  ],
+  // Gemini-style ?key=..., and generic token parameters
+  [
+    /([?&](?:key|api_key|apikey|token|access_token)=)[^&\s"']+/gi,
+    `$1${REDACTED}`,
+  ],
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/g, `Bearer ${REDACTED}`],
+  // Supabase access tokens and other JWTs
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, REDACTED],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, "[EMAIL]"],
+];
+
+export function redactString(text: string): string {
+  return STRING_PATTERNS.reduce(
+    (redacted, [pattern, replacement]) =>
+      redacted.replace(pattern, replacement),
+    text
+  );
+}
+
+const MAX_DEPTH = 6;
+
+// Returns a redacted, JSON-safe copy of `value`. Errors become
+// { name, message, stack } and Buffers their length.
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") {
+    return typeof value === "bigint" ? value.toString() : value;
+  }
+  if (depth >= MAX_DEPTH) return "[Truncated]";
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...((value as any).code !== undefined && { code: (value as any).code }),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_FIELDS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1),
+    ])
+  );
+}
@@ -0,0 +1,30 @@
+// lib/rate-limit/headers.ts
+// Quota headers sent by rate-limited routes. Shared with the dashboard, so it
+// must stay free of server-only imports.
+
+// The daily quota and what is left of it after the current request
+export const QUOTA_LIMIT_HEADER = "X-RateLimit-Limit";
+export const QUOTA_REMAINING_HEADER = "X-RateLimit-Remaining";
+
+export interface QuotaStatus {
+  limit: number;
+  remaining: number;
+}
+
+export function readQuotaHeaders(headers: Headers): QuotaStatus | null {
+  const limit = Number(headers.get(QUOTA_LIMIT_HEADER));
+  const remaining = Number(headers.get(QUOTA_REMAINING_HEADER));
+  if (!headers.has(QUOTA_LIMIT_HEADER) || !Number.isFinite(limit)) {
+    return null;
+  }
+  return { limit, remaining: Number.isFinite(remaining) ? remaining : 0 };
+}
+
+// "42 seconds", "5 minutes", "3 hours"
+export function formatRetryAfter(seconds: number): string {
+  const plural = (value: number, unit: string) =>
+    `${value} ${unit}${value === 1 ? "" : "s"}`;
+  if (seconds < 60) return plural(Math.max(1, Math.ceil(seconds)), "second");
+  if (seconds < 3600) return plural(Math.ceil(seconds / 60), "minute");
+  return plural(Math.ceil(seconds / 3600), "hour");
+}
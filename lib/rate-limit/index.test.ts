@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Logger } from "../logger";
+import {
+  checkRateLimit,
+  rateLimitFailsOpen,
+  rateLimitHeaders,
+  rateLimitMessage,
+  rateLimitWindowsFromEnv,
+} from ".";
+
+// Outside production the memory store is used, which never touches Supabase
+const log = new Logger({}, { level: "error", sampleRate: 1 });
+
+describe("rateLimitWindowsFromEnv", () => {
+  it("uses the defaults of the bucket", () => {
+    expect(rateLimitWindowsFromEnv("analyze", {} as NodeJS.ProcessEnv)).toEqual(
+      [
+        { name: "burst", limit: 5, windowMs: 60_000 },
+        { name: "daily", limit: 50, windowMs: 86_400_000 },
+      ]
+    );
+  });
+
+  it("reads overrides, ignores invalid values and turns off zero limits", () => {
+    const env = {
+      NODE_ENV: "test",
+      RATE_LIMIT_UPLOAD_BURST: "0",
+      RATE_LIMIT_UPLOAD_DAILY: "2.5",
+    } as NodeJS.ProcessEnv;
+    expect(rateLimitWindowsFromEnv("upload", env)).toEqual([
+      { name: "daily", limit: 100, windowMs: 86_400_000 },
+    ]);
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("reports the daily quota and refuses the request after the burst", async () => {
+    const userId = crypto.randomUUID();
+    for (let request = 1; request <= 5; request++) {
+      const decision = await checkRateLimit(userId, "analyze", log);
+      expect(decision).toEqual({
+        allowed: true,
+        limit: 50,
+        remaining: 50 - request,
+      });
+    }
+
+    const refused = await checkRateLimit(userId, "analyze", log);
+    expect(refused).toMatchObject({
+      allowed: false,
+      blockedBy: "burst",
+      remaining: 45,
+    });
+    expect(refused.retryAfterSeconds).toBeGreaterThan(0);
+    expect(refused.retryAfterSeconds).toBeLessThanOrEqual(60);
+    expect(rateLimitHeaders(refused)).toEqual({
+      "X-RateLimit-Limit": "50",
+      "X-RateLimit-Remaining": "45",
+      "Retry-After": String(refused.retryAfterSeconds),
+    });
+  });
+
+  describe("when the store fails", () => {
+    beforeEach(() => {
+      vi.stubEnv("RATE_LIMIT_STORE", "unknown");
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it("lets the request through by default and logs it", async () => {
+      expect(await checkRateLimit("u1", "analyze", log)).toEqual({
+        allowed: true,
+      });
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('"fail_open":true')
+      );
+    });
+
+    it("refuses the request with RATE_LIMIT_FAIL_OPEN=false", async () => {
+      vi.stubEnv("RATE_LIMIT_FAIL_OPEN", "false");
+      const decision = await checkRateLimit("u1", "analyze", log);
+      expect(decision).toEqual({
+        allowed: false,
+        unavailable: true,
+        retryAfterSeconds: 60,
+      });
+      expect(rateLimitMessage(decision, "analyze")).toBe(
+        "Usage limits can't be checked right now. Try again in 1 minute."
+      );
+    });
+  });
+});
+
+describe("rateLimitFailsOpen", () => {
+  it("fails open unless turned off", () => {
+    const env = (value?: string) =>
+      ({ NODE_ENV: "test", RATE_LIMIT_FAIL_OPEN: value }) as NodeJS.ProcessEnv;
+    expect(rateLimitFailsOpen(env())).toBe(true);
+    expect(rateLimitFailsOpen(env("true"))).toBe(true);
+    expect(rateLimitFailsOpen(env("false"))).toBe(false);
+    expect(rateLimitFailsOpen(env("0"))).toBe(false);
+  });
+});
+
+describe("rateLimitMessage", () => {
+  it("names the window that is full", () => {
+    expect(
+      rateLimitMessage(
+        {
+          allowed: false,
+          blockedBy: "daily",
+          limit: 50,
+          retryAfterSeconds: 3 * 60 * 60,
+        },
+        "analyze"
+      )
+    ).toBe("Daily analysis limit reached (50 per day). Try again in 3 hours.");
+    expect(rateLimitMessage({ allowed: false, blockedBy: "burst" }, "upload"))
+      .toBe("Too many uploads in a short time.");
+  });
+
+  it("says how many are left when a batch doesn't fit", () => {
+    expect(
+      rateLimitMessage(
+        { allowed: false, blockedBy: "daily", limit: 50, remaining: 2 },
+        "analyze",
+        5
+      )
+    ).toBe("Only 2 analyses left today, not enough for 5.");
+  });
+});
@@ -0,0 +1,242 @@
+// lib/rate-limit/index.ts
+// Per-user burst and daily limits for the routes that cost a model call or S3
+// storage. Both are sliding windows over the user's recent requests, kept in
+// memory during development and in Postgres in production.
+import { type Logger, logger } from "../logger";
+import { createServiceRoleClient } from "../supabase-service";
+import {
+  formatRetryAfter,
+  QUOTA_LIMIT_HEADER,
+  QUOTA_REMAINING_HEADER,
+} from "./headers";
+import { MemoryRateLimitStore } from "./memory";
+import { PostgresRateLimitStore } from "./postgres";
+import type {
+  ConsumeResult,
+  RateLimitBucket,
+  RateLimitStore,
+  RateLimitWindow,
+} from "./types";
+
+export { MemoryRateLimitStore, PostgresRateLimitStore };
+export type { RateLimitBucket, RateLimitStore, RateLimitWindow };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitPolicy {
+  burst: number; // requests per burst window
+  burstWindowSeconds: number;
+  daily: number; // requests per rolling 24 hours
+}
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitBucket, RateLimitPolicy> = {
+  analyze: { burst: 5, burstWindowSeconds: 60, daily: 50 },
+  upload: { burst: 10, burstWindowSeconds: 60, daily: 100 },
+};
+
+// RATE_LIMIT_<BUCKET>_BURST, _BURST_WINDOW_SECONDS and _DAILY override the
+// defaults; a limit of 0 turns that window off
+export function rateLimitWindowsFromEnv(
+  bucket: RateLimitBucket,
+  env: NodeJS.ProcessEnv = process.env
+): RateLimitWindow[] {
+  const prefix = `RATE_LIMIT_${bucket.toUpperCase()}`;
+  const defaults = DEFAULT_RATE_LIMITS[bucket];
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && Number.isInteger(parsed) && parsed >= 0
+      ? parsed
+      : fallback;
+  };
+  const windows: RateLimitWindow[] = [
+    {
+      name: "burst",
+      limit: read(env[`${prefix}_BURST`], defaults.burst),
+      windowMs:
+        read(
+          env[`${prefix}_BURST_WINDOW_SECONDS`],
+          defaults.burstWindowSeconds
+        ) * 1000,
+    },
+    {
+      name: "daily",
+      limit: read(env[`${prefix}_DAILY`], defaults.daily),
+      windowMs: DAY_MS,
+    },
+  ];
+  return windows.filter((window) => window.limit > 0 && window.windowMs > 0);
+}
+
+// Kept across requests
+let memoryStore: MemoryRateLimitStore | undefined;
+let postgresStore: PostgresRateLimitStore | undefined;
+
+// RATE_LIMIT_STORE is "memory" or "postgres"; defaults to Postgres in
+// production and memory otherwise. Postgres needs SUPABASE_SERVICE_ROLE_KEY.
+export function createRateLimitStore(
+  env: NodeJS.ProcessEnv = process.env
+): RateLimitStore {
+  const name =
+    env.RATE_LIMIT_STORE ||
+    (env.NODE_ENV === "production" ? "postgres" : "memory");
+  switch (name) {
+    case "memory":
+      memoryStore ??= new MemoryRateLimitStore();
+      return memoryStore;
+    case "postgres": {
+      if (postgresStore) return postgresStore;
+      const serviceClient = createServiceRoleClient(env);
+      if (!serviceClient) {
+        throw new Error(
+          "The postgres rate limit store needs SUPABASE_SERVICE_ROLE_KEY."
+        );
+      }
+      postgresStore = new PostgresRateLimitStore(serviceClient);
+      return postgresStore;
+    }
+    default:
+      throw new Error(`Unknown rate limit store: "${name}".`);
+  }
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // The daily quota, when there is one (sent as the X-RateLimit-* headers)
+  limit?: number;
+  remaining?: number;
+  // Refused requests only: which window was full, and when it has room again
+  blockedBy?: RateLimitWindow["name"];
+  // Refused because the store failed (see rateLimitFailsOpen)
+  unavailable?: boolean;
+  retryAfterSeconds?: number;
+}
+
+// What to do when the store fails: let the request through (the default, so
+// the limiter can't take the app down with it) or refuse it, so an outage
+// can't be used to get past the quotas. RATE_LIMIT_FAIL_OPEN=false refuses.
+export function rateLimitFailsOpen(
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  return !["false", "0", "no"].includes(
+    (env.RATE_LIMIT_FAIL_OPEN || "").trim().toLowerCase()
+  );
+}
+
+// How long a refused request waits when the store is down and failing closed
+const UNAVAILABLE_RETRY_AFTER_SECONDS = 60;
+
+// Counts the request against the user's quotas for `bucket`; `count` counts
+// that many at once (a batch of photos), allowed only if all of them fit.
+// Store failures are logged with the request's logger and handled as
+// rateLimitFailsOpen() says.
+export async function checkRateLimit(
+  userId: string,
+  bucket: RateLimitBucket,
+  log: Logger = logger,
+  count = 1
+): Promise<RateLimitDecision> {
+  const windows = rateLimitWindowsFromEnv(bucket);
+  if (windows.length === 0) return { allowed: true };
+
+  let store: RateLimitStore;
+  let result: ConsumeResult;
+  try {
+    store = createRateLimitStore();
+    result = await store.consume(userId, bucket, windows, count);
+  } catch (error: any) {
+    const failOpen = rateLimitFailsOpen();
+    log.error(
+      failOpen
+        ? "Rate limit check failed; allowing the request (RATE_LIMIT_FAIL_OPEN)"
+        : "Rate limit check failed; refusing the request (RATE_LIMIT_FAIL_OPEN=false)",
+      { bucket, fail_open: failOpen, error }
+    );
+    return failOpen
+      ? { allowed: true }
+      : {
+          allowed: false,
+          unavailable: true,
+          retryAfterSeconds: UNAVAILABLE_RETRY_AFTER_SECONDS,
+        };
+  }
+
+  const decision: RateLimitDecision = { allowed: result.allowed };
+  const dailyIndex = windows.findIndex((window) => window.name === "daily");
+  if (dailyIndex !== -1) {
+    const used =
+      result.windows[dailyIndex].count + (result.allowed ? count : 0);
+    decision.limit = windows[dailyIndex].limit;
+    decision.remaining = Math.max(0, decision.limit - used);
+  }
+
+  if (!result.allowed) {
+    // The full window that stays full the longest
+    for (const [index, window] of windows.entries()) {
+      const usage = result.windows[index];
+      if (usage.count + count <= window.limit) continue;
+      const seconds = Math.max(
+        1,
+        Math.ceil(
+          ((usage.oldestAt ?? result.now) + window.windowMs - result.now) /
+            1000
+        )
+      );
+      if (seconds > (decision.retryAfterSeconds ?? 0)) {
+        decision.retryAfterSeconds = seconds;
+        decision.blockedBy = window.name;
+      }
+    }
+    log.warn("Rate limited request", {
+      bucket,
+      count,
+      window: decision.blockedBy,
+      store: store.name,
+      retry_after_seconds: decision.retryAfterSeconds,
+    });
+  }
+  return decision;
+}
+
+// Quota headers for any response of a rate-limited route, plus Retry-After
+// on a 429
+export function rateLimitHeaders(
+  decision: RateLimitDecision
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (decision.limit !== undefined) {
+    headers[QUOTA_LIMIT_HEADER] = String(decision.limit);
+    headers[QUOTA_REMAINING_HEADER] = String(decision.remaining ?? 0);
+  }
+  if (!decision.allowed && decision.retryAfterSeconds !== undefined) {
+    headers["Retry-After"] = String(decision.retryAfterSeconds);
+  }
+  return headers;
+}
+
+// The error message of a 429, e.g. "Daily analysis limit reached (50 per
+// day). Try again in 3 hours." `count` is the number of requests checked at
+// once, as passed to checkRateLimit().
+export function rateLimitMessage(
+  decision: RateLimitDecision,
+  bucket: RateLimitBucket,
+  count = 1
+): string {
+  const noun = bucket === "analyze" ? "analysis" : "upload";
+  const plural = bucket === "analyze" ? "analyses" : "uploads";
+  const retry =
+    decision.retryAfterSeconds !== undefined
+      ? ` Try again in ${formatRetryAfter(decision.retryAfterSeconds)}.`
+      : "";
+  if (decision.unavailable) {
+    return `Usage limits can't be checked right now.${retry}`;
+  }
+  if (decision.blockedBy === "daily" && count > 1 && decision.remaining) {
+    return `Only ${decision.remaining} ${
+      decision.remaining === 1 ? noun : plural
+    } left today, not enough for ${count}.`;
+  }
+  if (decision.blockedBy === "daily") {
+    return `Daily ${noun} limit reached (${decision.limit} per day).${retry}`;
+  }
+  return `Too many ${plural} in a short time.${retry}`;
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemoryRateLimitStore } from "./memory";
+import type { RateLimitWindow } from "./types";
+
+const windows: RateLimitWindow[] = [
+  { name: "burst", limit: 2, windowMs: 60_000 },
+  { name: "daily", limit: 3, windowMs: 24 * 60 * 60 * 1000 },
+];
+
+describe("MemoryRateLimitStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refuses a request once a window is full, without recording it", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+    expect((await store.consume("u1", "analyze", windows)).allowed).toBe(true);
+    expect((await store.consume("u1", "analyze", windows)).allowed).toBe(true);
+
+    const refused = await store.consume("u1", "analyze", windows);
+    expect(refused.allowed).toBe(false);
+    expect(refused.windows).toEqual([
+      { count: 2, oldestAt: 0 },
+      { count: 2, oldestAt: 0 },
+    ]);
+  });
+
+  it("slides the burst window but keeps the daily count", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+    await store.consume("u1", "analyze", windows);
+    await store.consume("u1", "analyze", windows);
+
+    vi.setSystemTime(60_001);
+    const third = await store.consume("u1", "analyze", windows);
+    expect(third.allowed).toBe(true);
+    expect(third.windows[0].count).toBe(0);
+
+    vi.setSystemTime(120_002);
+    const fourth = await store.consume("u1", "analyze", windows);
+    expect(fourth.allowed).toBe(false);
+    expect(fourth.windows[1].count).toBe(3);
+  });
+
+  it("takes several requests at once only if they all fit", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+    await store.consume("u1", "analyze", windows);
+
+    expect((await store.consume("u1", "analyze", windows, 2)).allowed).toBe(
+      false
+    );
+    const single = await store.consume("u1", "analyze", windows);
+    expect(single.allowed).toBe(true);
+    expect(single.windows[0].count).toBe(1);
+  });
+
+  it("counts users and buckets separately", async () => {
+    const store = new MemoryRateLimitStore();
+    const burst = [windows[0]];
+    await store.consume("u1", "analyze", burst);
+    await store.consume("u1", "analyze", burst);
+    expect((await store.consume("u2", "analyze", burst)).allowed).toBe(true);
+    expect((await store.consume("u1", "upload", burst)).allowed).toBe(true);
+  });
+});
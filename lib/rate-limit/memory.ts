@@ -0,0 +1,45 @@
+// lib/rate-limit/memory.ts
+// Per-process store for development. Counts are lost on restart and not
+// shared between server instances, so production uses the Postgres store.
+import type {
+  ConsumeResult,
+  RateLimitBucket,
+  RateLimitStore,
+  RateLimitWindow,
+} from "./types";
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  // Request timestamps per user and bucket, oldest first
+  private hits = new Map<string, number[]>();
+
+  async consume(
+    userId: string,
+    bucket: RateLimitBucket,
+    windows: RateLimitWindow[],
+    count = 1
+  ): Promise<ConsumeResult> {
+    const now = Date.now();
+    const key = `${userId}:${bucket}`;
+    const longest = Math.max(0, ...windows.map((window) => window.windowMs));
+    const hits = (this.hits.get(key) || []).filter(
+      (hitAt) => hitAt > now - longest
+    );
+
+    const usage = windows.map((window) => {
+      const inWindow = hits.filter((hitAt) => hitAt > now - window.windowMs);
+      return { count: inWindow.length, oldestAt: inWindow[0] };
+    });
+    const allowed = windows.every(
+      (window, index) => usage[index].count + count <= window.limit
+    );
+    if (allowed) hits.push(...new Array<number>(count).fill(now));
+
+    if (hits.length > 0) {
+      this.hits.set(key, hits);
+    } else {
+      this.hits.delete(key);
+    }
+    return { allowed, windows: usage, now };
+  }
+}
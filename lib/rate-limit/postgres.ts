@@ -0,0 +1,57 @@
+// lib/rate-limit/postgres.ts
+// Shared store for production: the rate_limit_consume() function (see the
+// rate_limits migrations) checks and records a request in one transaction.
+// Only the service role may call it, since the windows are passed in.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ConsumeResult,
+  RateLimitBucket,
+  RateLimitStore,
+  RateLimitWindow,
+} from "./types";
+
+interface ConsumeRow {
+  allowed: boolean;
+  now: string;
+  windows: { count: number; oldest_at: string | null }[];
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+  private supabase: SupabaseClient<any>;
+
+  // `supabase` must act as the service role (see createServiceRoleClient)
+  constructor(supabase: SupabaseClient<any>) {
+    this.supabase = supabase;
+  }
+
+  async consume(
+    userId: string,
+    bucket: RateLimitBucket,
+    windows: RateLimitWindow[],
+    count = 1
+  ): Promise<ConsumeResult> {
+    const { data, error } = await this.supabase.rpc("rate_limit_consume", {
+      p_user: userId,
+      p_bucket: bucket,
+      p_window_seconds: windows.map((window) =>
+        Math.ceil(window.windowMs / 1000)
+      ),
+      p_limits: windows.map((window) => window.limit),
+      p_count: count,
+    });
+    if (error) {
+      throw new Error(`rate_limit_consume failed: ${error.message}`);
+    }
+
+    const row = data as ConsumeRow;
+    return {
+      allowed: row.allowed,
+      now: Date.parse(row.now),
+      windows: row.windows.map((window) => ({
+        count: window.count,
+        oldestAt: window.oldest_at ? Date.parse(window.oldest_at) : undefined,
+      })),
+    };
+  }
+}
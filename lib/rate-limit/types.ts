@@ -0,0 +1,39 @@
+// lib/rate-limit/types.ts
+
+// Requests that cost a model call share "analyze"; S3 uploads are "upload"
+export type RateLimitBucket = "analyze" | "upload";
+
+export interface RateLimitWindow {
+  name: "burst" | "daily";
+  limit: number;
+  windowMs: number;
+}
+
+// Requests already counted in one window, before the current one
+export interface WindowUsage {
+  count: number;
+  oldestAt?: number; // epoch ms of the oldest request still in the window
+}
+
+export interface ConsumeResult {
+  // False when any window lacks room for all the requests; none is then
+  // recorded
+  allowed: boolean;
+  // In the same order as the windows passed in
+  windows: WindowUsage[];
+  now: number; // epoch ms, by the store's clock
+}
+
+// Sliding-window log of a user's requests per bucket. Checking the windows and
+// recording the requests must happen atomically, so concurrent requests can't
+// both take the last slot. `count` requests (1 by default) are taken at once,
+// all or none, e.g. every photo of a batch.
+export interface RateLimitStore {
+  readonly name: string;
+  consume(
+    userId: string,
+    bucket: RateLimitBucket,
+    windows: RateLimitWindow[],
+    count?: number
+  ): Promise<ConsumeResult>;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { bucketName, imageKeyFromUrl } from "./s3";
+
+describe("imageKeyFromUrl", () => {
+  const signature = "X-Amz-Expires=3600&X-Amz-Signature=abc";
+
+  it("reads the key from virtual-hosted and path-style URLs", () => {
+    expect(
+      imageKeyFromUrl(
+        `https://${bucketName}.s3.ap-south-1.amazonaws.com/photo%201.jpg?${signature}`
+      )
+    ).toBe("photo 1.jpg");
+    expect(
+      imageKeyFromUrl(
+        `https://s3.ap-south-1.amazonaws.com/${bucketName}/photo.jpg?${signature}`
+      )
+    ).toBe("photo.jpg");
+  });
+
+  it("ignores URLs of other buckets and hosts", () => {
+    expect(
+      imageKeyFromUrl("https://other.s3.amazonaws.com/photo.jpg")
+    ).toBeNull();
+    expect(imageKeyFromUrl("https://example.com/photo.jpg")).toBeNull();
+    expect(imageKeyFromUrl("not a url")).toBeNull();
+  });
+
+  it("requires the whole host to be an S3 endpoint", () => {
+    const key = "8f14e45f-ceea-467f-a0e6-0d3c2a8b9f11/photo.jpg";
+    expect(
+      imageKeyFromUrl(`https://${bucketName}.s3.amazonaws.com/${key}`)
+    ).toBe(key);
+    expect(
+      imageKeyFromUrl(`https://${bucketName}.s3.attacker.example/${key}`)
+    ).toBeNull();
+    expect(
+      imageKeyFromUrl(
+        `https://${bucketName}.s3.us-east-1.amazonaws.com.attacker.example/${key}`
+      )
+    ).toBeNull();
+    expect(
+      imageKeyFromUrl(`https://s3.attacker.example/${bucketName}/${key}`)
+    ).toBeNull();
+    expect(
+      imageKeyFromUrl(`http://${bucketName}.s3.amazonaws.com/${key}`)
+    ).toBeNull();
+  });
+});
@@ -3,13 +3,74 @@ import AWS from "aws-sdk";
 // Removed imports related to Route Handling (NextResponse, cookies, createRouteHandlerClient, uuidv4)
 // as this should not be a route handler.
 
-// Configure AWS S3 with credentials from server-side environment variables
-// This configuration can be used by API routes if needed,
-// though the current app/api/upload/route.ts initializes its own client.
-const s3 = new AWS.S3({
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-  region: process.env.AWS_REGION,
-});
-
-const bucketName = "food-analyses-images";
+// The bucket app/api/upload/route.ts stores images in
+export const bucketName =
+  process.env.AWS_S3_BUCKET_NAME || "food-analyses-images";
+
+// Pre-signed URL validity (1 hour), as for uploads
+const signedUrlExpireSeconds = 60 * 60;
+
+// Configure AWS S3 with credentials from server-side environment variables.
+// Null when they are missing. The upload route initializes its own client.
+export function createS3Client(
+  env: NodeJS.ProcessEnv = process.env
+): AWS.S3 | null {
+  if (!env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY || !env.AWS_REGION) {
+    return null;
+  }
+  return new AWS.S3({
+    accessKeyId: env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+    region: env.AWS_REGION,
+    signatureVersion: "v4", // Important for pre-signed URLs
+  });
+}
+
+// A temporary read URL for an uploaded (private) image
+export function signedImageUrl(s3: AWS.S3, key: string): Promise<string> {
+  return s3.getSignedUrlPromise("getObject", {
+    Bucket: bucketName,
+    Key: key,
+    Expires: signedUrlExpireSeconds,
+  });
+}
+
+// S3 endpoint hosts: "s3.<region>.amazonaws.com", or the global
+// "s3.amazonaws.com" (us-east-1). A region never contains a dot.
+const S3_HOST = String.raw`s3\.(?:[a-z0-9-]+\.)?amazonaws\.com`;
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const virtualHostedHost = new RegExp(
+  `^${escapeRegExp(bucketName)}\\.${S3_HOST}$`,
+  "i"
+);
+const pathStyleHost = new RegExp(`^${S3_HOST}$`, "i");
+
+// The key of an image in our bucket, from one of its (pre-signed) URLs:
+// virtual-hosted ("<bucket>.s3.<region>.amazonaws.com/<key>") or path-style
+// ("s3.<region>.amazonaws.com/<bucket>/<key>"). The whole host must match, so
+// look-alikes such as "<bucket>.s3.example.com" are rejected. Null for any
+// other URL.
+export function imageKeyFromUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "https:") return null;
+  let path: string;
+  try {
+    path = decodeURIComponent(parsed.pathname.slice(1));
+  } catch {
+    return null;
+  }
+  if (virtualHostedHost.test(parsed.hostname)) return path || null;
+  if (
+    pathStyleHost.test(parsed.hostname) &&
+    path.startsWith(`${bucketName}/`)
+  ) {
+    return path.slice(bucketName.length + 1) || null;
+  }
+  return null;
+}
@@ -0,0 +1,20 @@
+// lib/supabase-service.ts
+// A Supabase client acting as the service role, for the writes users must not
+// be able to make through their own session (analysis revisions, rate limit
+// hits, usage events, job status). It bypasses Row Level Security: server-side
+// use only.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Null when SUPABASE_SERVICE_ROLE_KEY or the project URL is missing
+export function createServiceRoleClient(
+  env: NodeJS.ProcessEnv = process.env
+): SupabaseClient<any> | null {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY || !env.NEXT_PUBLIC_SUPABASE_URL) {
+    return null;
+  }
+  return createClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false } }
+  );
+}
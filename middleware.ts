@@ -10,16 +10,7 @@ export async function middleware(req: NextRequest) {
   const supabase = createMiddlewareClient({ req, res });
 
   // Try to get the session - this will refresh the session if needed
-  const {
-    data: { session },
-  } = await supabase.auth.getSession();
-
-  // Log session state for debugging
-  console.log("Middleware session check:", {
-    path: req.nextUrl.pathname,
-    hasSession: !!session,
-    userId: session?.user?.id || "none",
-  });
+  await supabase.auth.getSession();
 
   // Check if this is an API request
   const isApiRequest = req.nextUrl.pathname.startsWith("/api/");
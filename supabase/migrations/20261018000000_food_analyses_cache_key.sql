@@ -0,0 +1,9 @@
+-- Cache key for /api/analyze: identical image bytes analysed with the same
+-- prompt version and model reuse the stored result instead of calling the model again.
+alter table public.food_analyses
+  add column if not exists image_hash text,
+  add column if not exists prompt_version text,
+  add column if not exists model_id text;
+
+create index if not exists food_analyses_cache_key_idx
+  on public.food_analyses (user_id, image_hash, prompt_version, model_id, created_at desc);
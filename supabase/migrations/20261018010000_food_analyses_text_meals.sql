@@ -0,0 +1,5 @@
+-- Meals logged from a text description (/api/analyze/text) have no photo:
+-- image_url is null and the description is kept alongside the result.
+alter table public.food_analyses
+  alter column image_url drop not null,
+  add column if not exists meal_description text;
@@ -0,0 +1,7 @@
+-- Leftovers photos (/api/analyze/leftovers): the share of the plate that was
+-- actually eaten, kept next to the per-item consumed_fraction in analysis_result
+-- so daily totals can be summed without unpacking the JSON.
+alter table public.food_analyses
+  add column if not exists leftovers_image_url text,
+  add column if not exists consumed_fraction real
+    check (consumed_fraction is null or (consumed_fraction >= 0 and consumed_fraction <= 1));
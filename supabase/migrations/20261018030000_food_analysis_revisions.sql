@@ -0,0 +1,29 @@
+-- User corrections (/api/analyze/correct): food_analyses.analysis_result holds
+-- the current version, and every version is kept here. Revision 0 is the
+-- original analysis, stored when the first correction is made.
+create table if not exists public.food_analysis_revisions (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null references public.food_analyses (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  revision integer not null,
+  analysis_result jsonb not null,
+  -- The user's edits that produced this revision (null for the original)
+  correction jsonb,
+  -- "original", "reference" (nutrient table) or "model"
+  method text not null,
+  model_id text,
+  created_at timestamptz not null default now(),
+  unique (analysis_id, revision)
+);
+
+alter table public.food_analysis_revisions enable row level security;
+
+create policy "Users can read their own analysis revisions"
+  on public.food_analysis_revisions for select
+  using (auth.uid() = user_id);
+
+-- No insert policy: revisions are written by the server only, as the service
+-- role (see 20261018085000_food_analysis_revisions_service_role.sql)
+
+alter table public.food_analyses
+  add column if not exists revision integer not null default 0;
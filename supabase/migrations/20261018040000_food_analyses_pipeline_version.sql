@@ -0,0 +1,18 @@
+-- Which prompt template and model produced each analysis, how long the model
+-- took and how many tokens it used (see lib/analysis/templates.ts). model_id
+-- and prompt_version already exist for the analysis cache.
+alter table public.food_analyses
+  add column if not exists prompt_id text,
+  add column if not exists latency_ms integer,
+  add column if not exists input_tokens integer,
+  add column if not exists output_tokens integer;
+
+create index if not exists food_analyses_pipeline_version_idx
+  on public.food_analyses (user_id, prompt_id, prompt_version, model_id);
+
+alter table public.food_analysis_revisions
+  add column if not exists prompt_id text,
+  add column if not exists prompt_version text,
+  add column if not exists latency_ms integer,
+  add column if not exists input_tokens integer,
+  add column if not exists output_tokens integer;
@@ -0,0 +1,84 @@
+-- Per-user rate limiting (lib/rate-limit/postgres.ts): one row per allowed
+-- request, counted over each sliding window and pruned after the longest.
+create table if not exists public.rate_limit_hits (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- "analyze" or "upload"
+  bucket text not null,
+  hit_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_hits_user_bucket_idx
+  on public.rate_limit_hits (user_id, bucket, hit_at);
+
+-- No policies: rows are only read and written by rate_limit_consume()
+alter table public.rate_limit_hits enable row level security;
+
+-- Checks the caller's requests in `bucket` against each window
+-- (p_window_seconds[i] may hold at most p_limits[i] requests) and records the
+-- request if none is full. Returns
+-- { allowed, now, windows: [{ count, oldest_at }] } with the counts from
+-- before this request.
+create or replace function public.rate_limit_consume(
+  p_bucket text,
+  p_window_seconds integer[],
+  p_limits integer[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamptz := clock_timestamp();
+  v_allowed boolean := true;
+  v_windows jsonb := '[]'::jsonb;
+  v_count integer;
+  v_oldest timestamptz;
+begin
+  if v_user is null then
+    raise exception 'rate_limit_consume requires an authenticated user';
+  end if;
+
+  -- Concurrent requests of the same user and bucket take turns
+  perform pg_advisory_xact_lock(hashtext(v_user::text || ':' || p_bucket));
+
+  delete from rate_limit_hits
+  where user_id = v_user
+    and bucket = p_bucket
+    and hit_at <= v_now - make_interval(
+      secs => (select max(seconds) from unnest(p_window_seconds) as seconds)
+    );
+
+  for i in 1 .. coalesce(array_length(p_window_seconds, 1), 0) loop
+    select count(*), min(hit_at)
+      into v_count, v_oldest
+      from rate_limit_hits
+      where user_id = v_user
+        and bucket = p_bucket
+        and hit_at > v_now - make_interval(secs => p_window_seconds[i]);
+    if v_count >= p_limits[i] then
+      v_allowed := false;
+    end if;
+    v_windows := v_windows
+      || jsonb_build_object('count', v_count, 'oldest_at', v_oldest);
+  end loop;
+
+  if v_allowed then
+    insert into rate_limit_hits (user_id, bucket, hit_at)
+    values (v_user, p_bucket, v_now);
+  end if;
+
+  return jsonb_build_object(
+    'allowed', v_allowed,
+    'now', v_now,
+    'windows', v_windows
+  );
+end;
+$$;
+
+revoke all on function public.rate_limit_consume(text, integer[], integer[])
+  from public;
+grant execute on function public.rate_limit_consume(text, integer[], integer[])
+  to authenticated;
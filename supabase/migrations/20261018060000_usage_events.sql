@@ -0,0 +1,53 @@
+-- Token usage and cost of every model call, failed attempts included
+-- (lib/analysis/usage.ts). cost_usd is computed from the price table when the
+-- event is recorded.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Not a foreign key: calls that fail or find no food never become a saved
+  -- analysis
+  analysis_id uuid,
+  prompt_id text,
+  prompt_version text,
+  provider text not null,
+  model_id text not null,
+  status text not null check (status in ('success', 'error')),
+  error text,
+  input_tokens integer,
+  output_tokens integer,
+  total_tokens integer,
+  -- Null when the model is missing from the price table
+  cost_usd numeric(12, 6),
+  latency_ms integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx
+  on public.usage_events (user_id, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+create policy "Users can read their own usage events"
+  on public.usage_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own usage events"
+  on public.usage_events for insert
+  with check (auth.uid() = user_id);
+
+-- Totals by UTC day, user and model. security_invoker keeps the table's RLS:
+-- users see their own rows, the service role sees everyone's.
+create or replace view public.usage_daily
+with (security_invoker = true) as
+select
+  (created_at at time zone 'utc')::date as day,
+  user_id,
+  model_id,
+  count(*) filter (where status = 'success') as requests,
+  count(*) filter (where status = 'error') as failed_requests,
+  coalesce(sum(input_tokens), 0) as input_tokens,
+  coalesce(sum(output_tokens), 0) as output_tokens,
+  coalesce(sum(total_tokens), 0) as total_tokens,
+  sum(cost_usd) as cost_usd
+from public.usage_events
+group by 1, 2, 3;
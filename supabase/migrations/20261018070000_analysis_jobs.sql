@@ -0,0 +1,80 @@
+-- Photo analyses submitted through POST /api/analyze/jobs
+-- (lib/analysis/worker.ts). The submit request only queues the job; a worker
+-- runs the pipeline and records its progress and outcome here, so the result
+-- can be picked up after the page that asked for it is gone.
+create table if not exists public.analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- "queued", "running", "succeeded" or "failed"
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  -- The request, as accepted by /api/analyze
+  image_url text not null,
+  mode text not null default 'meal',
+  force boolean not null default false,
+  servings numeric not null default 1,
+  -- Last pipeline stage reached (see ANALYSIS_STAGES)
+  stage text,
+  -- Dish name and cuisine, known before the full result
+  preview jsonb,
+  result jsonb,
+  -- Null when no food was found or the analysis could not be saved
+  analysis_id uuid references public.food_analyses (id) on delete set null,
+  -- { code, message, retryable, correlation_id, validation_issues? }
+  error jsonb,
+  correlation_id text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists analysis_jobs_user_created_idx
+  on public.analysis_jobs (user_id, created_at desc);
+
+create index if not exists analysis_jobs_queued_idx
+  on public.analysis_jobs (created_at)
+  where status = 'queued';
+
+alter table public.analysis_jobs enable row level security;
+
+create policy "Users can read their own analysis jobs"
+  on public.analysis_jobs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can submit analysis jobs"
+  on public.analysis_jobs for insert
+  with check (auth.uid() = user_id);
+
+-- Progress updates of jobs run in-process, with the submitter's session
+create policy "Users can update their own analysis jobs"
+  on public.analysis_jobs for update
+  using (auth.uid() = user_id);
+
+-- Dismissing a failed job in History
+create policy "Users can delete their own analysis jobs"
+  on public.analysis_jobs for delete
+  using (auth.uid() = user_id);
+
+-- Hands the oldest queued job to one worker and marks it running. Concurrent
+-- workers skip each other's rows, so a job is never run twice.
+create or replace function public.claim_analysis_job()
+returns setof public.analysis_jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update analysis_jobs
+  set status = 'running', started_at = now()
+  where id = (
+    select id
+    from analysis_jobs
+    where status = 'queued'
+    order by created_at
+    limit 1
+    for update skip locked
+  )
+  returning *;
+$$;
+
+revoke all on function public.claim_analysis_job() from public;
+grant execute on function public.claim_analysis_job() to service_role;
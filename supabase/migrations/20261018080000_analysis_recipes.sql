@@ -0,0 +1,45 @@
+-- Cook-at-home recipes for analysed dishes (POST /api/analyze/recipe,
+-- lib/analysis/recipe.ts). One per analysis; writing it again replaces it.
+create table if not exists public.analysis_recipes (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null unique
+    references public.food_analyses (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- { title, servings, prep_minutes, cook_minutes, ingredients, steps, notes }
+  recipe jsonb not null,
+  -- food_analyses.revision the recipe was written for
+  analysis_revision integer not null default 0,
+  prompt_version text,
+  model_id text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.analysis_recipes enable row level security;
+
+create policy "Users can read their own recipes"
+  on public.analysis_recipes for select
+  using (auth.uid() = user_id);
+
+-- The analysis must be the user's too, or anyone could attach a recipe to
+-- another user's analysis id
+create policy "Users can add recipes to their own analyses"
+  on public.analysis_recipes for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.food_analyses a
+      where a.id = analysis_id and a.user_id = auth.uid()
+    )
+  );
+
+-- Writing the recipe again
+create policy "Users can update their own recipes"
+  on public.analysis_recipes for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.food_analyses a
+      where a.id = analysis_id and a.user_id = auth.uid()
+    )
+  );
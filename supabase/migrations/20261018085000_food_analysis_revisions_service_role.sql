@@ -0,0 +1,63 @@
+-- Revisions used to be inserted by the signed-in user, who could store any
+-- result under any revision number of their own analyses. They are now
+-- written by the server only, as the service role, together with the
+-- analysis' current version (lib/analysis/pipeline.ts runCorrectionPipeline).
+drop policy if exists "Users can add revisions to their own analyses"
+  on public.food_analysis_revisions;
+
+-- Saves a correction in one transaction: stores p_result as the analysis'
+-- current version and inserts p_revisions (the new revision, plus the
+-- original as revision 0 on the first correction). Only applies while the
+-- analysis is still at p_expected_revision, so concurrent corrections can't
+-- both take the next number; returns false and changes nothing otherwise.
+create or replace function public.save_analysis_correction(
+  p_analysis uuid,
+  p_user uuid,
+  p_expected_revision integer,
+  p_result jsonb,
+  p_revisions jsonb
+)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+begin
+  update food_analyses
+  set analysis_result = p_result,
+      revision = p_expected_revision + 1
+  where id = p_analysis
+    and user_id = p_user
+    and revision = p_expected_revision;
+  if not found then
+    return false;
+  end if;
+
+  insert into food_analysis_revisions (
+    analysis_id, user_id, revision, analysis_result, correction, method,
+    model_id, prompt_id, prompt_version, latency_ms, input_tokens,
+    output_tokens
+  )
+  select
+    p_analysis, p_user, r.revision, r.analysis_result, r.correction,
+    r.method, r.model_id, r.prompt_id, r.prompt_version, r.latency_ms,
+    r.input_tokens, r.output_tokens
+  from jsonb_to_recordset(p_revisions) as r (
+    revision integer,
+    analysis_result jsonb,
+    correction jsonb,
+    method text,
+    model_id text,
+    prompt_id text,
+    prompt_version text,
+    latency_ms integer,
+    input_tokens integer,
+    output_tokens integer
+  );
+  return true;
+end;
+$$;
+
+revoke all on function public.save_analysis_correction(uuid, uuid, integer, jsonb, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.save_analysis_correction(uuid, uuid, integer, jsonb, jsonb)
+  to service_role;
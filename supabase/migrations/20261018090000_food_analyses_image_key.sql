@@ -0,0 +1,7 @@
+-- S3 key of the analysed photo. image_url is a pre-signed URL that expires
+-- after an hour; re-analyses (e.g. answering clarifying questions) sign the key
+-- again instead. Null for meals described in words, photos that aren't the
+-- user's own uploads, and rows saved before this column existed, which fall
+-- back to image_url.
+alter table public.food_analyses
+  add column if not exists image_key text;
@@ -0,0 +1,78 @@
+-- rate_limit_consume() used to run as the calling user, who also chose the
+-- windows and limits: calling it with a one-second window pruned their own
+-- history and reset their quota. It is now called by the server only, as the
+-- service role, with the user id and the configured windows
+-- (lib/rate-limit/postgres.ts).
+drop function if exists public.rate_limit_consume(text, integer[], integer[]);
+
+-- Checks the requests of `p_user` in `p_bucket` against each window
+-- (p_window_seconds[i] may hold at most p_limits[i] requests) and records the
+-- request if none is full. Returns
+-- { allowed, now, windows: [{ count, oldest_at }] } with the counts from
+-- before this request.
+create or replace function public.rate_limit_consume(
+  p_user uuid,
+  p_bucket text,
+  p_window_seconds integer[],
+  p_limits integer[]
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_allowed boolean := true;
+  v_windows jsonb := '[]'::jsonb;
+  v_count integer;
+  v_oldest timestamptz;
+begin
+  if p_user is null then
+    raise exception 'rate_limit_consume requires a user id';
+  end if;
+  if coalesce(array_length(p_window_seconds, 1), 0)
+      <> coalesce(array_length(p_limits, 1), 0) then
+    raise exception 'rate_limit_consume needs one limit per window';
+  end if;
+
+  -- Concurrent requests of the same user and bucket take turns
+  perform pg_advisory_xact_lock(hashtext(p_user::text || ':' || p_bucket));
+
+  delete from rate_limit_hits
+  where user_id = p_user
+    and bucket = p_bucket
+    and hit_at <= v_now - make_interval(
+      secs => (select max(seconds) from unnest(p_window_seconds) as seconds)
+    );
+
+  for i in 1 .. coalesce(array_length(p_window_seconds, 1), 0) loop
+    select count(*), min(hit_at)
+      into v_count, v_oldest
+      from rate_limit_hits
+      where user_id = p_user
+        and bucket = p_bucket
+        and hit_at > v_now - make_interval(secs => p_window_seconds[i]);
+    if v_count >= p_limits[i] then
+      v_allowed := false;
+    end if;
+    v_windows := v_windows
+      || jsonb_build_object('count', v_count, 'oldest_at', v_oldest);
+  end loop;
+
+  if v_allowed then
+    insert into rate_limit_hits (user_id, bucket, hit_at)
+    values (p_user, p_bucket, v_now);
+  end if;
+
+  return jsonb_build_object(
+    'allowed', v_allowed,
+    'now', v_now,
+    'windows', v_windows
+  );
+end;
+$$;
+
+revoke all on function public.rate_limit_consume(uuid, text, integer[], integer[])
+  from public, anon, authenticated;
+grant execute on function public.rate_limit_consume(uuid, text, integer[], integer[])
+  to service_role;
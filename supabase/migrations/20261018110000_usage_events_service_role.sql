@@ -0,0 +1,25 @@
+-- Usage events are recorded by the server only, as the service role
+-- (lib/analysis/usage.ts). Users could otherwise write their own rows and
+-- skew their usage and cost totals.
+drop policy if exists "Users can record their own usage events"
+  on public.usage_events;
+
+-- usage_daily by prompt as well, so totals can tell new analyses (meal and
+-- label prompts) from recipes, suggestions, leftovers and corrections.
+-- requests counts successful calls only, failed_requests the failed ones.
+drop view if exists public.usage_daily;
+create view public.usage_daily
+with (security_invoker = true) as
+select
+  (created_at at time zone 'utc')::date as day,
+  user_id,
+  model_id,
+  prompt_id,
+  count(*) filter (where status = 'success') as requests,
+  count(*) filter (where status = 'error') as failed_requests,
+  coalesce(sum(input_tokens), 0) as input_tokens,
+  coalesce(sum(output_tokens), 0) as output_tokens,
+  coalesce(sum(total_tokens), 0) as total_tokens,
+  sum(cost_usd) as cost_usd
+from public.usage_events
+group by 1, 2, 3, 4;
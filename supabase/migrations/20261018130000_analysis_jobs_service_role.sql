@@ -0,0 +1,38 @@
+-- Analysis jobs are written by the server only, as the service role
+-- (lib/analysis/worker.ts). Users could otherwise queue jobs for any photo
+-- URL or key and set their own jobs' status and result. They keep reading
+-- and dismissing their jobs.
+drop policy if exists "Users can submit analysis jobs" on public.analysis_jobs;
+drop policy if exists "Users can update their own analysis jobs"
+  on public.analysis_jobs;
+
+-- S3 key of the photo, when it is one of the submitter's uploads: signed
+-- again when the job runs, as image_url expires an hour after the upload
+alter table public.analysis_jobs add column if not exists image_key text;
+
+-- Hands the oldest queued job to one worker and marks it running. Concurrent
+-- workers skip each other's rows, so a job is never run twice. Jobs queued
+-- for more than 5 minutes (STALE_JOB_MS in lib/analysis/jobs.ts) are left
+-- alone: they are reported as failed.
+create or replace function public.claim_analysis_job()
+returns setof public.analysis_jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update analysis_jobs
+  set status = 'running', started_at = now()
+  where id = (
+    select id
+    from analysis_jobs
+    where status = 'queued'
+      and created_at > now() - interval '5 minutes'
+    order by created_at
+    limit 1
+    for update skip locked
+  )
+  returning *;
+$$;
+
+revoke all on function public.claim_analysis_job() from public;
+grant execute on function public.claim_analysis_job() to service_role;
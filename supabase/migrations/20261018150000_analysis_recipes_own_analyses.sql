@@ -0,0 +1,30 @@
+-- Recipes could be written for any analysis id, including other users'
+-- analyses, and moved to another analysis or user on update. Both policies
+-- now require the analysis to belong to the user, as in
+-- 20261018080000_analysis_recipes.sql; recreated here for databases that
+-- applied the earlier version of it.
+drop policy if exists "Users can add recipes to their own analyses"
+  on public.analysis_recipes;
+drop policy if exists "Users can update their own recipes"
+  on public.analysis_recipes;
+
+create policy "Users can add recipes to their own analyses"
+  on public.analysis_recipes for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.food_analyses a
+      where a.id = analysis_id and a.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own recipes"
+  on public.analysis_recipes for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.food_analyses a
+      where a.id = analysis_id and a.user_id = auth.uid()
+    )
+  );